@@ -0,0 +1,101 @@
+import { getDb } from "@/lib/db"
+import { escalations, ESCALATION_STATUS } from "@/lib/db/schema/escalations"
+import { acknowledgeEscalation, verifyAckToken } from "@/lib/escalation"
+import { eq } from "drizzle-orm"
+import { NextResponse } from "next/server"
+
+export const runtime = "edge"
+
+function escapeHtml(value: string) {
+  return value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`)
+}
+
+function renderPage(title: string, content: string, status = 200) {
+  const html = `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>
+body{font-family:system-ui,sans-serif;max-width:420px;margin:15vh auto;padding:0 24px;color:#111;text-align:center}
+p{color:#666}
+button{padding:10px 32px;font-size:16px;border:0;border-radius:6px;background:#111;color:#fff;cursor:pointer}
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+${content}
+</body>
+</html>`
+  return new Response(html, {
+    status,
+    headers: { "Content-Type": "text/html; charset=utf-8" },
+  })
+}
+
+function formatTime(timestamp: number) {
+  return new Date(timestamp).toLocaleString("zh-CN", { timeZone: "Asia/Shanghai" })
+}
+
+async function findEscalation(token: string) {
+  const escalationId = await verifyAckToken(token)
+  if (!escalationId) return null
+
+  return getDb().query.escalations.findFirst({
+    where: eq(escalations.id, escalationId),
+    with: { endpoint: { columns: { name: true } } },
+  })
+}
+
+/**
+ * 确认页面，只展示状态，确认需要提交表单，避免聊天软件预览链接时误确认
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params
+    const escalation = await findEscalation(token)
+    if (!escalation) {
+      return renderPage("确认链接无效", "<p>链接已失效或告警已被删除</p>", 404)
+    }
+
+    const name = escapeHtml(escalation.endpoint.name)
+    if (escalation.status === ESCALATION_STATUS.ACKNOWLEDGED) {
+      return renderPage("告警已确认", `<p>${name} 已于 ${formatTime(escalation.ackedAt!)} 确认</p>`)
+    }
+    return renderPage("确认告警", `<p>${name} 的告警正在等待确认，确认后不再继续升级通知</p>
+<form method="post"><button type="submit">确认</button></form>`)
+  } catch (error) {
+    console.error("[ACK_GET]", error)
+    return new Response("Internal Error", { status: 500 })
+  }
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params
+    const wantsJson = request.headers.get("accept")?.includes("application/json")
+    const escalation = await findEscalation(token)
+    if (!escalation) {
+      return wantsJson
+        ? NextResponse.json({ message: "确认链接无效" }, { status: 404 })
+        : renderPage("确认链接无效", "<p>链接已失效或告警已被删除</p>", 404)
+    }
+
+    const acknowledged = await acknowledgeEscalation(escalation.id, "确认链接")
+    const ackedAt = acknowledged?.ackedAt ?? escalation.ackedAt
+    const message = acknowledged ? "告警已确认，已停止升级通知" : "告警已确认过"
+    return wantsJson
+      ? NextResponse.json({ message, escalationId: escalation.id, ackedAt: ackedAt ? new Date(ackedAt).toISOString() : null })
+      : renderPage(message, `<p>${escapeHtml(escalation.endpoint.name)}${ackedAt ? ` 于 ${formatTime(ackedAt)} 确认` : ""}</p>`)
+  } catch (error) {
+    console.error("[ACK_POST]", error)
+    return new Response("Internal Error", { status: 500 })
+  }
+}
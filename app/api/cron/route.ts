@@ -0,0 +1,26 @@
+import { flushStaleDigests } from "@/lib/digest"
+import { isQueueRequest } from "@/lib/queue"
+import { dispatchDueSchedules } from "@/lib/schedules"
+import { NextResponse } from "next/server"
+
+export const runtime = "edge"
+
+/**
+ * 定时任务入口，由 queue-consumer Worker 的 Cron Trigger 调用
+ * 本地开发时可以携带 QUEUE_SECRET 直接调用
+ */
+export async function POST(req: Request) {
+  try {
+    if (!isQueueRequest(req)) {
+      return new NextResponse("Unauthorized", { status: 401 })
+    }
+
+    const schedules = await dispatchDueSchedules()
+    const digests = await flushStaleDigests()
+
+    return NextResponse.json({ schedules, digests })
+  } catch (error) {
+    console.error("[CRON]", error)
+    return new NextResponse("Internal Error", { status: 500 })
+  }
+}
@@ -0,0 +1,66 @@
+import { auth } from "@/lib/auth"
+import { getDb } from "@/lib/db"
+import { endpoints } from "@/lib/db/schema/endpoints"
+import { getDigestSummary, scheduleDigest } from "@/lib/digest"
+import { and, eq } from "drizzle-orm"
+import { NextResponse } from "next/server"
+
+export const runtime = "edge"
+
+async function findEndpoint(endpointId: string) {
+  const session = await auth()
+  if (!session?.user) return null
+
+  const db = await getDb()
+  return db.query.endpoints.findFirst({
+    where: and(
+      eq(endpoints.id, endpointId),
+      eq(endpoints.userId, session.user.id!)
+    ),
+  })
+}
+
+// 查询等待合并为摘要消息的请求数
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ endpointId: string }> }
+) {
+  try {
+    const { endpointId } = await params
+    const endpoint = await findEndpoint(endpointId)
+    if (!endpoint) {
+      return new NextResponse("Not found", { status: 404 })
+    }
+
+    return NextResponse.json(await getDigestSummary(endpoint.id))
+  } catch (error) {
+    console.error("[ENDPOINT_DIGEST_GET]", error)
+    return new NextResponse("Internal Error", { status: 500 })
+  }
+}
+
+// 不等合并窗口结束，立即推送摘要消息
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ endpointId: string }> }
+) {
+  try {
+    const { endpointId } = await params
+    const endpoint = await findEndpoint(endpointId)
+    if (!endpoint) {
+      return new NextResponse("Not found", { status: 404 })
+    }
+
+    const { count } = await getDigestSummary(endpoint.id)
+    if (count === 0) {
+      return NextResponse.json({ message: "没有等待合并的消息" }, { status: 400 })
+    }
+
+    const messageId = await scheduleDigest(endpoint)
+
+    return NextResponse.json({ messageId, count }, { status: 202 })
+  } catch (error) {
+    console.error("[ENDPOINT_DIGEST_POST]", error)
+    return new NextResponse("Internal Error", { status: 500 })
+  }
+}
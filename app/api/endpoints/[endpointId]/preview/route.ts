@@ -0,0 +1,58 @@
+import { auth } from "@/lib/auth"
+import { getDb } from "@/lib/db"
+import { endpoints } from "@/lib/db/schema/endpoints"
+import { getChannelVariables, getEndpointVariables, previewEndpointMessage } from "@/lib/delivery"
+import { getPreviewRequestContext } from "@/lib/push-request"
+import { getMaskedValues, loadTemplateVariables, toTemplateData } from "@/lib/variables"
+import { and, eq } from "drizzle-orm"
+import { NextResponse } from "next/server"
+
+export const runtime = "edge"
+
+// 使用已保存的接口配置预览消息，不会调用推送渠道
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ endpointId: string }> }
+) {
+  try {
+    const db = await getDb()
+    const session = await auth()
+    if (!session?.user) {
+      return new NextResponse("Unauthorized", { status: 401 })
+    }
+
+    const { endpointId } = await params
+
+    const endpoint = await db.query.endpoints.findFirst({
+      where: and(
+        eq(endpoints.id, endpointId),
+        eq(endpoints.userId, session.user.id!)
+      ),
+      with: {
+        channel: true,
+      },
+    })
+
+    if (!endpoint) {
+      return new NextResponse("Not found", { status: 404 })
+    }
+
+    const { body } = await req.json() as { body?: unknown }
+
+    // 机密变量在预览中显示为掩码
+    const values = getMaskedValues(await loadTemplateVariables(endpoint.userId))
+
+    return NextResponse.json(
+      previewEndpointMessage(endpoint, endpoint.channel?.type ?? "", {
+        ...getPreviewRequestContext(req, endpoint.rule, body),
+        body,
+        endpoint: getEndpointVariables(endpoint),
+        channel: endpoint.channel ? getChannelVariables(endpoint.channel) : undefined,
+        ...toTemplateData(values),
+      })
+    )
+  } catch (error) {
+    console.error("[ENDPOINT_PREVIEW]", error)
+    return new NextResponse("Internal Error", { status: 500 })
+  }
+}
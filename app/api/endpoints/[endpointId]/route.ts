@@ -1,6 +1,13 @@
 import { auth } from "@/lib/auth"
 import { getDb } from "@/lib/db"
-import { endpoints, NewEndpoint } from "@/lib/db/schema/endpoints"
+import {
+  ENDPOINT_CHANNEL_KIND,
+  endpoints,
+  insertEndpointSchema,
+} from "@/lib/db/schema/endpoints"
+import { assertEndpointChannels, EndpointChannelError, replaceEndpointChannels } from "@/lib/endpoint-channels"
+import { serializeRoutes } from "@/lib/routing"
+import { serializeFilters } from "@/lib/push-filters"
 import { and, eq } from "drizzle-orm"
 import { NextResponse } from "next/server"
 import { z } from "zod"
@@ -18,7 +25,11 @@ export async function PATCH(
       return new NextResponse("Unauthorized", { status: 401 })
     }
 
-    const json = await req.json()
+    // 与创建接口相同的校验，只更新请求中提供的字段，不允许修改 id 和所属用户
+    const { extraChannels, fallbackChannels, escalationSteps, routes, filters, ...json } = insertEndpointSchema
+      .omit({ id: true, userId: true, createdAt: true })
+      .partial()
+      .parse(await req.json())
     const { endpointId } = await params
 
     const endpoint = await db.query.endpoints.findFirst({
@@ -32,14 +43,51 @@ export async function PATCH(
       return new NextResponse("Not found", { status: 404 })
     }
 
+    await assertEndpointChannels(session.user.id!, {
+      channelId: json.channelId,
+      extraChannels,
+      fallbackChannels,
+      escalationSteps,
+      routes,
+    })
+
+    if (extraChannels) {
+      await replaceEndpointChannels(
+        endpointId,
+        session.user.id!,
+        ENDPOINT_CHANNEL_KIND.PARALLEL,
+        extraChannels
+      )
+    }
+    if (fallbackChannels) {
+      await replaceEndpointChannels(
+        endpointId,
+        session.user.id!,
+        ENDPOINT_CHANNEL_KIND.FALLBACK,
+        fallbackChannels
+      )
+    }
+    if (escalationSteps) {
+      await replaceEndpointChannels(
+        endpointId,
+        session.user.id!,
+        ENDPOINT_CHANNEL_KIND.ESCALATION,
+        escalationSteps
+      )
+    }
+
+    const serializedRoutes = routes ? serializeRoutes(routes) : undefined
+
+    const serializedFilters = filters ? serializeFilters(filters) : undefined
+
     const updated = await db.update(endpoints)
-      .set(json as NewEndpoint)
+      .set({ ...json, routes: serializedRoutes, filters: serializedFilters })
       .where(eq(endpoints.id, endpointId))
       .returning()
 
     return NextResponse.json(updated[0])
   } catch (error) {
-    if (error instanceof z.ZodError) {
+    if (error instanceof z.ZodError || error instanceof EndpointChannelError) {
       return new NextResponse(error.message, { status: 400 })
     }
     console.error("[ENDPOINT_PATCH]", error)
@@ -0,0 +1,58 @@
+import { auth } from "@/lib/auth"
+import { getDb } from "@/lib/db"
+import { endpoints } from "@/lib/db/schema/endpoints"
+import { generateAccessToken } from "@/lib/push-auth"
+import { and, eq } from "drizzle-orm"
+import { NextResponse } from "next/server"
+
+export const runtime = "edge"
+
+async function setAccessToken(endpointId: string, accessToken: string | null) {
+  const db = await getDb()
+  const session = await auth()
+  if (!session?.user) {
+    return new NextResponse("Unauthorized", { status: 401 })
+  }
+
+  const updated = await db.update(endpoints)
+    .set({ accessToken })
+    .where(and(
+      eq(endpoints.id, endpointId),
+      eq(endpoints.userId, session.user.id!)
+    ))
+    .returning()
+
+  if (updated.length === 0) {
+    return new NextResponse("Not found", { status: 404 })
+  }
+
+  return NextResponse.json(updated[0])
+}
+
+// 生成或轮换访问令牌，旧令牌立即失效
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ endpointId: string }> }
+) {
+  try {
+    const { endpointId } = await params
+    return await setAccessToken(endpointId, generateAccessToken())
+  } catch (error) {
+    console.error("[ENDPOINT_TOKEN_POST]", error)
+    return new NextResponse("Internal Error", { status: 500 })
+  }
+}
+
+// 撤销访问令牌，接口恢复为无需认证
+export async function DELETE(
+  req: Request,
+  { params }: { params: Promise<{ endpointId: string }> }
+) {
+  try {
+    const { endpointId } = await params
+    return await setAccessToken(endpointId, null)
+  } catch (error) {
+    console.error("[ENDPOINT_TOKEN_DELETE]", error)
+    return new NextResponse("Internal Error", { status: 500 })
+  }
+}
@@ -0,0 +1,60 @@
+import { auth } from "@/lib/auth"
+import { getDb } from "@/lib/db"
+import { channels } from "@/lib/db/schema/channels"
+import { getChannelVariables, previewEndpointMessage } from "@/lib/delivery"
+import { getPreviewRequestContext } from "@/lib/push-request"
+import { getMaskedValues, loadTemplateVariables, toTemplateData } from "@/lib/variables"
+import { and, eq } from "drizzle-orm"
+import { NextResponse } from "next/server"
+import { z } from "zod"
+
+export const runtime = "edge"
+
+const previewSchema = z.object({
+  rule: z.string().min(1, "消息模版不能为空"),
+  channelId: z.string().optional(),
+  autoEscape: z.boolean().optional(),
+  body: z.unknown().optional(),
+})
+
+// 预览尚未保存的消息模版，供编辑接口时实时预览
+export async function POST(req: Request) {
+  try {
+    const db = await getDb()
+    const session = await auth()
+    if (!session?.user) {
+      return new NextResponse("Unauthorized", { status: 401 })
+    }
+
+    const { rule, channelId, autoEscape, body } = previewSchema.parse(await req.json())
+
+    const channel = channelId
+      ? await db.query.channels.findFirst({
+        where: and(
+          eq(channels.id, channelId),
+          eq(channels.userId, session.user.id!)
+        ),
+      })
+      : undefined
+
+    // 机密变量在预览中显示为掩码
+    const values = getMaskedValues(await loadTemplateVariables(session.user.id!))
+
+    return NextResponse.json(
+      previewEndpointMessage({ rule, autoEscape: autoEscape ?? false }, channel?.type ?? "", {
+        ...getPreviewRequestContext(req, rule, body),
+        body,
+        // 接口尚未保存，使用占位的接口信息
+        endpoint: { id: "preview", name: "示例接口" },
+        channel: channel ? getChannelVariables(channel) : undefined,
+        ...toTemplateData(values),
+      })
+    )
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return new NextResponse(error.message, { status: 400 })
+    }
+    console.error("[ENDPOINTS_PREVIEW]", error)
+    return new NextResponse("Internal Error", { status: 500 })
+  }
+}
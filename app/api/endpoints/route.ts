@@ -1,8 +1,17 @@
 import { auth } from "@/lib/auth"
 import { getDb } from "@/lib/db"
-import { endpoints, insertEndpointSchema, NewEndpoint } from "@/lib/db/schema/endpoints"
+import {
+  ENDPOINT_CHANNEL_KIND,
+  endpointChannels,
+  endpoints,
+  insertEndpointSchema,
+  NewEndpoint,
+} from "@/lib/db/schema/endpoints"
+import { assertEndpointChannels, EndpointChannelError, replaceEndpointChannels } from "@/lib/endpoint-channels"
+import { serializeRoutes } from "@/lib/routing"
+import { serializeFilters } from "@/lib/push-filters"
 import { generateId } from "@/lib/utils"
-import { eq } from "drizzle-orm"
+import { asc, eq } from "drizzle-orm"
 import { NextResponse } from "next/server"
 import { z } from "zod"
 
@@ -19,6 +28,11 @@ export async function GET() {
     const endpointList = await db.query.endpoints.findMany({
       where: eq(endpoints.userId, session.user.id!),
       orderBy: (endpoints, { desc }) => [desc(endpoints.createdAt)],
+      with: {
+        endpointChannels: {
+          orderBy: [asc(endpointChannels.sortOrder)],
+        },
+      },
     })
 
     return NextResponse.json(endpointList)
@@ -37,17 +51,39 @@ export async function POST(req: Request) {
     }
 
     const json = await req.json() as NewEndpoint
-    const body = insertEndpointSchema.parse({
+    const { extraChannels, fallbackChannels, escalationSteps, routes, filters, ...body } = insertEndpointSchema.parse({
       ...json,
       id: generateId(),
       userId: session.user.id!,
     })
 
-    const endpoint = await db.insert(endpoints).values(body as any).returning()
+    await assertEndpointChannels(session.user.id!, {
+      channelId: body.channelId,
+      extraChannels,
+      fallbackChannels,
+      escalationSteps,
+      routes,
+    })
+
+    const endpoint = await db.insert(endpoints).values({
+      ...body,
+      routes: serializeRoutes(routes),
+      filters: serializeFilters(filters),
+    } as any).returning()
+
+    if (extraChannels) {
+      await replaceEndpointChannels(endpoint[0].id, session.user.id!, ENDPOINT_CHANNEL_KIND.PARALLEL, extraChannels)
+    }
+    if (fallbackChannels) {
+      await replaceEndpointChannels(endpoint[0].id, session.user.id!, ENDPOINT_CHANNEL_KIND.FALLBACK, fallbackChannels)
+    }
+    if (escalationSteps) {
+      await replaceEndpointChannels(endpoint[0].id, session.user.id!, ENDPOINT_CHANNEL_KIND.ESCALATION, escalationSteps)
+    }
 
     return NextResponse.json(endpoint[0])
   } catch (error) {
-    if (error instanceof z.ZodError) {
+    if (error instanceof z.ZodError || error instanceof EndpointChannelError) {
       return new NextResponse(error.message, { status: 400 })
     }
     console.error("[ENDPOINTS_POST]", error)
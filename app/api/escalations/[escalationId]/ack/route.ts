@@ -0,0 +1,33 @@
+import { auth } from "@/lib/auth"
+import { acknowledgeEscalation } from "@/lib/escalation"
+import { NextResponse } from "next/server"
+
+export const runtime = "edge"
+
+// 在控制台中确认告警，与确认链接的效果相同
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ escalationId: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user) {
+      return new NextResponse("Unauthorized", { status: 401 })
+    }
+
+    const { escalationId } = await params
+    const escalation = await acknowledgeEscalation(
+      escalationId,
+      session.user.name || session.user.email || "控制台",
+      session.user.id!
+    )
+    if (!escalation) {
+      return new NextResponse("Not found", { status: 404 })
+    }
+
+    return NextResponse.json(escalation)
+  } catch (error) {
+    console.error("[ESCALATION_ACK]", error)
+    return new NextResponse("Internal Error", { status: 500 })
+  }
+}
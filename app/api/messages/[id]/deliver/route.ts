@@ -0,0 +1,31 @@
+import { isQueueRequest, processPushJob, PushJob } from "@/lib/queue"
+import { NextResponse } from "next/server"
+
+export const runtime = "edge"
+
+/**
+ * 供 queue-consumer Worker 回调，投递一条队列中的消息
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    if (!isQueueRequest(req)) {
+      return new NextResponse("Unauthorized", { status: 401 })
+    }
+
+    const job = await req.json() as PushJob
+    if (job.messageId !== id || !job.endpointId) {
+      return new NextResponse("Invalid Job", { status: 400 })
+    }
+
+    await processPushJob(job)
+
+    return NextResponse.json({ messageId: id })
+  } catch (error) {
+    console.error("[MESSAGE_DELIVER]", error)
+    return new NextResponse("Internal Error", { status: 500 })
+  }
+}
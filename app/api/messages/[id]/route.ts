@@ -0,0 +1,57 @@
+import { getDb } from "@/lib/db"
+import { pushLogs, PushLog } from "@/lib/db/schema/push-logs"
+import { eq } from "drizzle-orm"
+import { NextResponse } from "next/server"
+
+export const runtime = "edge"
+
+function toMessageStatus(log: PushLog) {
+  const attempts = log.attempts ? JSON.parse(log.attempts) as unknown[] : []
+  return {
+    id: log.id,
+    status: log.status,
+    endpointId: log.endpointId,
+    channelId: log.channelId,
+    createdAt: log.createdAt,
+    latency: log.latency,
+    error: log.error,
+    attempts: attempts.length,
+  }
+}
+
+// 消息 ID 为随机生成，持有 ID 即可查询投递状态，不返回请求体和消息内容
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const db = await getDb()
+
+    const log = await db.query.pushLogs.findFirst({
+      where: eq(pushLogs.id, id),
+    })
+    if (!log) {
+      return NextResponse.json({ error: "消息不存在" }, { status: 404 })
+    }
+
+    // 接口组的父记录下是各个接口，多渠道接口的记录下是各个渠道
+    const children = await db.query.pushLogs.findMany({
+      where: eq(pushLogs.parentId, log.id),
+    })
+    const isGroupParent = Boolean(log.groupId && !log.parentId)
+
+    if (!isGroupParent && children.length === 0) {
+      return NextResponse.json(toMessageStatus(log))
+    }
+
+    return NextResponse.json({
+      ...toMessageStatus(log),
+      ...(isGroupParent ? { groupId: log.groupId } : {}),
+      children: children.map(toMessageStatus),
+    })
+  } catch (error) {
+    console.error("[MESSAGE_GET]", error)
+    return new NextResponse("Internal Error", { status: 500 })
+  }
+}
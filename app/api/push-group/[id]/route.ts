@@ -2,18 +2,37 @@ import { NextResponse } from 'next/server'
 import { getDb } from '@/lib/db'
 import { fetchWithTimeout } from '@/lib/utils'
 import { endpointGroups, endpointToGroup } from '@/lib/db/schema/endpoint-groups'
+import { PUSH_LOG_STATUS } from '@/lib/db/schema/push-logs'
+import { createPushLog, updatePushLog, PARENT_LOG_HEADER, toLogText } from '@/lib/push-logs'
+import { parsePushBody, PushBodyError } from '@/lib/push-request'
+import { verifyPushRequest } from '@/lib/push-auth'
 import { eq } from 'drizzle-orm'
 
 export const runtime = 'edge'
 
+// 转发到单个接口时不复制的请求头，其余请求头原样转发，供接口模版中的 headers 使用
+const SKIPPED_FORWARD_HEADERS = ['host', 'content-length', 'content-type', 'authorization', 'cookie', 'connection']
+
 export async function POST(
   request: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
   const { id } = await params
-  const body = await request.json()
 
   try {
+    // 与单个接口相同，支持 JSON、表单、multipart、纯文本和 GET 查询参数
+    // 转发时保留原始的请求方法、Content-Type 和请求体，各接口的 method、rawBody 与直接调用时一致
+    let body: unknown
+    const bytes = await request.arrayBuffer()
+    try {
+      body = await parsePushBody(request, bytes)
+    } catch (error) {
+      if (error instanceof PushBodyError) {
+        return NextResponse.json({ error: error.message }, { status: 400 })
+      }
+      throw error
+    }
+
     const db = await getDb()
 
     const group = await db.query.endpointGroups.findFirst({
@@ -50,28 +69,80 @@ export async function POST(
       )
     }
 
+    // 设置了访问令牌的接口要求调用方携带该接口的令牌或签名，校验通过后才由接口组代为转发
+    // 多个接口使用同一令牌时只校验一次，避免签名被当作重放请求
+    const rawBody = new TextDecoder().decode(bytes)
+    const verified = new Map<string, Promise<string | null>>()
+    const authErrors: (string | null)[] = await Promise.all(groupEndpoints.map((endpoint: any) => {
+      if (!endpoint.accessToken) return null
+      if (!verified.has(endpoint.accessToken)) {
+        verified.set(endpoint.accessToken, verifyPushRequest(request, rawBody, endpoint.accessToken))
+      }
+      return verified.get(endpoint.accessToken)!
+    }))
+
+    if (authErrors.every(Boolean)) {
+      return NextResponse.json(
+        { error: authErrors[0] },
+        { status: 401 }
+      )
+    }
+
+    // ?async=1 时各接口只负责入队，接口组立即返回 202
+    const searchParams = new URL(request.url).searchParams
+    const asyncParam = searchParams.get('async')
+    const isAsync = asyncParam === '1' || asyncParam === 'true'
+    const contentType = request.headers.get('content-type')
+    const hasBody = request.method !== 'GET' && request.method !== 'HEAD'
+    const forwardHeaders = Object.fromEntries(
+      Array.from(request.headers).filter(([key]) => !SKIPPED_FORWARD_HEADERS.includes(key.toLowerCase()))
+    )
+
+    const startedAt = Date.now()
+    const parentLogId = await createPushLog({
+      userId: group.userId,
+      groupId: group.id,
+      status: PUSH_LOG_STATUS.PENDING,
+      requestBody: toLogText(body),
+    })
+
     const results = await Promise.allSettled(
-      groupEndpoints.map(async (endpoint: any) => {
-        const origin = new URL(request.url).origin
-        const url = `${origin}/api/push/${endpoint.id}`
+      groupEndpoints.map(async (endpoint: any, i: number) => {
+        if (authErrors[i]) {
+          throw new Error(`接口 ${endpoint.name} 鉴权失败: ${authErrors[i]}`)
+        }
 
-        const response = await fetchWithTimeout(url, {
-          method: 'POST',
+        // 查询参数原样转发，接口模版中可以通过 query 访问
+        const url = new URL(`/api/push/${endpoint.id}`, request.url)
+        searchParams.forEach((value, key) => {
+          if (key !== 'token') url.searchParams.append(key, value)
+        })
+
+        const response = await fetchWithTimeout(url.toString(), {
+          method: request.method,
           headers: {
-            'Content-Type': 'application/json',
+            ...forwardHeaders,
+            ...(contentType ? { 'Content-Type': contentType } : {}),
+            [PARENT_LOG_HEADER]: parentLogId,
+            // 调用方已通过该接口的令牌校验，由接口组代为携带
+            ...(endpoint.accessToken ? { 'Authorization': `Bearer ${endpoint.accessToken}` } : {}),
           },
-          body: JSON.stringify(body),
+          // 每个接口使用单独的副本，避免请求体被第一次转发占用
+          body: hasBody ? bytes.slice(0) : undefined,
           timeout: 10000 // 10秒超时
         })
 
-        if (!response.ok) {
+        // 207 表示多渠道接口中有渠道推送失败，与接口日志的失败状态保持一致
+        if (!response.ok || response.status === 207) {
           const errorText = await response.text()
           throw new Error(`接口 ${endpoint.name} 返回错误: ${errorText}`)
         }
 
+        const data = await response.json() as { messageId?: string }
         return {
           endpointId: endpoint.id,
           name: endpoint.name,
+          messageId: data.messageId,
           success: true
         }
       })
@@ -80,18 +151,31 @@ export async function POST(
     const successCount = results.filter((r: any) => r.status === 'fulfilled').length
     const failedCount = results.filter((r: any) => r.status === 'rejected').length
 
+    // 异步模式下父记录的状态在子消息投递完成后汇总
+    if (isAsync && failedCount === 0) {
+      await updatePushLog(parentLogId, { latency: Date.now() - startedAt })
+    } else {
+      await updatePushLog(parentLogId, {
+        status: failedCount === 0 ? PUSH_LOG_STATUS.SUCCESS : PUSH_LOG_STATUS.FAILED,
+        latency: Date.now() - startedAt,
+        error: failedCount > 0 ? `${failedCount}/${groupEndpoints.length} 个接口推送失败` : null,
+      })
+    }
+
     return NextResponse.json({
       status: 'success',
-      message: `接口组 ${group.name} 处理完成`,
+      message: isAsync ? `接口组 ${group.name} 已加入推送队列` : `接口组 ${group.name} 处理完成`,
+      messageId: parentLogId,
       total: groupEndpoints.length,
       successCount: successCount,
       failedCount: failedCount,
       details: results.map((r: any, i: number) => ({
         endpoint: groupEndpoints[i].name,
-        status: r.status === 'fulfilled' ? 'success' : 'failed',
+        status: r.status === 'fulfilled' ? (isAsync ? 'queued' : 'success') : 'failed',
+        messageId: r.status === 'fulfilled' ? r.value.messageId : undefined,
         error: r.status === 'rejected' ? r.reason.message : undefined
       }))
-    })
+    }, { status: isAsync ? 202 : 200 })
 
   } catch (error) {
     console.error('接口组处理错误:', error)
@@ -100,4 +184,12 @@ export async function POST(
       { status: 500 }
     )
   }
-} 
\ No newline at end of file
+} 
+
+// 只能发送 GET 请求的设备使用查询参数推送
+export async function GET(
+  request: Request,
+  context: { params: Promise<{ id: string }> }
+) {
+  return POST(request, context)
+}
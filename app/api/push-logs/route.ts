@@ -0,0 +1,92 @@
+import { auth } from "@/lib/auth"
+import { getDb } from "@/lib/db"
+import { pushLogs, PushLog, PUSH_LOG_STATUS } from "@/lib/db/schema/push-logs"
+import { and, desc, eq, gte, inArray, isNull, lte, SQL } from "drizzle-orm"
+import { NextResponse } from "next/server"
+import { z } from "zod"
+
+export const runtime = "edge"
+
+const querySchema = z.object({
+  endpointId: z.string().optional(),
+  channelId: z.string().optional(),
+  groupId: z.string().optional(),
+  status: z.nativeEnum(PUSH_LOG_STATUS).optional(),
+  from: z.string().optional(),
+  to: z.string().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+})
+
+type PushLogWithChildren = PushLog & { children: PushLogWithChildren[] }
+
+async function findChildLogs(parentIds: string[]) {
+  if (parentIds.length === 0) return []
+  const db = await getDb()
+  return db.query.pushLogs.findMany({
+    where: inArray(pushLogs.parentId, parentIds),
+    orderBy: [desc(pushLogs.createdAt)],
+  })
+}
+
+function withChildren(log: PushLog, descendants: PushLog[]): PushLogWithChildren {
+  return {
+    ...log,
+    children: descendants
+      .filter(child => child.parentId === log.id)
+      .map(child => withChildren(child, descendants)),
+  }
+}
+
+export async function GET(req: Request) {
+  try {
+    const db = await getDb()
+    const session = await auth()
+    if (!session?.user) {
+      return new NextResponse("Unauthorized", { status: 401 })
+    }
+
+    const searchParams = Object.fromEntries(new URL(req.url).searchParams)
+    const query = querySchema.parse(searchParams)
+
+    const conditions: SQL[] = [eq(pushLogs.userId, session.user.id!)]
+    if (query.endpointId) conditions.push(eq(pushLogs.endpointId, query.endpointId))
+    if (query.channelId) conditions.push(eq(pushLogs.channelId, query.channelId))
+    if (query.groupId) conditions.push(eq(pushLogs.groupId, query.groupId))
+    if (query.status) conditions.push(eq(pushLogs.status, query.status))
+    if (query.from) conditions.push(gte(pushLogs.createdAt, query.from))
+    if (query.to) conditions.push(lte(pushLogs.createdAt, query.to))
+
+    // 未按接口或渠道筛选时，子记录挂在父记录下展示
+    const nested = !query.endpointId && !query.channelId
+    if (nested) conditions.push(isNull(pushLogs.parentId))
+
+    const logs = await db.query.pushLogs.findMany({
+      where: and(...conditions),
+      orderBy: [desc(pushLogs.createdAt)],
+      limit: query.pageSize + 1,
+      offset: (query.page - 1) * query.pageSize,
+    })
+
+    const hasMore = logs.length > query.pageSize
+    const items = logs.slice(0, query.pageSize)
+
+    // 接口组记录下挂各个接口，多渠道接口的记录下挂各个渠道，接口组中的多渠道接口会有两层
+    const children = nested ? await findChildLogs(items.map(log => log.id)) : []
+    const grandchildren = await findChildLogs(
+      children.filter(child => child.groupId).map(child => child.id)
+    )
+    const descendants = [...children, ...grandchildren]
+
+    return NextResponse.json({
+      items: items.map(log => withChildren(log, descendants)),
+      hasMore,
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return new NextResponse(error.message, { status: 400 })
+    }
+    console.error("[PUSH_LOGS_GET]", error)
+    return new NextResponse("Internal Error", { status: 500 })
+  }
+}
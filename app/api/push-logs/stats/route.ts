@@ -0,0 +1,64 @@
+import { auth } from "@/lib/auth"
+import { getDb } from "@/lib/db"
+import { pushLogs, PushLogStatus, PUSH_LOG_STATUS } from "@/lib/db/schema/push-logs"
+import { and, count, eq, gte, isNotNull, isNull, lte, or, SQL } from "drizzle-orm"
+import { NextResponse } from "next/server"
+import { z } from "zod"
+
+export const runtime = "edge"
+
+const querySchema = z.object({
+  endpointId: z.string().optional(),
+  channelId: z.string().optional(),
+  from: z.string().optional(),
+  to: z.string().optional(),
+})
+
+// 按状态统计每个接口收到的推送请求数，包括被过滤规则跳过的请求
+export async function GET(req: Request) {
+  try {
+    const db = await getDb()
+    const session = await auth()
+    if (!session?.user) {
+      return new NextResponse("Unauthorized", { status: 401 })
+    }
+
+    const searchParams = Object.fromEntries(new URL(req.url).searchParams)
+    const query = querySchema.parse(searchParams)
+
+    const conditions: SQL[] = [
+      eq(pushLogs.userId, session.user.id!),
+      isNotNull(pushLogs.endpointId),
+      // 多渠道接口下各渠道的子记录 (有 parentId 但不属于接口组) 不重复计数
+      or(isNull(pushLogs.parentId), isNotNull(pushLogs.groupId))!,
+    ]
+    if (query.endpointId) conditions.push(eq(pushLogs.endpointId, query.endpointId))
+    if (query.channelId) conditions.push(eq(pushLogs.channelId, query.channelId))
+    if (query.from) conditions.push(gte(pushLogs.createdAt, query.from))
+    if (query.to) conditions.push(lte(pushLogs.createdAt, query.to))
+
+    const rows = await db
+      .select({ status: pushLogs.status, count: count() })
+      .from(pushLogs)
+      .where(and(...conditions))
+      .groupBy(pushLogs.status)
+
+    const stats = Object.fromEntries(
+      Object.values(PUSH_LOG_STATUS).map(status => [status, 0])
+    ) as Record<PushLogStatus, number>
+    rows.forEach(row => {
+      stats[row.status as PushLogStatus] = row.count
+    })
+
+    return NextResponse.json({
+      ...stats,
+      total: rows.reduce((sum, row) => sum + row.count, 0),
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return new NextResponse(error.message, { status: 400 })
+    }
+    console.error("[PUSH_LOGS_STATS_GET]", error)
+    return new NextResponse("Internal Error", { status: 500 })
+  }
+}
@@ -1,12 +1,43 @@
 import { NextRequest } from "next/server"
 import { getDb } from "@/lib/db"
 import { endpoints } from "@/lib/db/schema/endpoints"
-import { eq } from "drizzle-orm"
-import { safeInterpolate } from "@/lib/template"
-import { sendChannelMessage } from "@/lib/channels"
+import { pushLogs, PUSH_LOG_STATUS } from "@/lib/db/schema/push-logs"
+import { and, eq } from "drizzle-orm"
+import { deliverToEndpoint, getEndpointVariables } from "@/lib/delivery"
+import { QUIET_HOURS_ACTIONS } from "@/lib/quiet-hours"
+import { getPushQueue } from "@/lib/queue"
+import { verifyPushRequest } from "@/lib/push-auth"
+import { findMatchingFilter, getFilterReason, parseFilters } from "@/lib/push-filters"
+import { addDigestItem, checkThrottle } from "@/lib/throttle"
+import { getDigestSummary, scheduleDigest } from "@/lib/digest"
+import { resolveSendAt, scheduleOnce, ScheduleParamError } from "@/lib/schedules"
+import { startEscalation } from "@/lib/escalation"
+import { createPushLog, PARENT_LOG_HEADER, toLogText, updatePushLog } from "@/lib/push-logs"
+import { getPushRequestContext, getQueryBody, parsePushBody, PushBodyError } from "@/lib/push-request"
+import { formatBodyErrors, parseBodySchema, validateBody } from "@/lib/body-schema"
+import { loadTemplateVariables, toTemplateData } from "@/lib/variables"
 
 export const runtime = "edge"
 
+// ?async=1 强制异步，?async=0 强制同步，未指定时使用接口配置
+function isAsyncRequest(request: NextRequest, deliveryMode: string) {
+  const asyncParam = request.nextUrl.searchParams.get("async")
+  if (asyncParam === null) return deliveryMode === "async"
+  return asyncParam === "1" || asyncParam === "true"
+}
+
+// 不推送的请求记录为已跳过并返回 200，避免调用方重试
+async function skipPush(messageId: string, reason: string) {
+  await updatePushLog(messageId, {
+    status: PUSH_LOG_STATUS.SKIPPED,
+    error: reason,
+  })
+  return new Response(
+    JSON.stringify({ message: "已跳过", messageId, skipped: true, reason }),
+    { status: 200 }
+  )
+}
+
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -19,6 +50,9 @@ export async function POST(
       where: eq(endpoints.id, id),
       with: {
         channel: true,
+        endpointChannels: {
+          with: { channel: true },
+        },
       },
     })
 
@@ -30,30 +64,239 @@ export async function POST(
       return new Response("接口已禁用", { status: 403 })
     }
 
-    const body = await request.json()
-    console.log('body:', body)
+    const bytes = await request.arrayBuffer()
+    const rawBody = new TextDecoder().decode(bytes)
 
-    const processedTemplate = safeInterpolate(endpoint.rule, {
-      body,
+    if (endpoint.accessToken) {
+      const authError = await verifyPushRequest(request, rawBody, endpoint.accessToken)
+      if (authError) {
+        return new Response(JSON.stringify({ message: authError }), { status: 401 })
+      }
+    }
+
+    // ?sendAt= 或 ?delay= 指定推送时间，参数错误时不写入推送日志
+    let sendAt: number | null
+    try {
+      sendAt = resolveSendAt(request.nextUrl.searchParams)
+    } catch (error) {
+      if (error instanceof ScheduleParamError) {
+        return new Response(JSON.stringify({ message: error.message }), { status: 400 })
+      }
+      throw error
+    }
+
+    // 只接受同一用户下接口组的父日志，避免外部请求伪造关联
+    const parentLogId = request.headers.get(PARENT_LOG_HEADER)
+    const parentLog = parentLogId
+      ? await db.query.pushLogs.findFirst({
+        where: and(eq(pushLogs.id, parentLogId), eq(pushLogs.userId, endpoint.userId)),
+      })
+      : undefined
+
+    const messageId = await createPushLog({
+      userId: endpoint.userId,
+      endpointId: endpoint.id,
+      channelId: endpoint.channel.id,
+      parentId: parentLog?.id ?? null,
+      groupId: parentLog?.groupId ?? null,
+      status: PUSH_LOG_STATUS.PENDING,
+      requestBody: toLogText(request.method === "GET"
+        ? JSON.stringify(getQueryBody(request.nextUrl.searchParams))
+        : rawBody),
     })
 
-    const messageObj = JSON.parse(processedTemplate)
-
-    await sendChannelMessage(
-      endpoint.channel.type as any,
-      messageObj,
-      {
-        webhook: endpoint.channel.webhook,
-        secret: endpoint.channel.secret,
-        corpId: endpoint.channel.corpId,
-        agentId: endpoint.channel.agentId,
-        botToken: endpoint.channel.botToken,
-        chatId: endpoint.channel.chatId,
-        socks5Proxy: endpoint.channel.socks5Proxy,
+    // 支持 JSON、表单、multipart、纯文本和 GET 查询参数，模版中还可以使用 query、headers 和 rawBody
+    let body: unknown
+    try {
+      body = await parsePushBody(request, bytes)
+    } catch (error) {
+      if (!(error instanceof PushBodyError)) throw error
+      await updatePushLog(messageId, {
+        status: PUSH_LOG_STATUS.FAILED,
+        error: error.message,
+      })
+      return new Response(
+        JSON.stringify({ message: error.message, messageId }),
+        { status: 400 }
+      )
+    }
+
+    // 配置了请求体格式时先校验，不符合时返回 422 和字段错误，不再渲染模版
+    const bodySchema = parseBodySchema(endpoint.bodySchema)
+    const bodyErrors = bodySchema ? validateBody(bodySchema, body) : []
+    if (bodyErrors.length > 0) {
+      const message = "请求体不符合接口要求的格式"
+      await updatePushLog(messageId, {
+        status: PUSH_LOG_STATUS.FAILED,
+        error: toLogText(`${message}: ${formatBodyErrors(bodyErrors)}`),
+      })
+      return new Response(
+        JSON.stringify({ message, messageId, errors: bodyErrors }),
+        { status: 422 }
+      )
+    }
+
+    const requestContext = getPushRequestContext(request, rawBody)
+    // 过滤规则和去重键中同样可以使用自定义变量，变量不写入队列上下文，投递时重新读取
+    const { values } = await loadTemplateVariables(endpoint.userId)
+    const templateData = {
+      ...requestContext,
+      body,
+      endpoint: getEndpointVariables(endpoint),
+      ...toTemplateData(values),
+    }
+
+    // 命中过滤规则时不推送，记录为已跳过，便于统计和调整规则
+    const filter = findMatchingFilter(parseFilters(endpoint.filters), templateData)
+    if (filter) {
+      return skipPush(messageId, getFilterReason(filter))
+    }
+
+    // 定时推送到期时直接投递，不经过去重、限流和摘要合并
+    if (sendAt !== null && sendAt > Date.now()) {
+      try {
+        await scheduleOnce(endpoint, messageId, body, sendAt, { context: { ...requestContext } })
+      } catch (error) {
+        await updatePushLog(messageId, {
+          status: PUSH_LOG_STATUS.FAILED,
+          error: `安排定时推送失败: ${error instanceof Error ? error.message : String(error)}`,
+        })
+        throw error
       }
+      return new Response(
+        JSON.stringify({ message: "已安排定时推送", messageId, sendAt: new Date(sendAt).toISOString() }),
+        { status: 202 }
+      )
+    }
+
+    // 摘要模式下推送频率由合并窗口控制，只做去重不再限流
+    const throttle = await checkThrottle(
+      endpoint.digestWindow ? { ...endpoint, rateLimit: null } : endpoint,
+      templateData
     )
+    if (throttle.action === "skip") {
+      return skipPush(messageId, throttle.reason)
+    }
+
+    // 摘要模式下先保存请求，合并窗口结束或累计数量达到上限时合并为一条摘要消息推送
+    if (endpoint.digestWindow) {
+      const windowSeconds = endpoint.digestWindow * 60
+      const needsFlush = await addDigestItem(endpoint.id, messageId, JSON.stringify(body), windowSeconds)
+      const { count } = endpoint.digestMaxItems
+        ? await getDigestSummary(endpoint.id)
+        : { count: 0 }
+      // 只在数量刚达到上限时安排立即推送，之后的请求等待这次推送或下一个窗口
+      const isFull = !!endpoint.digestMaxItems && count === endpoint.digestMaxItems
+      if (needsFlush || isFull) {
+        await scheduleDigest(endpoint, isFull ? 0 : windowSeconds)
+      }
+      await updatePushLog(messageId, {
+        status: PUSH_LOG_STATUS.SKIPPED,
+        error: "已合并到摘要消息",
+      })
+      return new Response(
+        JSON.stringify({ message: "已加入摘要，将合并为一条消息推送", messageId, digest: true }),
+        { status: 202 }
+      )
+    }
 
-    return new Response(JSON.stringify({ message: "推送成功" }), { status: 200 })
+    // 超出限流时先保存请求，等到有可用令牌时合并为一条摘要消息推送
+    if (throttle.action === "digest") {
+      const needsFlush = await addDigestItem(endpoint.id, messageId, JSON.stringify(body), throttle.flushAfter)
+      if (needsFlush) {
+        await scheduleDigest(endpoint, throttle.flushAfter)
+      }
+      await updatePushLog(messageId, {
+        status: PUSH_LOG_STATUS.SKIPPED,
+        error: "超出限流，已合并到摘要消息",
+      })
+      return new Response(
+        JSON.stringify({ message: "超出限流，将合并到摘要消息中推送", messageId, digest: true }),
+        { status: 202 }
+      )
+    }
+
+    // 配置了升级步骤时，确认前按步骤继续通知，模版中可以通过 ${ackUrl} 插入确认链接
+    // 升级安排失败时不影响本次推送
+    let escalation: Awaited<ReturnType<typeof startEscalation>> = null
+    try {
+      escalation = await startEscalation(endpoint, messageId, body, request.nextUrl.origin, { ...requestContext })
+    } catch (error) {
+      console.error("[ESCALATION_START]", error)
+    }
+    const context = escalation ? { ...requestContext, ackUrl: escalation.ackUrl } : { ...requestContext }
+    const escalationInfo = escalation ? { escalationId: escalation.id, ackUrl: escalation.ackUrl } : {}
+
+    // 排队等待令牌时即使是同步模式也转为异步推送
+    if (throttle.delaySeconds > 0 || isAsyncRequest(request, endpoint.deliveryMode)) {
+      try {
+        await getPushQueue().send(
+          { messageId, endpointId: endpoint.id, body, context },
+          { delaySeconds: throttle.delaySeconds }
+        )
+      } catch (error) {
+        await updatePushLog(messageId, {
+          status: PUSH_LOG_STATUS.FAILED,
+          error: `加入推送队列失败: ${error instanceof Error ? error.message : String(error)}`,
+        })
+        throw error
+      }
+      return new Response(
+        JSON.stringify(throttle.delaySeconds > 0
+          ? { message: `超出限流，将在 ${throttle.delaySeconds} 秒后推送`, messageId, delaySeconds: throttle.delaySeconds, ...escalationInfo }
+          : { message: "已加入推送队列", messageId, ...escalationInfo }),
+        { status: 202 }
+      )
+    }
+
+    const { route, results } = await deliverToEndpoint(endpoint, body, messageId, context)
+    const failed = results.filter(result => !result.success)
+
+    // 只有一个渠道时保持原有的返回格式，匹配路由或由备用渠道送达时附带相应信息
+    if (results.length === 1) {
+      const [result] = results
+      if (!result.success) {
+        return new Response(JSON.stringify({
+          message: result.error ?? "推送失败",
+          messageId,
+          ...(route ? { route } : {}),
+        }), { status: 500 })
+      }
+      if (result.quietHours === QUIET_HOURS_ACTIONS.DROP) {
+        return new Response(
+          JSON.stringify({ message: "已跳过", messageId, skipped: true, reason: "免打扰时段，已丢弃" }),
+          { status: 200 }
+        )
+      }
+      if (result.quietHours === QUIET_HOURS_ACTIONS.HOLD) {
+        return new Response(JSON.stringify({
+          message: "免打扰时段，已暂缓推送",
+          messageId,
+          heldUntil: result.heldUntil,
+        }), { status: 202 })
+      }
+      return new Response(JSON.stringify({
+        message: result.fallback ? `主渠道推送失败，已通过备用渠道 ${result.channelName} 送达` : "推送成功",
+        messageId,
+        ...(route ? { route } : {}),
+        ...(result.fallback ? { channelId: result.channelId, fallback: true } : {}),
+        ...(result.quietHours ? { quietHours: result.quietHours } : {}),
+        ...escalationInfo,
+      }), { status: 200 })
+    }
+
+    // 多渠道时全部成功返回 200，部分成功返回 207，全部失败返回 500
+    const status = failed.length === 0 ? 200 : failed.length < results.length ? 207 : 500
+    const message = failed.length === 0
+      ? "推送成功"
+      : `${failed.length}/${results.length} 个渠道推送失败`
+    return new Response(JSON.stringify({
+      message,
+      messageId,
+      ...(route ? { route } : {}),
+      results,
+      ...escalationInfo,
+    }), { status })
 
   } catch (error) {
     console.error("Push error:", error)
@@ -62,4 +305,12 @@ export async function POST(
       { status: 500 }
     )
   }
-} 
\ No newline at end of file
+}
+
+// 只能发送 GET 请求的设备和旧工具使用查询参数推送，如 /api/push/xxx?title=..&content=..
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  return POST(request, context)
+}
@@ -0,0 +1,117 @@
+import { auth } from "@/lib/auth"
+import { getDb } from "@/lib/db"
+import { endpoints } from "@/lib/db/schema/endpoints"
+import { PUSH_LOG_STATUS } from "@/lib/db/schema/push-logs"
+import { insertScheduleSchema, schedules } from "@/lib/db/schema/schedules"
+import { CronSyntaxError, getNextRunTime } from "@/lib/cron"
+import { updatePushLog } from "@/lib/push-logs"
+import { and, eq } from "drizzle-orm"
+import { NextResponse } from "next/server"
+import { z } from "zod"
+
+export const runtime = "edge"
+
+// 修改周期定时推送，下次执行时间按新的配置从当前时间重新计算
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ scheduleId: string }> }
+) {
+  try {
+    const db = await getDb()
+    const session = await auth()
+    if (!session?.user) {
+      return new NextResponse("Unauthorized", { status: 401 })
+    }
+
+    const json = await req.json()
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { id, userId, nextRunAt, ...body } = insertScheduleSchema.partial().parse(json)
+    const { scheduleId } = await params
+
+    const schedule = await db.query.schedules.findFirst({
+      where: and(
+        eq(schedules.id, scheduleId),
+        eq(schedules.userId, session.user.id!)
+      ),
+    })
+
+    if (!schedule) {
+      return new NextResponse("Not found", { status: 404 })
+    }
+    if (!schedule.cron) {
+      return new NextResponse("一次性定时推送不能修改，只能取消", { status: 400 })
+    }
+
+    if (body.endpointId && body.endpointId !== schedule.endpointId) {
+      const endpoint = await db.query.endpoints.findFirst({
+        where: and(
+          eq(endpoints.id, body.endpointId),
+          eq(endpoints.userId, session.user.id!)
+        ),
+      })
+      if (!endpoint) {
+        return new NextResponse("推送接口不存在", { status: 400 })
+      }
+    }
+
+    const updated = await db.update(schedules)
+      .set({
+        ...body,
+        nextRunAt: getNextRunTime(
+          body.cron ?? schedule.cron,
+          body.timezone ?? schedule.timezone,
+          Date.now()
+        ),
+      })
+      .where(eq(schedules.id, scheduleId))
+      .returning()
+
+    return NextResponse.json(updated[0])
+  } catch (error) {
+    if (error instanceof z.ZodError || error instanceof CronSyntaxError) {
+      return new NextResponse(error.message, { status: 400 })
+    }
+    console.error("[SCHEDULE_PATCH]", error)
+    return new NextResponse("Internal Error", { status: 500 })
+  }
+}
+
+// 删除定时推送，一次性任务对应的推送日志记录为已取消
+export async function DELETE(
+  req: Request,
+  { params }: { params: Promise<{ scheduleId: string }> }
+) {
+  try {
+    const db = await getDb()
+    const session = await auth()
+    if (!session?.user) {
+      return new NextResponse("Unauthorized", { status: 401 })
+    }
+
+    const { scheduleId } = await params
+
+    const deleted = await db.delete(schedules)
+      .where(and(
+        eq(schedules.id, scheduleId),
+        eq(schedules.userId, session.user.id!)
+      ))
+      .returning()
+
+    if (deleted.length === 0) {
+      return new NextResponse("Not found", { status: 404 })
+    }
+
+    const [schedule] = deleted
+    if (!schedule.cron && schedule.messageId) {
+      await updatePushLog(schedule.messageId, {
+        status: PUSH_LOG_STATUS.SKIPPED,
+        error: "定时推送已取消",
+      })
+    }
+
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    console.error("[SCHEDULE_DELETE]", error)
+    return new NextResponse("Internal Error", { status: 500 })
+  }
+}
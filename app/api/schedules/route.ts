@@ -0,0 +1,72 @@
+import { auth } from "@/lib/auth"
+import { getDb } from "@/lib/db"
+import { endpoints } from "@/lib/db/schema/endpoints"
+import { insertScheduleSchema, schedules } from "@/lib/db/schema/schedules"
+import { CronSyntaxError, getNextRunTime } from "@/lib/cron"
+import { generateId } from "@/lib/utils"
+import { and, eq } from "drizzle-orm"
+import { NextResponse } from "next/server"
+import { z } from "zod"
+
+export const runtime = "edge"
+
+export async function GET() {
+  try {
+    const db = await getDb()
+    const session = await auth()
+    if (!session?.user) {
+      return new NextResponse("Unauthorized", { status: 401 })
+    }
+
+    const scheduleList = await db.query.schedules.findMany({
+      where: eq(schedules.userId, session.user.id!),
+      orderBy: (schedules, { asc }) => [asc(schedules.nextRunAt)],
+    })
+
+    return NextResponse.json(scheduleList)
+  } catch (error) {
+    console.error("[SCHEDULES_GET]", error)
+    return new NextResponse("Internal Error", { status: 500 })
+  }
+}
+
+// 创建周期定时推送
+export async function POST(req: Request) {
+  try {
+    const db = await getDb()
+    const session = await auth()
+    if (!session?.user) {
+      return new NextResponse("Unauthorized", { status: 401 })
+    }
+
+    const json = await req.json() as Record<string, unknown>
+    const body = insertScheduleSchema.parse(json)
+
+    const endpoint = await db.query.endpoints.findFirst({
+      where: and(
+        eq(endpoints.id, body.endpointId),
+        eq(endpoints.userId, session.user.id!)
+      ),
+    })
+    if (!endpoint) {
+      return new NextResponse("推送接口不存在", { status: 400 })
+    }
+
+    const schedule = await db.insert(schedules).values({
+      ...body,
+      id: generateId(),
+      userId: session.user.id!,
+      nextRunAt: getNextRunTime(body.cron, body.timezone, Date.now()),
+      messageId: null,
+      lastRunAt: null,
+    }).returning()
+
+    return NextResponse.json(schedule[0])
+  } catch (error) {
+    if (error instanceof z.ZodError || error instanceof CronSyntaxError) {
+      return new NextResponse(error.message, { status: 400 })
+    }
+    console.error("[SCHEDULES_POST]", error)
+    return new NextResponse("Internal Error", { status: 500 })
+  }
+}
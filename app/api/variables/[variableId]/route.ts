@@ -0,0 +1,100 @@
+import { auth } from "@/lib/auth"
+import { getDb } from "@/lib/db"
+import { insertVariableSchema, variables } from "@/lib/db/schema/variables"
+import { toClientVariable } from "@/lib/variables"
+import { and, eq, ne, sql } from "drizzle-orm"
+import { NextResponse } from "next/server"
+import { z } from "zod"
+
+export const runtime = "edge"
+
+// 修改变量，机密变量的值留空时保留原值
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ variableId: string }> }
+) {
+  try {
+    const db = await getDb()
+    const session = await auth()
+    if (!session?.user) {
+      return new NextResponse("Unauthorized", { status: 401 })
+    }
+
+    const json = await req.json()
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { id, userId, createdAt, updatedAt, ...body } = insertVariableSchema.partial().parse(json)
+    const { variableId } = await params
+
+    const variable = await db.query.variables.findFirst({
+      where: and(
+        eq(variables.id, variableId),
+        eq(variables.userId, session.user.id!)
+      ),
+    })
+
+    if (!variable) {
+      return new NextResponse("Not found", { status: 404 })
+    }
+
+    if (body.name && body.name !== variable.name) {
+      const existing = await db.query.variables.findFirst({
+        where: and(
+          eq(variables.userId, session.user.id!),
+          eq(variables.name, body.name),
+          ne(variables.id, variableId)
+        ),
+      })
+      if (existing) {
+        return new NextResponse("变量名已存在", { status: 409 })
+      }
+    }
+
+    if (variable.secret && (body.secret ?? true) && !body.value) {
+      delete body.value
+    }
+
+    const updated = await db.update(variables)
+      .set({ ...body, updatedAt: sql`CURRENT_TIMESTAMP` })
+      .where(eq(variables.id, variableId))
+      .returning()
+
+    return NextResponse.json(toClientVariable(updated[0]))
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return new NextResponse(error.message, { status: 400 })
+    }
+    console.error("[VARIABLE_PATCH]", error)
+    return new NextResponse("Internal Error", { status: 500 })
+  }
+}
+
+export async function DELETE(
+  req: Request,
+  { params }: { params: Promise<{ variableId: string }> }
+) {
+  try {
+    const db = await getDb()
+    const session = await auth()
+    if (!session?.user) {
+      return new NextResponse("Unauthorized", { status: 401 })
+    }
+
+    const { variableId } = await params
+
+    const deleted = await db.delete(variables)
+      .where(and(
+        eq(variables.id, variableId),
+        eq(variables.userId, session.user.id!)
+      ))
+      .returning({ id: variables.id })
+
+    if (deleted.length === 0) {
+      return new NextResponse("Not found", { status: 404 })
+    }
+
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    console.error("[VARIABLE_DELETE]", error)
+    return new NextResponse("Internal Error", { status: 500 })
+  }
+}
@@ -0,0 +1,68 @@
+import { auth } from "@/lib/auth"
+import { getDb } from "@/lib/db"
+import { insertVariableSchema, variables } from "@/lib/db/schema/variables"
+import { toClientVariable } from "@/lib/variables"
+import { generateId } from "@/lib/utils"
+import { and, eq } from "drizzle-orm"
+import { NextResponse } from "next/server"
+import { z } from "zod"
+
+export const runtime = "edge"
+
+// 机密变量只返回名称，不返回值
+export async function GET() {
+  try {
+    const db = await getDb()
+    const session = await auth()
+    if (!session?.user) {
+      return new NextResponse("Unauthorized", { status: 401 })
+    }
+
+    const variableList = await db.query.variables.findMany({
+      where: eq(variables.userId, session.user.id!),
+      orderBy: (variables, { asc }) => [asc(variables.name)],
+    })
+
+    return NextResponse.json(variableList.map(toClientVariable))
+  } catch (error) {
+    console.error("[VARIABLES_GET]", error)
+    return new NextResponse("Internal Error", { status: 500 })
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const db = await getDb()
+    const session = await auth()
+    if (!session?.user) {
+      return new NextResponse("Unauthorized", { status: 401 })
+    }
+
+    const json = await req.json() as Record<string, unknown>
+    const body = insertVariableSchema.parse(json)
+
+    const existing = await db.query.variables.findFirst({
+      where: and(
+        eq(variables.userId, session.user.id!),
+        eq(variables.name, body.name)
+      ),
+    })
+    if (existing) {
+      return new NextResponse("变量名已存在", { status: 409 })
+    }
+
+    const variable = await db.insert(variables).values({
+      ...body,
+      id: generateId(),
+      userId: session.user.id!,
+    }).returning()
+
+    return NextResponse.json(toClientVariable(variable[0]))
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return new NextResponse(error.message, { status: 400 })
+    }
+    console.error("[VARIABLES_POST]", error)
+    return new NextResponse("Internal Error", { status: 500 })
+  }
+}
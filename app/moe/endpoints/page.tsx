@@ -1,8 +1,8 @@
 import { auth } from "@/lib/auth"
 import { getDb } from "@/lib/db"
-import { endpoints } from "@/lib/db/schema/endpoints"
+import { endpointChannels, endpoints } from "@/lib/db/schema/endpoints"
 import { channels } from "@/lib/db/schema/channels"
-import { eq } from "drizzle-orm"
+import { asc, eq } from "drizzle-orm"
 import { Channel } from "@/lib/channels"
 import { EndpointsTabs } from "@/components/endpoints-tabs"
 
@@ -13,6 +13,11 @@ async function getEndpoints(userId: string) {
   return db.query.endpoints.findMany({
     where: eq(endpoints.userId, userId),
     orderBy: (endpoints, { desc }) => [desc(endpoints.createdAt)],
+    with: {
+      endpointChannels: {
+        orderBy: [asc(endpointChannels.sortOrder)],
+      },
+    },
   })
 }
 
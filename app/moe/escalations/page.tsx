@@ -0,0 +1,51 @@
+import { auth } from "@/lib/auth"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { EscalationTable } from "@/components/escalation-table"
+import { getDb } from "@/lib/db"
+import { escalations } from "@/lib/db/schema/escalations"
+import { eq } from "drizzle-orm"
+
+export const runtime = "edge"
+
+// 只展示最近的记录
+const ESCALATION_LIMIT = 100
+
+async function getEscalations(userId: string) {
+  const db = await getDb()
+  return db.query.escalations.findMany({
+    where: eq(escalations.userId, userId),
+    orderBy: (escalations, { desc }) => [desc(escalations.createdAt)],
+    limit: ESCALATION_LIMIT,
+    with: { endpoint: { columns: { name: true } } },
+  })
+}
+
+export default async function EscalationsPage() {
+  const session = await auth()
+  const escalationList = await getEscalations(session!.user!.id!)
+
+  return (
+    <div className="flex flex-col gap-8">
+      <div>
+        <h1 className="text-4xl font-bold bg-gradient-to-r from-blue-500 to-indigo-500 text-transparent bg-clip-text">
+          告警升级
+        </h1>
+        <p className="text-muted-foreground mt-2">
+          配置了升级步骤的接口推送后等待确认，超时未确认时依次通知升级渠道
+        </p>
+      </div>
+
+      <Card className="bg-white/50 border-blue-100">
+        <CardHeader>
+          <CardTitle>升级记录</CardTitle>
+          <CardDescription>
+            通过消息中的确认链接 ({"${ackUrl}"}) 或在这里确认后，不再继续升级通知
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <EscalationTable escalations={escalationList} />
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -1,5 +1,5 @@
 import { auth } from "@/lib/auth"
-import { Key, LayoutGrid } from "lucide-react"
+import { CalendarClock, Key, LayoutGrid, ScrollText, Siren, Variable } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import Link from "next/link"
 import { cn } from "@/lib/utils"
@@ -30,6 +30,38 @@ export default async function MoeLayout({
           渠道管理
         </Button>
       </Link>
+      <Link href="/moe/schedules">
+        <Button variant="ghost" size="sm" className={cn(
+          "gap-2 text-muted-foreground hover:text-foreground",
+        )}>
+          <CalendarClock className="h-4 w-4" />
+          定时推送
+        </Button>
+      </Link>
+      <Link href="/moe/escalations">
+        <Button variant="ghost" size="sm" className={cn(
+          "gap-2 text-muted-foreground hover:text-foreground",
+        )}>
+          <Siren className="h-4 w-4" />
+          告警升级
+        </Button>
+      </Link>
+      <Link href="/moe/variables">
+        <Button variant="ghost" size="sm" className={cn(
+          "gap-2 text-muted-foreground hover:text-foreground",
+        )}>
+          <Variable className="h-4 w-4" />
+          变量
+        </Button>
+      </Link>
+      <Link href="/moe/logs">
+        <Button variant="ghost" size="sm" className={cn(
+          "gap-2 text-muted-foreground hover:text-foreground",
+        )}>
+          <ScrollText className="h-4 w-4" />
+          推送日志
+        </Button>
+      </Link>
     </nav>
   )
 
@@ -0,0 +1,62 @@
+import { auth } from "@/lib/auth"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { ScheduleTable } from "@/components/schedule-table"
+import { getDb } from "@/lib/db"
+import { endpoints } from "@/lib/db/schema/endpoints"
+import { schedules } from "@/lib/db/schema/schedules"
+import { eq } from "drizzle-orm"
+
+export const runtime = "edge"
+
+async function getSchedules(userId: string) {
+  const db = await getDb()
+  return db.query.schedules.findMany({
+    where: eq(schedules.userId, userId),
+    orderBy: (schedules, { asc }) => [asc(schedules.nextRunAt)],
+  })
+}
+
+async function getEndpoints(userId: string) {
+  const db = await getDb()
+  return db.query.endpoints.findMany({
+    where: eq(endpoints.userId, userId),
+    orderBy: (endpoints, { desc }) => [desc(endpoints.createdAt)],
+  })
+}
+
+export default async function SchedulesPage() {
+  const session = await auth()
+
+  const [scheduleList, endpointList] = await Promise.all([
+    getSchedules(session!.user!.id!),
+    getEndpoints(session!.user!.id!),
+  ])
+
+  return (
+    <div className="flex flex-col gap-8">
+      <div>
+        <h1 className="text-4xl font-bold bg-gradient-to-r from-blue-500 to-indigo-500 text-transparent bg-clip-text">
+          定时推送
+        </h1>
+        <p className="text-muted-foreground mt-2">
+          按 cron 表达式定时推送消息，如每天 9 点的站会提醒
+        </p>
+      </div>
+
+      <Card className="bg-white/50 border-blue-100">
+        <CardHeader>
+          <CardTitle>定时任务</CardTitle>
+          <CardDescription>
+            通过 ?sendAt= 或 ?delay= 安排的一次性推送也会显示在这里，推送后自动移除
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ScheduleTable
+            schedules={scheduleList}
+            endpoints={endpointList}
+          />
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,53 @@
+import { auth } from "@/lib/auth"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { VariableTable } from "@/components/variable-table"
+import { getDb } from "@/lib/db"
+import { variables } from "@/lib/db/schema/variables"
+import { getVariableUsage, toClientVariable } from "@/lib/variables"
+import { eq } from "drizzle-orm"
+
+export const runtime = "edge"
+
+async function getVariables(userId: string) {
+  const db = await getDb()
+  const variableList = await db.query.variables.findMany({
+    where: eq(variables.userId, userId),
+    orderBy: (variables, { asc }) => [asc(variables.name)],
+  })
+  return variableList.map(toClientVariable)
+}
+
+export default async function VariablesPage() {
+  const session = await auth()
+
+  const variableList = await getVariables(session!.user!.id!)
+  const usage = await getVariableUsage(session!.user!.id!, variableList.map(variable => variable.name))
+
+  return (
+    <div className="flex flex-col gap-8">
+      <div>
+        <h1 className="text-4xl font-bold bg-gradient-to-r from-blue-500 to-indigo-500 text-transparent bg-clip-text">
+          变量
+        </h1>
+        <p className="text-muted-foreground mt-2">
+          在多个接口中复用的值，如值班手机号、看板地址，修改后所有引用的接口立即生效
+        </p>
+      </div>
+
+      <Card className="bg-white/50 border-blue-100">
+        <CardHeader>
+          <CardTitle>自定义变量</CardTitle>
+          <CardDescription>
+            消息模版中通过 {"${vars.名称}"} 引用，机密变量保存后不再显示，推送日志中显示为 ******
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <VariableTable
+            variables={variableList}
+            usage={usage}
+          />
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,137 @@
+"use client"
+
+import { useState } from "react"
+import { Label } from "@/components/ui/label"
+import { Input } from "@/components/ui/input"
+import { Switch } from "@/components/ui/switch"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { requiredFieldsToSchema } from "@/lib/body-schema"
+
+type SchemaMode = "required" | "schema"
+
+interface BodySchemaFieldsProps {
+  value?: string | null
+  onChange: (value: string | null) => void
+}
+
+const DEFAULT_REQUIRED_FIELDS = ["title"]
+
+// 数据库中保存必填字段数组或 JSON Schema 对象，编辑时转换为输入框中的文本
+function parseValue(value?: string | null): { mode: SchemaMode, text: string } {
+  if (!value) return { mode: "required", text: DEFAULT_REQUIRED_FIELDS.join(", ") }
+  try {
+    const parsed = JSON.parse(value)
+    if (Array.isArray(parsed)) return { mode: "required", text: parsed.join(", ") }
+  } catch {
+    // 保留未完成编辑的 JSON Schema
+  }
+  return { mode: "schema", text: value }
+}
+
+function toFields(text: string) {
+  return text.split(/[,，\s]+/).map(field => field.trim()).filter(Boolean)
+}
+
+/**
+ * 请求体格式：必填字段列表或 JSON Schema，不符合时推送接口返回 422
+ */
+export function BodySchemaFields({ value, onChange }: BodySchemaFieldsProps) {
+  const enabled = !!value
+  const [state, setState] = useState(() => parseValue(value))
+
+  const update = (mode: SchemaMode, text: string) => {
+    setState({ mode, text })
+    onChange(mode === "required" ? JSON.stringify(toFields(text)) : text)
+  }
+
+  const changeMode = (mode: SchemaMode) => {
+    if (mode === state.mode) return
+    if (mode === "schema") {
+      update(mode, JSON.stringify(requiredFieldsToSchema(toFields(state.text)), null, 2))
+      return
+    }
+    let fields: string[] = []
+    try {
+      const required = JSON.parse(state.text).required
+      if (Array.isArray(required)) fields = required
+    } catch {
+      // JSON Schema 不完整时清空字段列表
+    }
+    update(mode, fields.join(", "))
+  }
+
+  return (
+    <div className="space-y-3 rounded-lg border p-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <Label>请求体校验</Label>
+          <p className="text-xs text-muted-foreground mt-1">
+            {enabled
+              ? "不符合要求的请求返回 422 和字段错误，不会推送"
+              : "不校验请求体，缺少的字段渲染为空"}
+          </p>
+        </div>
+        <Switch
+          checked={enabled}
+          onCheckedChange={(checked) => {
+            if (checked) {
+              update("required", DEFAULT_REQUIRED_FIELDS.join(", "))
+            } else {
+              onChange(null)
+            }
+          }}
+        />
+      </div>
+
+      {enabled && (
+        <>
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <Label className="text-xs">校验方式</Label>
+              <Select value={state.mode} onValueChange={(mode) => changeMode(mode as SchemaMode)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="required">必填字段</SelectItem>
+                  <SelectItem value="schema">JSON Schema</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {state.mode === "required" && (
+              <div className="col-span-2 space-y-1">
+                <Label className="text-xs">字段</Label>
+                <Input
+                  className="font-mono"
+                  placeholder="title, alert.level"
+                  value={state.text}
+                  onChange={(e) => update("required", e.target.value)}
+                />
+              </div>
+            )}
+          </div>
+          {state.mode === "schema" && (
+            <Textarea
+              className="font-mono resize-none h-40"
+              placeholder='{"type": "object", "required": ["title"], "properties": {"title": {"type": "string"}}}'
+              value={state.text}
+              onChange={(e) => update("schema", e.target.value)}
+            />
+          )}
+          <p className="text-xs text-muted-foreground">
+            {state.mode === "required"
+              ? "用逗号分隔，嵌套字段用 . 连接；字段缺少、为 null 或空字符串时校验失败"
+              : "支持 type、required、properties、items、enum、pattern、format、minimum 等常用关键字，examples 和 default 用于生成示例请求"}
+          </p>
+        </>
+      )}
+    </div>
+  )
+}
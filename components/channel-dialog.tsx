@@ -38,6 +38,8 @@ import { DropdownMenuItem } from "@/components/ui/dropdown-menu"
 import { useRouter } from "next/navigation"
 import { createChannel, updateChannel } from "@/lib/services/channels"
 import { ChannelFormFields } from "./channel-form"
+import { RetryPolicyFields } from "./retry-policy-fields"
+import { QuietHoursFields } from "./quiet-hours-fields"
 
 interface ChannelDialogProps {
   mode?: "create" | "edit"
@@ -65,6 +67,8 @@ export function ChannelDialog({ mode = "create", channel }: ChannelDialogProps)
       wecomVerifyFilename: channel?.wecomVerifyFilename || "",
       wecomVerifyContent: channel?.wecomVerifyContent || "",
       socks5Proxy: channel?.socks5Proxy || "",
+      retryPolicy: channel?.retryPolicy ?? null,
+      quietHours: channel?.quietHours ?? null,
     },
   })
 
@@ -176,6 +180,32 @@ export function ChannelDialog({ mode = "create", channel }: ChannelDialogProps)
               />
             )}
 
+            <FormField
+              control={form.control}
+              name="retryPolicy"
+              render={({ field }) => (
+                <FormItem>
+                  <RetryPolicyFields
+                    value={field.value}
+                    onChange={field.onChange}
+                    inheritLabel="未开启时失败不重试"
+                  />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="quietHours"
+              render={({ field }) => (
+                <FormItem>
+                  <QuietHoursFields value={field.value} onChange={field.onChange} />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <DialogFooter>
               <Button variant="outline" onClick={() => setOpen(false)} type="button">
                 取消
@@ -6,6 +6,7 @@ import { FeishuFields } from "./feishu-fields"
 import { DiscordFields } from "./discord-fields"
 import { BarkFields } from "./bark-fields"
 import { WebhookFields } from "./webhook-fields"
+import { SlackFields } from "./slack-fields"
 import { CHANNEL_TYPES } from "@/lib/channels"
 import { UseFormReturn } from "react-hook-form"
 import type { ChannelFormData } from "@/lib/db/schema/channels"
@@ -42,6 +43,9 @@ export function ChannelFormFields({ type, form }: ChannelFormFieldsProps) {
         case CHANNEL_TYPES.WEBHOOK:
             return <WebhookFields form={form} />
 
+        case CHANNEL_TYPES.SLACK:
+            return <SlackFields form={form} />
+
         default:
             return null
     }
@@ -0,0 +1,82 @@
+import { FormControl, FormField, FormItem, FormLabel, FormMessage, FormDescription } from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
+import { UseFormReturn } from "react-hook-form"
+import type { ChannelFormData } from "@/lib/db/schema/channels"
+
+interface SlackFieldsProps {
+  form: UseFormReturn<ChannelFormData>
+}
+
+export function SlackFields({ form }: SlackFieldsProps) {
+  return (
+    <>
+      <FormField
+        control={form.control}
+        name="webhook"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Incoming Webhook URL</FormLabel>
+            <FormControl>
+              <Input
+                placeholder="https://hooks.slack.com/services/..."
+                className="font-mono"
+                {...field}
+              />
+            </FormControl>
+            <FormDescription>
+              在 Slack 应用的 <a
+                href="https://api.slack.com/messaging/webhooks"
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-primary hover:underline"
+              >
+                Incoming Webhooks
+              </a> 页面为频道创建，文本和 Block Kit 消息优先通过 Webhook 发送
+            </FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={form.control}
+        name="botToken"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Bot Token</FormLabel>
+            <FormControl>
+              <Input
+                placeholder="xoxb-..."
+                className="font-mono"
+                {...field}
+              />
+            </FormControl>
+            <FormDescription>
+              使用 chat.postMessage 发送时需要，应用需具有 chat:write 权限并已加入目标频道；Webhook 和 Bot Token 至少填写一项
+            </FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={form.control}
+        name="chatId"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>默认频道</FormLabel>
+            <FormControl>
+              <Input
+                placeholder="如 C0123456789"
+                className="font-mono"
+                {...field}
+              />
+            </FormControl>
+            <FormDescription>
+              使用 Bot Token 发送且消息中未指定 channel 时发送到该频道
+            </FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    </>
+  )
+}
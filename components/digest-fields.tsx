@@ -0,0 +1,120 @@
+"use client"
+
+import { UseFormReturn } from "react-hook-form"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  FormControl,
+  FormField,
+  FormItem,
+  FormMessage,
+} from "@/components/ui/form"
+import { NewEndpoint } from "@/lib/db/schema/endpoints"
+
+interface DigestFieldsProps {
+  form: UseFormReturn<NewEndpoint>
+}
+
+// 默认合并窗口 (分钟)
+const DEFAULT_DIGEST_WINDOW = 10
+
+/**
+ * 摘要模式：请求先保存，合并窗口结束或数量达到上限时合并为一条消息推送
+ */
+export function DigestFields({ form }: DigestFieldsProps) {
+  const digestWindow = form.watch("digestWindow")
+  const enabled = !!digestWindow
+
+  return (
+    <div className="space-y-3 rounded-lg border p-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <Label>摘要模式</Label>
+          <p className="text-xs text-muted-foreground mt-1">
+            {enabled ? "收到的请求先保存，合并窗口结束时合并为一条消息推送" : "每个请求单独推送"}
+          </p>
+        </div>
+        <Switch
+          checked={enabled}
+          onCheckedChange={(checked) => {
+            form.setValue("digestWindow", checked ? DEFAULT_DIGEST_WINDOW : null)
+            if (!checked) {
+              form.setValue("digestMaxItems", null)
+              form.setValue("digestRule", null)
+            }
+          }}
+        />
+      </div>
+
+      {enabled && (
+        <>
+          <div className="grid grid-cols-2 gap-3">
+            <FormField
+              control={form.control}
+              name="digestWindow"
+              render={({ field }) => (
+                <FormItem className="space-y-1">
+                  <Label className="text-xs">合并窗口 (分钟)</Label>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min={1}
+                      max={720}
+                      value={field.value ?? ""}
+                      onChange={(e) => field.onChange(Number(e.target.value))}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="digestMaxItems"
+              render={({ field }) => (
+                <FormItem className="space-y-1">
+                  <Label className="text-xs">达到数量时立即推送</Label>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min={2}
+                      max={1000}
+                      placeholder="不限"
+                      value={field.value ?? ""}
+                      onChange={(e) => field.onChange(e.target.value ? Number(e.target.value) : null)}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+          <FormField
+            control={form.control}
+            name="digestRule"
+            render={({ field }) => (
+              <FormItem className="space-y-1">
+                <Label className="text-xs">摘要模版</Label>
+                <FormControl>
+                  <Textarea
+                    className="font-mono resize-none h-32"
+                    placeholder={'{"msgtype": "markdown", "markdown": {"content": "共 ${count} 条告警\\n${#each items as body}- ${body.title}\\n${/each}"}}'}
+                    value={field.value ?? ""}
+                    onChange={(e) => field.onChange(e.target.value || null)}
+                  />
+                </FormControl>
+                <p className="text-xs text-muted-foreground">
+                  {"items 为合并的请求体列表，count 为数量，body 为最后一条请求；留空时每条请求按上方的消息模版渲染后合并为一条消息，"}
+                  {"在 ${#each items as body} 中可以沿用单条消息的写法"}
+                </p>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </>
+      )}
+    </div>
+  )
+}
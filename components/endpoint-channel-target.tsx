@@ -0,0 +1,157 @@
+"use client"
+
+import { useState } from "react"
+import { UseFormReturn } from "react-hook-form"
+import { Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { TemplateFields } from "@/components/template-fields"
+import { EndpointPreview } from "@/components/endpoint-preview"
+import { Channel, CHANNEL_TEMPLATES, ChannelType, findMessageTemplate } from "@/lib/channels"
+import { NewEndpoint } from "@/lib/db/schema/endpoints"
+
+interface EndpointChannelTargetProps {
+  form: UseFormReturn<NewEndpoint>
+  // 附加渠道、备用渠道、升级步骤或路由渠道列表在表单中的字段名
+  name: "extraChannels" | "fallbackChannels" | "escalationSteps" | `routes.${number}.targets`
+  label: string
+  index: number
+  channels: Channel[]
+  onRemove: () => void
+  // 显示在渠道选择后的额外字段，如升级步骤的等待时间
+  children?: React.ReactNode
+}
+
+function getInitialTemplateType(channelType?: ChannelType, rule?: string) {
+  if (!channelType || !rule) return undefined
+  try {
+    return findMessageTemplate(channelType, JSON.parse(rule))?.type
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * 接口的一个附加渠道、备用渠道、升级步骤或路由渠道，每个渠道按自己的消息格式单独配置模版
+ */
+export function EndpointChannelTarget({
+  form,
+  name,
+  label,
+  index,
+  channels,
+  onRemove,
+  children,
+}: EndpointChannelTargetProps) {
+  const channelIdName = `${name}.${index}.channelId` as const
+  const ruleName = `${name}.${index}.rule` as const
+  const [channelId, rule] = form.watch([channelIdName, ruleName])
+  const channelType = channels.find(c => c.id === channelId)?.type as ChannelType | undefined
+  const [templateType, setTemplateType] = useState<string | undefined>(
+    () => getInitialTemplateType(channelType, rule)
+  )
+
+  const templates = channelType ? CHANNEL_TEMPLATES[channelType] : []
+  const template = templates.find(t => t.type === templateType)
+
+  return (
+    <div className="space-y-4 rounded-lg border p-4">
+      <div className="flex items-end gap-2">
+        <FormField
+          control={form.control}
+          name={channelIdName}
+          render={({ field }) => (
+            <FormItem className="flex-1">
+              <FormLabel>{label} {index + 1}</FormLabel>
+              <Select
+                onValueChange={(value) => {
+                  field.onChange(value)
+                  setTemplateType(undefined)
+                }}
+                value={field.value}
+              >
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="选择推送渠道" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {channels.map((channel) => (
+                    <SelectItem key={channel.id} value={channel.id}>
+                      {channel.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        {channelType && (
+          <FormItem className="flex-1">
+            <FormLabel>消息类型</FormLabel>
+            <Select onValueChange={setTemplateType} value={templateType}>
+              <SelectTrigger>
+                <SelectValue placeholder="选择消息类型" />
+              </SelectTrigger>
+              <SelectContent>
+                {templates.map((t) => (
+                  <SelectItem key={t.type} value={t.type}>
+                    {t.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </FormItem>
+        )}
+        {children}
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="text-muted-foreground hover:text-red-500"
+          onClick={onRemove}
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {template && (
+        <TemplateFields
+          key={`${channelId}-${template.type}`}
+          form={form}
+          template={template}
+          ruleName={ruleName}
+          channelIdName={channelIdName}
+        />
+      )}
+      <FormField
+        control={form.control}
+        name={ruleName}
+        render={() => <FormMessage />}
+      />
+
+      {channelType && template && rule && (
+        <EndpointPreview
+          rule={rule}
+          channelId={channelId}
+          autoEscape={!!form.watch("autoEscape")}
+          bodySchema={form.watch("bodySchema")}
+        />
+      )}
+    </div>
+  )
+}
@@ -18,9 +18,11 @@ import {
 } from "@/components/ui/select"
 import { Input } from "@/components/ui/input"
 import { Textarea } from "@/components/ui/textarea"
+import { Switch } from "@/components/ui/switch"
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -28,20 +30,39 @@ import {
 } from "@/components/ui/form"
 import { Plus, Loader2 } from "lucide-react"
 import { useState } from "react"
-import { useForm } from "react-hook-form"
+import { useFieldArray, useForm } from "react-hook-form"
 import { zodResolver } from "@hookform/resolvers/zod"
 import { insertEndpointSchema } from "@/lib/db/schema/endpoints"
-import { Endpoint, NewEndpoint } from "@/lib/db/schema/endpoints"
+import {
+  Endpoint,
+  ENDPOINT_CHANNEL_KIND,
+  EndpointChannelKind,
+  EndpointWithExtraChannels,
+  NewEndpoint,
+} from "@/lib/db/schema/endpoints"
 import { useToast } from "@/components/ui/use-toast"
 import { DropdownMenuItem } from "@/components/ui/dropdown-menu"
 import { Channel, ChannelType } from "@/lib/channels"
 import { CHANNEL_TEMPLATES } from "@/lib/channels"
+import { OVERFLOW_MODE_LABELS, OVERFLOW_MODES, OverflowMode } from "@/lib/channels/split"
 import { TemplateFields } from "@/components/template-fields"
+import { RetryPolicyFields } from "@/components/retry-policy-fields"
+import { DedupFields, RateLimitFields } from "@/components/throttle-fields"
+import { DigestFields } from "@/components/digest-fields"
+import { QuietHoursFields } from "@/components/quiet-hours-fields"
+import { EndpointTokenFields } from "@/components/endpoint-token-fields"
+import { EndpointPreview } from "@/components/endpoint-preview"
+import { EndpointChannelTarget } from "@/components/endpoint-channel-target"
+import { EndpointRouteFields } from "@/components/endpoint-route-fields"
+import { EndpointFilterFields } from "@/components/endpoint-filter-fields"
+import { BodySchemaFields } from "@/components/body-schema-fields"
 import { createEndpoint, updateEndpoint } from "@/lib/services/endpoints"
+import { parseRoutes } from "@/lib/routing"
+import { parseFilters } from "@/lib/push-filters"
 
 interface EndpointDialogProps {
   mode?: "create" | "edit"
-  endpoint?: Endpoint
+  endpoint?: EndpointWithExtraChannels
   channels: Channel[]
   icon?: React.ReactNode
   onSuccess?: () => void
@@ -65,6 +86,19 @@ const getInitialTemplateType = (endpoint?: Endpoint) => {
   }
 }
 
+const getEndpointChannels = (endpoint: EndpointWithExtraChannels | undefined, kind: EndpointChannelKind) => {
+  return (endpoint?.endpointChannels ?? [])
+    .filter(item => item.kind === kind)
+    .map(({ channelId, rule }) => ({ channelId, rule }))
+}
+
+const getEscalationSteps = (endpoint: EndpointWithExtraChannels | undefined) => {
+  return (endpoint?.endpointChannels ?? [])
+    .filter(item => item.kind === ENDPOINT_CHANNEL_KIND.ESCALATION)
+    .sort((a, b) => a.sortOrder - b.sortOrder)
+    .map(({ channelId, rule, delayMinutes }) => ({ channelId, rule, delayMinutes: delayMinutes ?? 10 }))
+}
+
 export function EndpointDialog({ 
   mode = "create", 
   endpoint,
@@ -88,9 +122,39 @@ export function EndpointDialog({
       name: endpoint?.name ?? "",
       channelId: endpoint?.channelId ?? "",
       rule: endpoint?.rule ?? "",
+      retryPolicy: endpoint?.retryPolicy ?? null,
+      deliveryMode: endpoint?.deliveryMode ?? "sync",
+      overflowMode: (endpoint?.overflowMode as OverflowMode | undefined) ?? OVERFLOW_MODES.SPLIT,
+      autoEscape: endpoint?.autoEscape ?? false,
+      extraChannels: getEndpointChannels(endpoint, ENDPOINT_CHANNEL_KIND.PARALLEL),
+      fallbackChannels: getEndpointChannels(endpoint, ENDPOINT_CHANNEL_KIND.FALLBACK),
+      escalationSteps: getEscalationSteps(endpoint),
+      routes: parseRoutes(endpoint?.routes),
+      filters: parseFilters(endpoint?.filters),
+      dedupKey: endpoint?.dedupKey ?? null,
+      dedupWindow: endpoint?.dedupWindow ?? null,
+      rateLimit: endpoint?.rateLimit ?? null,
+      digestWindow: endpoint?.digestWindow ?? null,
+      digestMaxItems: endpoint?.digestMaxItems ?? null,
+      digestRule: endpoint?.digestRule ?? null,
+      quietHours: endpoint?.quietHours ?? null,
+      bodySchema: endpoint?.bodySchema ?? null,
     },
   })
 
+  const extraChannels = useFieldArray({ control: form.control, name: "extraChannels" })
+  const fallbackChannels = useFieldArray({ control: form.control, name: "fallbackChannels" })
+  const escalationSteps = useFieldArray({ control: form.control, name: "escalationSteps" })
+
+  const [rule, channelId, autoEscape, routes, filters, bodySchema] = form.watch([
+    "rule",
+    "channelId",
+    "autoEscape",
+    "routes",
+    "filters",
+    "bodySchema",
+  ])
+
   const templates = selectedChannelType ? CHANNEL_TEMPLATES[selectedChannelType] : []
   const template = templates.find(t => t.type === selectedTemplateType)
 
@@ -260,6 +324,254 @@ export function EndpointDialog({
                   </FormItem>
                 )}
               />
+              {selectedChannelType && rule && (
+                <EndpointPreview
+                  rule={rule}
+                  channelId={channelId}
+                  autoEscape={!!autoEscape}
+                  routes={routes}
+                  filters={filters}
+                  bodySchema={bodySchema}
+                />
+              )}
+              {template?.escape && (
+                <FormField
+                  control={form.control}
+                  name="autoEscape"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center justify-between rounded-lg border p-4">
+                      <div>
+                        <FormLabel>自动转义</FormLabel>
+                        <FormDescription className="text-xs">
+                          按消息格式转义插入的变量，避免特殊字符导致推送失败，可用 {"${body.x | raw}"} 跳过
+                        </FormDescription>
+                      </div>
+                      <FormControl>
+                        <Switch checked={!!field.value} onCheckedChange={field.onChange} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+              )}
+              <div className="space-y-4">
+                {extraChannels.fields.map((item, index) => (
+                  <EndpointChannelTarget
+                    key={item.id}
+                    form={form}
+                    name="extraChannels"
+                    label="附加渠道"
+                    index={index}
+                    channels={channels}
+                    onRemove={() => extraChannels.remove(index)}
+                  />
+                ))}
+                <div className="flex items-center justify-between">
+                  <p className="text-xs text-muted-foreground">
+                    附加渠道与主渠道并行推送，每个渠道使用各自的消息模版
+                  </p>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    className="gap-2"
+                    onClick={() => extraChannels.append({ channelId: "", rule: "" })}
+                  >
+                    <Plus className="h-4 w-4" />
+                    添加渠道
+                  </Button>
+                </div>
+              </div>
+              <div className="space-y-4">
+                {fallbackChannels.fields.map((item, index) => (
+                  <EndpointChannelTarget
+                    key={item.id}
+                    form={form}
+                    name="fallbackChannels"
+                    label="备用渠道"
+                    index={index}
+                    channels={channels}
+                    onRemove={() => fallbackChannels.remove(index)}
+                  />
+                ))}
+                <div className="flex items-center justify-between">
+                  <p className="text-xs text-muted-foreground">
+                    主渠道推送失败时按顺序尝试备用渠道，直到有一个成功
+                  </p>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    className="gap-2"
+                    onClick={() => fallbackChannels.append({ channelId: "", rule: "" })}
+                  >
+                    <Plus className="h-4 w-4" />
+                    添加备用渠道
+                  </Button>
+                </div>
+              </div>
+              <div className="space-y-4">
+                {escalationSteps.fields.map((item, index) => (
+                  <EndpointChannelTarget
+                    key={item.id}
+                    form={form}
+                    name="escalationSteps"
+                    label="升级步骤"
+                    index={index}
+                    channels={channels}
+                    onRemove={() => escalationSteps.remove(index)}
+                  >
+                    <FormField
+                      control={form.control}
+                      name={`escalationSteps.${index}.delayMinutes`}
+                      render={({ field }) => (
+                        <FormItem className="w-[120px]">
+                          <FormLabel>等待 (分钟)</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              min={1}
+                              max={720}
+                              {...field}
+                              onChange={(e) => field.onChange(Number(e.target.value))}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </EndpointChannelTarget>
+                ))}
+                <div className="flex items-center justify-between">
+                  <p className="text-xs text-muted-foreground">
+                    推送后超过等待时间仍未确认时依次通知升级渠道，模版中可用 {"${ackUrl}"} 插入确认链接
+                  </p>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    className="gap-2"
+                    onClick={() => escalationSteps.append({ channelId: "", rule: "", delayMinutes: 10 })}
+                  >
+                    <Plus className="h-4 w-4" />
+                    添加升级步骤
+                  </Button>
+                </div>
+              </div>
+              <EndpointRouteFields form={form} channels={channels} />
+              <FormField
+                control={form.control}
+                name="bodySchema"
+                render={({ field }) => (
+                  <FormItem>
+                    <BodySchemaFields value={field.value} onChange={field.onChange} />
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <EndpointFilterFields form={form} />
+              <FormField
+                control={form.control}
+                name="deliveryMode"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>推送模式</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="选择推送模式" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="sync">同步：等待渠道返回结果</SelectItem>
+                        <SelectItem value="async">异步：加入队列后立即返回 202</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="overflowMode"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>超长消息</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="选择处理方式" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {Object.values(OVERFLOW_MODES).map(mode => (
+                          <SelectItem key={mode} value={mode}>{OVERFLOW_MODE_LABELS[mode]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription className="text-xs">
+                      消息超出渠道的长度限制（如 Telegram 4096 字符、企业微信群机器人文本 2048 字节）时的处理方式
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="dedupKey"
+                render={({ field }) => (
+                  <FormItem>
+                    <DedupFields
+                      dedupKey={field.value}
+                      dedupWindow={form.watch("dedupWindow")}
+                      onChange={(value) => {
+                        field.onChange(value.dedupKey)
+                        form.setValue("dedupWindow", value.dedupWindow)
+                      }}
+                    />
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="rateLimit"
+                render={({ field }) => (
+                  <FormItem>
+                    <RateLimitFields value={field.value} onChange={field.onChange} />
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <DigestFields form={form} />
+              <FormField
+                control={form.control}
+                name="quietHours"
+                render={({ field }) => (
+                  <FormItem>
+                    <QuietHoursFields
+                      value={field.value}
+                      onChange={field.onChange}
+                      inheritLabel="未开启时使用推送渠道的免打扰时段"
+                    />
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="retryPolicy"
+                render={({ field }) => (
+                  <FormItem>
+                    <RetryPolicyFields
+                      value={field.value}
+                      onChange={field.onChange}
+                      inheritLabel="未开启时继承推送渠道的重试策略"
+                    />
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <EndpointTokenFields endpoint={endpoint} onChange={onSuccess} />
               <div className="flex justify-end gap-2">
                 <Button variant="outline" onClick={() => setOpen(false)} type="button">
                   取消
@@ -9,7 +9,7 @@ import {
 } from "@/components/ui/dialog"
 import { Endpoint } from "@/lib/db/schema/endpoints"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
-import { generateExampleBody } from "@/lib/generator"
+import { generateExampleRequest } from "@/lib/generator"
 
 interface EndpointExampleProps {
   endpoint: Endpoint | null
@@ -20,17 +20,25 @@ interface EndpointExampleProps {
 export function EndpointExample({ endpoint, open, onOpenChange }: EndpointExampleProps) {
   if (!endpoint) return null
 
-  const exampleBody = generateExampleBody(endpoint.rule)
-  const exampleJson = JSON.stringify(exampleBody, null, 6)
+  // 模版中引用了 query.* 和 headers.* 时，示例中一并带上对应的查询参数和请求头
+  const example = generateExampleRequest(endpoint.rule, endpoint.bodySchema)
+  const exampleJson = JSON.stringify(example.body, null, 6)
+  const search = new URLSearchParams(example.query).toString()
+  const url = `${window.location.origin}/api/push/${endpoint.id}${search ? `?${search}` : ""}`
+  const headers = Object.entries(example.headers)
 
-  const curlExample = `curl -X POST "${window.location.origin}/api/push/${endpoint.id}" \\
-  -H "Content-Type: application/json" \\
+  const curlExample = `curl -X POST "${url}" \\
+  -H "Content-Type: application/json" \\${endpoint.accessToken ? `
+  -H "Authorization: Bearer ${endpoint.accessToken}" \\` : ""}${headers.map(([key, value]) => `
+  -H "${key}: ${value}" \\`).join("")}
   -d '${exampleJson}'`
 
-  const fetchExample = `await fetch("${window.location.origin}/api/push/${endpoint.id}", {
+  const fetchExample = `await fetch("${url}", {
     method: "POST",
     headers: {
-      "Content-Type": "application/json",
+      "Content-Type": "application/json",${endpoint.accessToken ? `
+      "Authorization": "Bearer ${endpoint.accessToken}",` : ""}${headers.map(([key, value]) => `
+      "${key}": "${value}",`).join("")}
     },
     body: JSON.stringify(${exampleJson})
 })`
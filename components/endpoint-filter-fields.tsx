@@ -0,0 +1,86 @@
+"use client"
+
+import { useFieldArray, UseFormReturn } from "react-hook-form"
+import { Plus, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  FormControl,
+  FormField,
+  FormItem,
+  FormMessage,
+} from "@/components/ui/form"
+import { Label } from "@/components/ui/label"
+import { NewEndpoint } from "@/lib/db/schema/endpoints"
+
+interface EndpointFilterFieldsProps {
+  form: UseFormReturn<NewEndpoint>
+}
+
+/**
+ * 过滤规则：请求体命中任一条件时跳过推送，接口返回 { skipped: true, reason }
+ */
+export function EndpointFilterFields({ form }: EndpointFilterFieldsProps) {
+  const filters = useFieldArray({ control: form.control, name: "filters" })
+
+  return (
+    <div className="space-y-3 rounded-lg border p-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <Label>过滤规则</Label>
+          <p className="text-xs text-muted-foreground mt-1">
+            使用与模版 {"${#if}"} 相同的表达式，如 {"body.status == 'resolved'"}，命中任一规则时跳过推送
+          </p>
+        </div>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="gap-2"
+          onClick={() => filters.append({ expression: "", reason: "" })}
+        >
+          <Plus className="h-4 w-4" />
+          添加规则
+        </Button>
+      </div>
+
+      {filters.fields.map((item, index) => (
+        <div key={item.id} className="flex items-start gap-2">
+          <FormField
+            control={form.control}
+            name={`filters.${index}.expression`}
+            render={({ field }) => (
+              <FormItem className="flex-[2]">
+                <FormControl>
+                  <Input placeholder="body.status == 'resolved'" className="font-mono" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name={`filters.${index}.reason`}
+            render={({ field }) => (
+              <FormItem className="flex-1">
+                <FormControl>
+                  <Input placeholder="跳过原因 (可选)" {...field} value={field.value ?? ""} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="text-muted-foreground"
+            onClick={() => filters.remove(index)}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,168 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Loader2, RefreshCw } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import type { MessagePreview } from "@/lib/delivery"
+import type { EndpointFilter, EndpointRoute } from "@/lib/db/schema/endpoints"
+import { generateExampleBody } from "@/lib/generator"
+import { formatBodyErrors, parseBodySchema, validateBody } from "@/lib/body-schema"
+import { findMatchingRoute } from "@/lib/routing"
+import { findMatchingFilter, getFilterReason } from "@/lib/push-filters"
+import { previewRule } from "@/lib/services/endpoints"
+import { validateCondition } from "@/lib/template"
+
+interface EndpointPreviewProps {
+  rule: string
+  channelId?: string
+  autoEscape?: boolean
+  // 传入时显示示例请求体命中的路由
+  routes?: EndpointRoute[]
+  // 传入时显示示例请求体是否会被过滤规则跳过
+  filters?: EndpointFilter[]
+  // 传入时按请求体格式生成示例，并提示示例请求体是否符合格式
+  bodySchema?: string | null
+}
+
+// 输入停止一段时间后再请求预览
+const PREVIEW_DEBOUNCE = 500
+
+function parseSample(sample: string): { body?: unknown, error?: string } {
+  try {
+    return { body: JSON.parse(sample) }
+  } catch {
+    return { error: "示例请求体不是合法的 JSON" }
+  }
+}
+
+export function EndpointPreview({ rule, channelId, autoEscape, routes, filters, bodySchema }: EndpointPreviewProps) {
+  const [sample, setSample] = useState(() => JSON.stringify(generateExampleBody(rule, bodySchema), null, 2))
+  const [preview, setPreview] = useState<MessagePreview | null>(null)
+  const [sampleError, setSampleError] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+
+  useEffect(() => {
+    if (!rule) {
+      setPreview(null)
+      return
+    }
+
+    const { body, error } = parseSample(sample)
+    setSampleError(error ?? null)
+    if (error) return
+
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      setIsLoading(true)
+      try {
+        const result = await previewRule({ rule, channelId, autoEscape, body })
+        if (!cancelled) setPreview(result)
+      } catch (error) {
+        if (!cancelled) {
+          setPreview({
+            message: null,
+            unresolved: [],
+            errors: [{ expression: "", message: error instanceof Error ? error.message : "预览失败" }],
+          })
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false)
+      }
+    }, PREVIEW_DEBOUNCE)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [rule, channelId, autoEscape, sample])
+
+  const sampleBody = parseSample(sample).body
+  const matchedRoute = routes?.length && sampleBody !== undefined
+    ? routes[findMatchingRoute(routes, sampleBody)]
+    : undefined
+  const matchedFilter = filters?.length && sampleBody !== undefined
+    ? findMatchingFilter(
+      filters.filter(f => f.expression && !validateCondition(f.expression)),
+      { body: sampleBody }
+    )
+    : undefined
+  const schema = parseBodySchema(bodySchema)
+  const schemaErrors = schema && sampleBody !== undefined ? validateBody(schema, sampleBody) : []
+
+  return (
+    <div className="space-y-3 rounded-lg border p-4">
+      <div className="flex items-center justify-between">
+        <Label>消息预览</Label>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="h-6 px-2 text-muted-foreground"
+          onClick={() => setSample(JSON.stringify(generateExampleBody(rule, bodySchema), null, 2))}
+        >
+          <RefreshCw className="h-3 w-3 mr-1" />
+          重新生成示例
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground">示例请求体</p>
+          <Textarea
+            value={sample}
+            onChange={(e) => setSample(e.target.value)}
+            className="font-mono text-xs resize-none h-48"
+          />
+          {sampleError && <p className="text-xs text-red-500">{sampleError}</p>}
+        </div>
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground flex items-center gap-1">
+            渲染结果
+            {isLoading && <Loader2 className="h-3 w-3 animate-spin" />}
+          </p>
+          <pre className="rounded-md bg-muted p-2 text-xs font-mono h-48 overflow-auto whitespace-pre-wrap break-all">
+            {preview?.message != null ? JSON.stringify(preview.message, null, 2) : ""}
+          </pre>
+        </div>
+      </div>
+
+      {schemaErrors.length > 0 && (
+        <p className="text-xs text-amber-600">
+          示例请求体不符合请求体格式，推送时将返回 422：{formatBodyErrors(schemaErrors)}
+        </p>
+      )}
+      {matchedFilter && (
+        <p className="text-xs text-amber-600">
+          示例请求体命中过滤规则，将跳过推送：{getFilterReason(matchedFilter)}
+        </p>
+      )}
+      {!!routes?.length && sampleBody !== undefined && (
+        <p className="text-xs text-muted-foreground">
+          {matchedRoute
+            ? <>示例请求体命中路由：<span className="font-medium text-foreground">{matchedRoute.name || "未命名路由"}</span>，以上为默认路由的消息</>
+            : "示例请求体未命中任何路由，将使用默认路由推送"}
+        </p>
+      )}
+      {preview && preview.unresolved.length > 0 && (
+        <div className="text-xs">
+          <span className="text-amber-600">未解析的变量：</span>
+          {preview.unresolved.map((path) => (
+            <code key={path} className="ml-1 rounded bg-amber-50 px-1 text-amber-700">{path}</code>
+          ))}
+        </div>
+      )}
+      {preview && preview.errors.length > 0 && (
+        <div className="space-y-1 text-xs text-red-500">
+          {preview.errors.map((error, i) => (
+            <p key={i}>
+              {error.expression && <code className="mr-1">{error.expression}</code>}
+              {error.message}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
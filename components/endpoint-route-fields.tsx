@@ -0,0 +1,240 @@
+"use client"
+
+import { useFieldArray, UseFormReturn } from "react-hook-form"
+import { Plus, Trash2, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { EndpointChannelTarget } from "@/components/endpoint-channel-target"
+import { Channel } from "@/lib/channels"
+import { NewEndpoint, ROUTE_OPERATORS } from "@/lib/db/schema/endpoints"
+import { ROUTE_OPERATOR_LABELS, UNARY_ROUTE_OPERATORS } from "@/lib/routing"
+
+interface EndpointRouteFieldsProps {
+  form: UseFormReturn<NewEndpoint>
+  channels: Channel[]
+}
+
+interface RouteItemProps extends EndpointRouteFieldsProps {
+  index: number
+  onRemove: () => void
+}
+
+function RouteItem({ form, channels, index, onRemove }: RouteItemProps) {
+  const conditions = useFieldArray({ control: form.control, name: `routes.${index}.conditions` })
+  const targets = useFieldArray({ control: form.control, name: `routes.${index}.targets` })
+
+  return (
+    <div className="space-y-4 rounded-lg border p-4">
+      <div className="flex items-end gap-2">
+        <FormField
+          control={form.control}
+          name={`routes.${index}.name`}
+          render={({ field }) => (
+            <FormItem className="flex-1">
+              <FormLabel>路由 {index + 1}</FormLabel>
+              <FormControl>
+                <Input placeholder="路由名称，如 严重告警" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name={`routes.${index}.match`}
+          render={({ field }) => (
+            <FormItem className="w-[160px]">
+              <Select onValueChange={field.onChange} value={field.value}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value="all">满足全部条件</SelectItem>
+                  <SelectItem value="any">满足任一条件</SelectItem>
+                </SelectContent>
+              </Select>
+            </FormItem>
+          )}
+        />
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="text-muted-foreground hover:text-red-500"
+          onClick={onRemove}
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        {conditions.fields.map((item, conditionIndex) => {
+          const operator = form.watch(`routes.${index}.conditions.${conditionIndex}.operator`)
+          return (
+            <div key={item.id} className="flex items-start gap-2">
+              <FormField
+                control={form.control}
+                name={`routes.${index}.conditions.${conditionIndex}.path`}
+                render={({ field }) => (
+                  <FormItem className="flex-1">
+                    <FormControl>
+                      <Input placeholder="字段路径，如 severity" className="font-mono" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`routes.${index}.conditions.${conditionIndex}.operator`}
+                render={({ field }) => (
+                  <FormItem className="w-[120px]">
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {Object.entries(ROUTE_OPERATOR_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`routes.${index}.conditions.${conditionIndex}.value`}
+                render={({ field }) => (
+                  <FormItem className="flex-1">
+                    <FormControl>
+                      <Input
+                        placeholder="比较值"
+                        disabled={UNARY_ROUTE_OPERATORS.includes(operator)}
+                        {...field}
+                        value={field.value ?? ""}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="text-muted-foreground"
+                onClick={() => conditions.remove(conditionIndex)}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          )
+        })}
+        <FormField
+          control={form.control}
+          name={`routes.${index}.conditions`}
+          render={() => <FormMessage />}
+        />
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="gap-2"
+          onClick={() => conditions.append({ path: "", operator: ROUTE_OPERATORS.EQUALS, value: "" })}
+        >
+          <Plus className="h-4 w-4" />
+          添加条件
+        </Button>
+      </div>
+
+      <div className="space-y-4">
+        {targets.fields.map((item, targetIndex) => (
+          <EndpointChannelTarget
+            key={item.id}
+            form={form}
+            name={`routes.${index}.targets`}
+            label="路由渠道"
+            index={targetIndex}
+            channels={channels}
+            onRemove={() => targets.remove(targetIndex)}
+          />
+        ))}
+        <FormField
+          control={form.control}
+          name={`routes.${index}.targets`}
+          render={() => <FormMessage />}
+        />
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="gap-2"
+          onClick={() => targets.append({ channelId: "", rule: "" })}
+        >
+          <Plus className="h-4 w-4" />
+          添加路由渠道
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+/**
+ * 按请求内容路由：按顺序匹配，命中的路由推送到该路由的渠道，都不匹配时使用上面配置的渠道
+ */
+export function EndpointRouteFields({ form, channels }: EndpointRouteFieldsProps) {
+  const routes = useFieldArray({ control: form.control, name: "routes" })
+
+  return (
+    <div className="space-y-4">
+      {routes.fields.map((item, index) => (
+        <RouteItem
+          key={item.id}
+          form={form}
+          channels={channels}
+          index={index}
+          onRemove={() => routes.remove(index)}
+        />
+      ))}
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-muted-foreground">
+          按顺序匹配请求体，命中的路由推送到该路由的渠道，都不匹配时使用默认路由 (上面配置的渠道)
+        </p>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="gap-2"
+          onClick={() => routes.append({
+            name: "",
+            match: "all",
+            conditions: [{ path: "", operator: ROUTE_OPERATORS.EQUALS, value: "" }],
+            targets: [],
+          })}
+        >
+          <Plus className="h-4 w-4" />
+          添加路由
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -16,7 +16,7 @@ import {
   DropdownMenuItem, 
   DropdownMenuTrigger 
 } from "@/components/ui/dropdown-menu"
-import { MoreHorizontal, Loader2, Eye, Power, Trash, Pencil, Zap, Plus } from "lucide-react"
+import { MoreHorizontal, Loader2, Eye, Power, Trash, Pencil, Zap, Plus, Layers } from "lucide-react"
 import {
   Popover,
   PopoverContent,
@@ -24,7 +24,12 @@ import {
 } from "@/components/ui/popover"
 import { useState } from "react"
 import { EndpointDialog } from "@/components/endpoint-dialog"
-import { Endpoint } from "@/lib/db/schema/endpoints"
+import {
+  Endpoint,
+  ENDPOINT_CHANNEL_KIND,
+  EndpointChannelKind,
+  EndpointWithExtraChannels,
+} from "@/lib/db/schema/endpoints"
 import { useToast } from "@/components/ui/use-toast"
 import {
   AlertDialog,
@@ -40,17 +45,21 @@ import { STATUS_LABELS, STATUS_COLORS } from "@/lib/constants/endpoints"
 import { Channel } from "@/lib/channels"
 import { EndpointExample } from "@/components/endpoint-example"
 import { useRouter } from "next/navigation"
-import { deleteEndpoint, toggleEndpointStatus, testEndpoint } from "@/lib/services/endpoints"
+import { deleteEndpoint, flushEndpointDigest, toggleEndpointStatus, testEndpoint } from "@/lib/services/endpoints"
 import { Checkbox } from "@/components/ui/checkbox"
 import { CreateEndpointGroupDialog } from "./create-endpoint-group-dialog"
 
 interface EndpointTableProps {
-  endpoints: Endpoint[]
+  endpoints: EndpointWithExtraChannels[]
   channels: Channel[]
   onEndpointsUpdate: () => void
   onGroupCreated: () => void
 }
 
+function countEndpointChannels(endpoint: EndpointWithExtraChannels, kind: EndpointChannelKind) {
+  return endpoint.endpointChannels?.filter(item => item.kind === kind).length ?? 0
+}
+
 export function EndpointTable({ 
   endpoints,
   channels,
@@ -131,6 +140,8 @@ export function EndpointTable({
       await testEndpoint(
         endpoint.id,
         endpoint.rule,
+        endpoint.accessToken,
+        endpoint.bodySchema,
       )
       toast({
         title: "测试成功",
@@ -148,6 +159,21 @@ export function EndpointTable({
     }
   }
 
+  async function handleFlushDigest(endpoint: Endpoint) {
+    try {
+      setIsLoading(endpoint.id)
+      const { count } = await flushEndpointDigest(endpoint.id)
+      toast({ description: `已合并 ${count} 条消息，摘要正在推送` })
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        description: error instanceof Error ? error.message : "推送摘要失败",
+      })
+    } finally {
+      setIsLoading(null)
+    }
+  }
+
   const getStatusBadgeClass = (status: Endpoint["status"]) => {
     return `inline-flex items-center rounded-full px-2 py-1 text-xs font-medium ${STATUS_COLORS[status]}`
   }
@@ -228,6 +254,9 @@ export function EndpointTable({
             ) : (
               filteredEndpoints.map((endpoint) => {
                 const channel = channels.find(c => c.id === endpoint.channelId)
+                const extraCount = countEndpointChannels(endpoint, ENDPOINT_CHANNEL_KIND.PARALLEL)
+                const fallbackCount = countEndpointChannels(endpoint, ENDPOINT_CHANNEL_KIND.FALLBACK)
+                const escalationCount = countEndpointChannels(endpoint, ENDPOINT_CHANNEL_KIND.ESCALATION)
                 return (
                   <TableRow key={endpoint.id}>
                     <TableCell>
@@ -238,7 +267,18 @@ export function EndpointTable({
                     </TableCell>
                     <TableCell className="font-mono">{endpoint.id}</TableCell>
                     <TableCell>{endpoint.name}</TableCell>
-                    <TableCell>{channel?.name}</TableCell>
+                    <TableCell>
+                      {channel?.name}
+                      {!!extraCount && (
+                        <span className="ml-1 text-xs text-muted-foreground">+{extraCount}</span>
+                      )}
+                      {!!fallbackCount && (
+                        <span className="ml-1 text-xs text-muted-foreground">(备用 {fallbackCount})</span>
+                      )}
+                      {!!escalationCount && (
+                        <span className="ml-1 text-xs text-muted-foreground">(升级 {escalationCount})</span>
+                      )}
+                    </TableCell>
                     <TableCell>
                       <Popover>
                         <PopoverTrigger className="text-left">
@@ -284,6 +324,15 @@ export function EndpointTable({
                             )}
                             测试推送
                           </DropdownMenuItem>
+                          {!!endpoint.digestWindow && (
+                            <DropdownMenuItem
+                              onClick={() => handleFlushDigest(endpoint)}
+                              disabled={isLoading === endpoint.id}
+                            >
+                              <Layers className="h-4 w-4 mr-2" />
+                              立即推送摘要
+                            </DropdownMenuItem>
+                          )}
                           <EndpointDialog 
                             mode="edit"
                             endpoint={endpoint}
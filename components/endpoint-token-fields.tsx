@@ -0,0 +1,142 @@
+"use client"
+
+import { useState } from "react"
+import { Copy, Eye, EyeOff, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { useToast } from "@/components/ui/use-toast"
+import { Endpoint } from "@/lib/db/schema/endpoints"
+import { revokeEndpointToken, rotateEndpointToken } from "@/lib/services/endpoints"
+
+interface EndpointTokenFieldsProps {
+  endpoint?: Endpoint
+  onChange?: () => void
+}
+
+export function EndpointTokenFields({ endpoint, onChange }: EndpointTokenFieldsProps) {
+  const [accessToken, setAccessToken] = useState(endpoint?.accessToken ?? null)
+  const [visible, setVisible] = useState(false)
+  const [isPending, setIsPending] = useState(false)
+  const [confirmAction, setConfirmAction] = useState<"rotate" | "revoke" | null>(null)
+  const { toast } = useToast()
+
+  async function run(action: "rotate" | "revoke") {
+    if (!endpoint) return
+    try {
+      setIsPending(true)
+      const updated = action === "rotate"
+        ? await rotateEndpointToken(endpoint.id)
+        : await revokeEndpointToken(endpoint.id)
+      setAccessToken(updated.accessToken)
+      toast({ description: action === "rotate" ? "访问令牌已生成" : "访问令牌已撤销" })
+      onChange?.()
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        description: error instanceof Error ? error.message : "操作失败",
+      })
+    } finally {
+      setIsPending(false)
+      setConfirmAction(null)
+    }
+  }
+
+  async function handleCopy() {
+    if (!accessToken) return
+    await navigator.clipboard.writeText(accessToken)
+    toast({ description: "已复制到剪贴板" })
+  }
+
+  return (
+    <div className="space-y-3 rounded-lg border p-4">
+      <div>
+        <Label>访问令牌</Label>
+        <p className="text-xs text-muted-foreground mt-1">
+          {!endpoint
+            ? "保存接口后可生成访问令牌"
+            : accessToken
+              ? "推送时需通过 Authorization: Bearer、?token= 或 HMAC 签名携带令牌"
+              : "未设置访问令牌，任何知道接口地址的人都可以推送"}
+        </p>
+      </div>
+
+      {accessToken && (
+        <div className="flex gap-2">
+          <Input
+            readOnly
+            type={visible ? "text" : "password"}
+            value={accessToken}
+            className="font-mono"
+          />
+          <Button type="button" variant="outline" size="icon" onClick={() => setVisible(!visible)}>
+            {visible ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+          </Button>
+          <Button type="button" variant="outline" size="icon" onClick={handleCopy}>
+            <Copy className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+
+      {endpoint && (
+        <div className="flex gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            disabled={isPending}
+            onClick={() => accessToken ? setConfirmAction("rotate") : run("rotate")}
+          >
+            {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {accessToken ? "轮换令牌" : "生成令牌"}
+          </Button>
+          {accessToken && (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              disabled={isPending}
+              onClick={() => setConfirmAction("revoke")}
+            >
+              撤销令牌
+            </Button>
+          )}
+        </div>
+      )}
+
+      <AlertDialog open={!!confirmAction} onOpenChange={(open) => !open && setConfirmAction(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {confirmAction === "rotate" ? "确认轮换令牌" : "确认撤销令牌"}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {confirmAction === "rotate"
+                ? "轮换后旧令牌立即失效，请及时更新调用方的配置。"
+                : "撤销后该接口无需认证即可推送。"}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>取消</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={isPending}
+              onClick={() => confirmAction && run(confirmAction)}
+            >
+              确认
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -4,7 +4,7 @@ import { useState } from "react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs"
 import { Channel } from "@/lib/channels"
-import { Endpoint } from "@/lib/db/schema/endpoints"
+import { EndpointWithExtraChannels } from "@/lib/db/schema/endpoints"
 import { EndpointGroupWithEndpoints } from "@/types/endpoint-group"
 import { getEndpointGroups } from "@/lib/services/endpoint-groups"
 import { getEndpoints } from "@/lib/services/endpoints"
@@ -12,8 +12,8 @@ import { useToast } from "@/components/ui/use-toast"
 import { EndpointTable } from "@/components/endpoint-table"
 import { EndpointGroupTable } from "@/components/endpoint-group-table"
 
-export function EndpointsTabs({ initialEndpoints, channels }: { initialEndpoints: Endpoint[], channels: Channel[] }) {
-  const [endpoints, setEndpoints] = useState<Endpoint[]>(initialEndpoints)
+export function EndpointsTabs({ initialEndpoints, channels }: { initialEndpoints: EndpointWithExtraChannels[], channels: Channel[] }) {
+  const [endpoints, setEndpoints] = useState<EndpointWithExtraChannels[]>(initialEndpoints)
   const [groups, setGroups] = useState<EndpointGroupWithEndpoints[]>([])
   const [loading, setLoading] = useState(false)
   const [activeTab, setActiveTab] = useState("endpoints")
@@ -38,7 +38,7 @@ export function EndpointsTabs({ initialEndpoints, channels }: { initialEndpoints
   const loadEndpoints = async () => {
     try {
       setLoading(true)
-      const data = await getEndpoints() as Endpoint[]
+      const data = await getEndpoints() as EndpointWithExtraChannels[]
       setEndpoints(data)
     } catch (error) {
       console.error('加载接口失败:', error)
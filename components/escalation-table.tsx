@@ -0,0 +1,191 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { CheckCircle2, BellRing, Loader2 } from "lucide-react"
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { useToast } from "@/components/ui/use-toast"
+import { Escalation, ESCALATION_STATUS, EscalationEvent, EscalationStatus } from "@/lib/db/schema/escalations"
+import { ackEscalation } from "@/lib/services/escalations"
+
+type EscalationWithEndpoint = Escalation & { endpoint: { name: string } | null }
+
+interface EscalationTableProps {
+  escalations: EscalationWithEndpoint[]
+}
+
+const STATUS_LABELS: Record<EscalationStatus, string> = {
+  [ESCALATION_STATUS.ACTIVE]: "等待确认",
+  [ESCALATION_STATUS.ACKNOWLEDGED]: "已确认",
+  [ESCALATION_STATUS.EXHAUSTED]: "已通知全部步骤",
+}
+
+function formatTime(timestamp: number | null) {
+  if (!timestamp) return "-"
+  return new Date(timestamp).toLocaleString("zh-CN")
+}
+
+function parseTimeline(timeline: string): EscalationEvent[] {
+  try {
+    return JSON.parse(timeline)
+  } catch {
+    return []
+  }
+}
+
+function getStatusBadgeClass(status: string) {
+  switch (status) {
+    case ESCALATION_STATUS.ACKNOWLEDGED:
+      return "inline-flex items-center rounded-full bg-green-50 px-2 py-1 text-xs font-medium text-green-700 ring-1 ring-inset ring-green-600/20"
+    case ESCALATION_STATUS.EXHAUSTED:
+      return "inline-flex items-center rounded-full bg-red-50 px-2 py-1 text-xs font-medium text-red-700 ring-1 ring-inset ring-red-600/10"
+    default:
+      return "inline-flex items-center rounded-full bg-yellow-50 px-2 py-1 text-xs font-medium text-yellow-800 ring-1 ring-inset ring-yellow-600/20"
+  }
+}
+
+function EscalationTimeline({ events }: { events: EscalationEvent[] }) {
+  return (
+    <ol className="relative space-y-4 border-l pl-6">
+      {events.map((event, index) => (
+        <li key={index}>
+          <span className="absolute -left-2.5 flex h-5 w-5 items-center justify-center rounded-full bg-background">
+            {event.type === "ack"
+              ? <CheckCircle2 className="h-4 w-4 text-green-600" />
+              : <BellRing className="h-4 w-4 text-muted-foreground" />}
+          </span>
+          <p className="text-sm font-medium">
+            {event.type === "ack"
+              ? `${event.by ?? ""} 确认`
+              : event.step === 0
+                ? `通知 ${event.channelName ?? ""}`
+                : `升级 ${event.step}：通知 ${event.channelName ?? ""}`}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {formatTime(event.at)}
+            {event.messageId && <span className="ml-2 font-mono">{event.messageId}</span>}
+          </p>
+        </li>
+      ))}
+    </ol>
+  )
+}
+
+export function EscalationTable({ escalations }: EscalationTableProps) {
+  const [selected, setSelected] = useState<EscalationWithEndpoint | null>(null)
+  const [isLoading, setIsLoading] = useState<string | null>(null)
+  const { toast } = useToast()
+  const router = useRouter()
+
+  const handleAck = async (escalation: Escalation) => {
+    try {
+      setIsLoading(escalation.id)
+      await ackEscalation(escalation.id)
+      toast({ description: "告警已确认，已停止升级通知" })
+      router.refresh()
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        description: error instanceof Error ? error.message : "操作失败",
+      })
+    } finally {
+      setIsLoading(null)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>推送接口</TableHead>
+              <TableHead>状态</TableHead>
+              <TableHead>已升级</TableHead>
+              <TableHead>下次升级</TableHead>
+              <TableHead>确认</TableHead>
+              <TableHead>创建时间</TableHead>
+              <TableHead className="w-[160px]">操作</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {escalations.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="h-24 text-center text-muted-foreground">
+                  暂无升级记录
+                </TableCell>
+              </TableRow>
+            ) : (
+              escalations.map((escalation) => (
+                <TableRow key={escalation.id}>
+                  <TableCell>{escalation.endpoint?.name ?? escalation.endpointId}</TableCell>
+                  <TableCell>
+                    <span className={getStatusBadgeClass(escalation.status)}>
+                      {STATUS_LABELS[escalation.status as EscalationStatus] ?? escalation.status}
+                    </span>
+                  </TableCell>
+                  <TableCell>{escalation.step} 步</TableCell>
+                  <TableCell>
+                    {escalation.status === ESCALATION_STATUS.ACTIVE ? formatTime(escalation.nextStepAt) : "-"}
+                  </TableCell>
+                  <TableCell>
+                    {escalation.ackedAt ? (
+                      <>
+                        {formatTime(escalation.ackedAt)}
+                        <span className="ml-2 text-xs text-muted-foreground">{escalation.ackedBy}</span>
+                      </>
+                    ) : "-"}
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">{escalation.createdAt}</TableCell>
+                  <TableCell className="space-x-2">
+                    <Button variant="ghost" size="sm" onClick={() => setSelected(escalation)}>
+                      时间线
+                    </Button>
+                    {escalation.status !== ESCALATION_STATUS.ACKNOWLEDGED && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={isLoading === escalation.id}
+                        onClick={() => handleAck(escalation)}
+                      >
+                        {isLoading === escalation.id && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        确认
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>升级时间线</DialogTitle>
+            <DialogDescription>
+              {selected?.endpoint?.name}
+            </DialogDescription>
+          </DialogHeader>
+          {selected && <EscalationTimeline events={parseTimeline(selected.timeline)} />}
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -6,33 +6,47 @@ import {
   PopoverContent,
   PopoverTrigger,
 } from "@/components/ui/popover"
-import { Variable, FunctionSquare } from "lucide-react"
+import { Variable, FunctionSquare, Braces } from "lucide-react"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { TEMPLATE_FUNCTIONS } from "@/lib/template-functions"
 
 
 const VARIABLES = [
   { key: "body", description: "请求参数对象", example: "假如请求参数为 { title: '标题' }, 可以通过 ${body.title} 获取标题" },
+  { key: "query", description: "URL 查询参数 (不含 token)", example: "请求地址为 ...?env=prod 时，${query.env} 为 prod" },
+  { key: "headers", description: "请求头，名称为小写 (不含 Authorization、Cookie)", example: "${headers.x-github-event}" },
+  { key: "rawBody", description: "原始请求体文本", example: "${truncate(rawBody, 200)}" },
+  { key: "request", description: "请求信息：ip、method、receivedAt (ISO 8601)", example: "${request.ip} 于 ${request.receivedAt} 请求" },
+  { key: "endpoint", description: "当前接口：id、name", example: "[${endpoint.name}] ${body.title}" },
+  { key: "channel", description: "当前推送渠道：id、name、type", example: "通过 ${channel.name} 推送" },
+  { key: "ackUrl", description: "告警确认链接，仅在接口配置了升级步骤时可用", example: "[确认告警](${ackUrl})" },
+  { key: "vars", description: "在「变量」页面定义的自定义变量，也可写作 env", example: "${vars.ONCALL_MOBILES}" },
 ]
 
-const FUNCTIONS = [
+// 函数列表直接来自模版引擎的注册表，新增函数无需修改此处
+const FUNCTIONS = Object.entries(TEMPLATE_FUNCTIONS).map(([name, fn]) => ({
+  name,
+  description: fn.description,
+  example: fn.example,
+  args: fn.args,
+}))
+
+const SYNTAX = [
+  {
+    name: "管道过滤器",
+    description: "用 | 将前一步的结果作为下一个函数的第一个参数",
+    example: "${body.title | upper | truncate(40)}",
+  },
   {
-    name: "truncate",
-    description: "截断字符串,超过指定长度的部分用...替代",
-    example: "${truncate(body.content, 100)}",
-    args: [
-      { name: "str", description: "要截断的字符串" },
-      { name: "maxLength", description: "最大长度" }
-    ]
+    name: "条件判断",
+    description: "支持 == != > >= < <= && || !，字符串使用单引号",
+    example: "${#if body.status == 'firing'}🔴 告警${#elseif body.status == 'resolved'}🟢 恢复${else}通知${/if}",
   },
   {
-    name: "now",
-    description: "获取当前时间，支持自定义格式和时区",
-    example: "${now('YYYY-MM-DD HH:mm:ss', 8)}",
-    args: [
-      { name: "format", description: "时间格式，支持：YYYY(年)、MM(月)、DD(日)、HH(时)、mm(分)、ss(秒)，默认：YYYY-MM-DD HH:mm:ss" },
-      { name: "timezone", description: "时区设置，支持数字(如：8表示东八区,-5表示西五区)或时区名(如：Asia/Shanghai)，可选" }
-    ]
-  }
+    name: "循环",
+    description: "遍历数组，默认元素变量为 item、序号为 index，${else} 部分在数组为空时输出",
+    example: "${#each body.alerts as alert, i}${i}. ${alert.name}；${else}无告警${/each}",
+  },
 ]
 
 interface FunctionSelectorProps {
@@ -63,6 +77,10 @@ export function FunctionSelector({ onSelect }: FunctionSelectorProps) {
               <FunctionSquare className="h-4 w-4 mr-1" />
               函数
             </TabsTrigger>
+            <TabsTrigger value="syntax" className="flex-1">
+              <Braces className="h-4 w-4 mr-1" />
+              语法
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="variables" className="mt-2">
@@ -131,6 +149,33 @@ export function FunctionSelector({ onSelect }: FunctionSelectorProps) {
               </div>
             </div>
           </TabsContent>
+
+          <TabsContent value="syntax" className="mt-2">
+            <div className="space-y-2">
+              <h4 className="font-medium">模版语法：</h4>
+              <div className="grid gap-2 max-h-[400px] overflow-y-auto pr-1">
+                {SYNTAX.map((item) => (
+                  <Button
+                    key={item.name}
+                    variant="outline"
+                    size="sm"
+                    className="flex flex-col items-start p-3 h-auto w-full text-left"
+                    onClick={() => onSelect(item.example)}
+                  >
+                    <div className="flex items-start gap-2 w-full">
+                      <span className="font-medium">{item.name}</span>
+                      <span className="text-muted-foreground text-sm flex-1 whitespace-normal">
+                        {item.description}
+                      </span>
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-1 font-normal break-all whitespace-pre-wrap font-mono">
+                      {item.example}
+                    </p>
+                  </Button>
+                ))}
+              </div>
+            </div>
+          </TabsContent>
         </Tabs>
       </PopoverContent>
     </Popover>
@@ -0,0 +1,390 @@
+"use client"
+
+import { Fragment, useCallback, useEffect, useState } from "react"
+import { ChevronDown, ChevronRight, Loader2, RefreshCw } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { useToast } from "@/components/ui/use-toast"
+import { Channel } from "@/lib/channels"
+import { Endpoint } from "@/lib/db/schema/endpoints"
+import { PushLog, PushLogStatus, PUSH_LOG_STATUS } from "@/lib/db/schema/push-logs"
+import {
+  getPushLogs,
+  getPushLogStats,
+  PushLogFilters,
+  PushLogStats,
+  PushLogWithChildren,
+} from "@/lib/services/push-logs"
+import { DeliveryAttempt, RETRY_CATEGORY_LABELS } from "@/lib/channels/retry"
+
+interface PushLogTableProps {
+  endpoints: Endpoint[]
+  channels: Channel[]
+}
+
+const ALL = "all"
+
+const STATUS_LABELS: Record<PushLogStatus, string> = {
+  [PUSH_LOG_STATUS.PENDING]: "处理中",
+  [PUSH_LOG_STATUS.SUCCESS]: "成功",
+  [PUSH_LOG_STATUS.FAILED]: "失败",
+  [PUSH_LOG_STATUS.SKIPPED]: "已跳过",
+}
+
+const STATUS_COLORS: Record<PushLogStatus, string> = {
+  [PUSH_LOG_STATUS.PENDING]: "bg-yellow-50 text-yellow-700 ring-yellow-600/20",
+  [PUSH_LOG_STATUS.SUCCESS]: "bg-green-50 text-green-700 ring-green-600/20",
+  [PUSH_LOG_STATUS.FAILED]: "bg-red-50 text-red-700 ring-red-600/20",
+  [PUSH_LOG_STATUS.SKIPPED]: "bg-gray-50 text-gray-600 ring-gray-500/20",
+}
+
+function formatJson(value: string | null) {
+  if (!value) return "-"
+  try {
+    return JSON.stringify(JSON.parse(value), null, 2)
+  } catch {
+    return value
+  }
+}
+
+function parseAttempts(value: string | null): DeliveryAttempt[] {
+  if (!value) return []
+  try {
+    return JSON.parse(value) as DeliveryAttempt[]
+  } catch {
+    return []
+  }
+}
+
+// created_at 为 SQLite CURRENT_TIMESTAMP 格式的 UTC 时间，筛选的本地日期换算为相同格式的 UTC 时间再比较
+function toUtcTimestamp(date: string, time: string) {
+  return new Date(`${date}T${time}`).toISOString().slice(0, 19).replace("T", " ")
+}
+
+export function PushLogTable({ endpoints, channels }: PushLogTableProps) {
+  const [logs, setLogs] = useState<PushLogWithChildren[]>([])
+  const [hasMore, setHasMore] = useState(false)
+  const [stats, setStats] = useState<PushLogStats | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [filters, setFilters] = useState<PushLogFilters>({ page: 1 })
+  const [expanded, setExpanded] = useState<string[]>([])
+  const [detail, setDetail] = useState<PushLog | null>(null)
+  const { toast } = useToast()
+
+  const loadLogs = useCallback(async () => {
+    try {
+      setLoading(true)
+      const from = filters.from ? toUtcTimestamp(filters.from, "00:00:00") : undefined
+      const to = filters.to ? toUtcTimestamp(filters.to, "23:59:59") : undefined
+      const [data, statsData] = await Promise.all([
+        getPushLogs({ ...filters, from, to }),
+        getPushLogStats({
+          endpointId: filters.endpointId,
+          channelId: filters.channelId,
+          from,
+          to,
+        }),
+      ])
+      setLogs(data.items)
+      setHasMore(data.hasMore)
+      setStats(statsData)
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        description: error instanceof Error ? error.message : "获取推送日志失败",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [filters, toast])
+
+  useEffect(() => {
+    loadLogs()
+  }, [loadLogs])
+
+  const updateFilter = (key: keyof PushLogFilters, value?: string) => {
+    setFilters(prev => ({
+      ...prev,
+      [key]: value === ALL ? undefined : value,
+      page: 1,
+    }))
+  }
+
+  const toggleExpanded = (id: string) => {
+    setExpanded(prev => prev.includes(id) ? prev.filter(v => v !== id) : [...prev, id])
+  }
+
+  const getTargetName = (log: PushLog) => {
+    if (log.endpointId) {
+      return endpoints.find(e => e.id === log.endpointId)?.name ?? log.endpointId
+    }
+    return log.groupId ? `接口组 ${log.groupId}` : "-"
+  }
+
+  const getChannelName = (log: PushLog) => {
+    if (!log.channelId) return "-"
+    return channels.find(c => c.id === log.channelId)?.name ?? log.channelId
+  }
+
+  // 接口组记录的子记录是接口，多渠道接口记录的子记录是渠道
+  const renderRows = (log: PushLogWithChildren, depth = 0): React.ReactNode => (
+    <Fragment key={log.id}>
+      {renderRow(log, { depth, childCount: log.children.length })}
+      {expanded.includes(log.id) && log.children.map(child => renderRows(child, depth + 1))}
+    </Fragment>
+  )
+
+  const renderRow = (log: PushLog, options: { depth?: number, childCount?: number } = {}) => (
+    <TableRow
+      key={log.id}
+      className={options.depth ? "bg-muted/30 cursor-pointer" : "cursor-pointer"}
+      onClick={() => setDetail(log)}
+    >
+      <TableCell className="w-[40px]">
+        {options.childCount ? (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 w-6 p-0"
+            onClick={(e) => {
+              e.stopPropagation()
+              toggleExpanded(log.id)
+            }}
+          >
+            {expanded.includes(log.id) ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+          </Button>
+        ) : null}
+      </TableCell>
+      <TableCell className="whitespace-nowrap">{log.createdAt}</TableCell>
+      <TableCell style={options.depth ? { paddingLeft: `${options.depth * 1.5}rem` } : undefined}>
+        {getTargetName(log)}
+        {options.childCount ? (
+          <span className="ml-2 text-xs text-muted-foreground">
+            ({options.childCount} 个{log.endpointId ? "渠道" : "接口"})
+          </span>
+        ) : null}
+      </TableCell>
+      <TableCell>{getChannelName(log)}</TableCell>
+      <TableCell>
+        <span className={`inline-flex items-center rounded-full px-2 py-1 text-xs font-medium ring-1 ring-inset ${STATUS_COLORS[log.status as PushLogStatus]}`}>
+          {STATUS_LABELS[log.status as PushLogStatus]}
+        </span>
+      </TableCell>
+      <TableCell>{log.responseStatus ?? "-"}</TableCell>
+      <TableCell>{log.latency !== null ? `${log.latency} ms` : "-"}</TableCell>
+      <TableCell className={`max-w-[240px] truncate ${log.status === PUSH_LOG_STATUS.SKIPPED ? "text-muted-foreground" : "text-red-600"}`}>
+        {log.error ?? ""}
+      </TableCell>
+    </TableRow>
+  )
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={filters.endpointId ?? ALL} onValueChange={(v) => updateFilter("endpointId", v)}>
+          <SelectTrigger className="h-9 w-[180px]">
+            <SelectValue placeholder="全部接口" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>全部接口</SelectItem>
+            {endpoints.map(endpoint => (
+              <SelectItem key={endpoint.id} value={endpoint.id}>{endpoint.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={filters.channelId ?? ALL} onValueChange={(v) => updateFilter("channelId", v)}>
+          <SelectTrigger className="h-9 w-[180px]">
+            <SelectValue placeholder="全部渠道" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>全部渠道</SelectItem>
+            {channels.map(channel => (
+              <SelectItem key={channel.id} value={channel.id}>{channel.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={filters.status ?? ALL} onValueChange={(v) => updateFilter("status", v)}>
+          <SelectTrigger className="h-9 w-[120px]">
+            <SelectValue placeholder="全部状态" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>全部状态</SelectItem>
+            {Object.entries(STATUS_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          type="date"
+          className="h-9 w-[160px]"
+          value={filters.from ?? ""}
+          onChange={(e) => updateFilter("from", e.target.value || undefined)}
+        />
+        <span className="text-muted-foreground">至</span>
+        <Input
+          type="date"
+          className="h-9 w-[160px]"
+          value={filters.to ?? ""}
+          onChange={(e) => updateFilter("to", e.target.value || undefined)}
+        />
+        <Button variant="outline" size="sm" className="gap-2" onClick={loadLogs} disabled={loading}>
+          {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+          刷新
+        </Button>
+      </div>
+
+      {stats && (
+        <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+          <span>共 <span className="font-medium text-foreground">{stats.total}</span> 次推送</span>
+          {Object.entries(STATUS_LABELS).map(([status, label]) => (
+            <span key={status}>
+              {label} <span className="font-medium text-foreground">{stats[status as PushLogStatus]}</span>
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-[40px]"></TableHead>
+              <TableHead>时间 (UTC)</TableHead>
+              <TableHead>接口</TableHead>
+              <TableHead>渠道</TableHead>
+              <TableHead>状态</TableHead>
+              <TableHead>响应码</TableHead>
+              <TableHead>耗时</TableHead>
+              <TableHead>错误信息</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {logs.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={8} className="h-24 text-center text-muted-foreground">
+                  {loading ? "加载中..." : "暂无推送记录"}
+                </TableCell>
+              </TableRow>
+            ) : (
+              logs.map(log => renderRows(log))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="flex items-center justify-end gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={loading || (filters.page ?? 1) <= 1}
+          onClick={() => setFilters(prev => ({ ...prev, page: (prev.page ?? 1) - 1 }))}
+        >
+          上一页
+        </Button>
+        <span className="text-sm text-muted-foreground">第 {filters.page ?? 1} 页</span>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={loading || !hasMore}
+          onClick={() => setFilters(prev => ({ ...prev, page: (prev.page ?? 1) + 1 }))}
+        >
+          下一页
+        </Button>
+      </div>
+
+      <Dialog open={!!detail} onOpenChange={(open) => !open && setDetail(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>推送详情</DialogTitle>
+            <DialogDescription>
+              {detail?.createdAt} · {detail && getTargetName(detail)}
+            </DialogDescription>
+          </DialogHeader>
+          {detail && (
+            <div className="max-h-[60vh] space-y-4 overflow-y-auto">
+              {detail.error && detail.status === PUSH_LOG_STATUS.SKIPPED && (
+                <div>
+                  <h4 className="mb-1 text-sm font-medium">跳过原因</h4>
+                  <pre className="whitespace-pre-wrap break-all rounded-md bg-muted p-2 font-mono text-sm">
+                    {detail.error}
+                  </pre>
+                </div>
+              )}
+              {detail.error && detail.status !== PUSH_LOG_STATUS.SKIPPED && (
+                <div>
+                  <h4 className="mb-1 text-sm font-medium">错误信息</h4>
+                  <pre className="whitespace-pre-wrap break-all rounded-md bg-red-50 p-2 font-mono text-sm text-red-700">
+                    {detail.error}
+                  </pre>
+                </div>
+              )}
+              {parseAttempts(detail.attempts).length > 0 && (
+                <div>
+                  <h4 className="mb-1 text-sm font-medium">发送尝试</h4>
+                  <div className="space-y-1 rounded-md bg-muted p-2 font-mono text-xs">
+                    {parseAttempts(detail.attempts).map((attempt, i) => (
+                      <div key={i}>
+                        {attempt.part && `第 ${attempt.part} 段 `}#{attempt.attempt} {attempt.startedAt} · {attempt.latency} ms
+                        {attempt.channelId && ` · ${channels.find(c => c.id === attempt.channelId)?.name ?? attempt.channelId}`}
+                        {attempt.status !== undefined && ` · HTTP ${attempt.status}`}
+                        {attempt.code !== undefined && ` · errcode ${attempt.code}`}
+                        {attempt.error ? (
+                          <span className="text-red-600">
+                            {" · "}{attempt.error}
+                            {attempt.category && ` (${RETRY_CATEGORY_LABELS[attempt.category]})`}
+                          </span>
+                        ) : (
+                          <span className="text-green-700"> · 成功</span>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+              <div>
+                <h4 className="mb-1 text-sm font-medium">请求参数</h4>
+                <pre className="whitespace-pre-wrap break-all rounded-md bg-muted p-2 font-mono text-sm">
+                  {formatJson(detail.requestBody)}
+                </pre>
+              </div>
+              <div>
+                <h4 className="mb-1 text-sm font-medium">渲染后的消息</h4>
+                <pre className="whitespace-pre-wrap break-all rounded-md bg-muted p-2 font-mono text-sm">
+                  {formatJson(detail.message)}
+                </pre>
+              </div>
+              <div>
+                <h4 className="mb-1 text-sm font-medium">渠道响应 {detail.responseStatus ?? ""}</h4>
+                <pre className="whitespace-pre-wrap break-all rounded-md bg-muted p-2 font-mono text-sm">
+                  {formatJson(detail.responseBody)}
+                </pre>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,120 @@
+"use client"
+
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  DEFAULT_QUIET_HOURS,
+  QUIET_HOURS_ACTION_LABELS,
+  QuietHours,
+  QuietHoursAction,
+} from "@/lib/quiet-hours"
+
+interface QuietHoursFieldsProps {
+  value?: string | null
+  onChange: (value: string | null) => void
+  // 未开启时的说明，接口上未开启时继承渠道的配置
+  inheritLabel?: string
+}
+
+function parseConfig(value?: string | null): QuietHours {
+  if (!value) return DEFAULT_QUIET_HOURS
+  try {
+    return { ...DEFAULT_QUIET_HOURS, ...JSON.parse(value) }
+  } catch {
+    return DEFAULT_QUIET_HOURS
+  }
+}
+
+export function QuietHoursFields({ value, onChange, inheritLabel = "不限制推送时间" }: QuietHoursFieldsProps) {
+  const enabled = !!value
+  const config = parseConfig(value)
+
+  const update = (patch: Partial<QuietHours>) => {
+    onChange(JSON.stringify({ ...config, ...patch }))
+  }
+
+  return (
+    <div className="space-y-3 rounded-lg border p-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <Label>免打扰时段</Label>
+          <p className="text-xs text-muted-foreground mt-1">
+            {enabled ? "时段内的消息按设置暂缓、静默推送或丢弃" : inheritLabel}
+          </p>
+        </div>
+        <Switch
+          checked={enabled}
+          onCheckedChange={(checked) => onChange(checked ? JSON.stringify(DEFAULT_QUIET_HOURS) : null)}
+        />
+      </div>
+
+      {enabled && (
+        <>
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <Label className="text-xs">开始时间</Label>
+              <Input
+                type="time"
+                value={config.start}
+                onChange={(e) => update({ start: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">结束时间</Label>
+              <Input
+                type="time"
+                value={config.end}
+                onChange={(e) => update({ end: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">时区</Label>
+              <Input
+                value={config.timezone}
+                onChange={(e) => update({ timezone: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <Label className="text-xs">时段内的消息</Label>
+              <Select
+                value={config.action}
+                onValueChange={(action) => update({ action: action as QuietHoursAction })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(QUIET_HOURS_ACTION_LABELS).map(([action, label]) => (
+                    <SelectItem key={action} value={action}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="col-span-2 space-y-1">
+              <Label className="text-xs">放行条件</Label>
+              <Input
+                className="font-mono"
+                placeholder="body.level == 'critical'"
+                value={config.bypass ?? ""}
+                onChange={(e) => update({ bypass: e.target.value })}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            开始时间晚于结束时间时跨越午夜；满足放行条件的消息照常推送
+          </p>
+        </>
+      )}
+    </div>
+  )
+}
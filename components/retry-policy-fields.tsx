@@ -0,0 +1,111 @@
+"use client"
+
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  RECOMMENDED_RETRY_POLICY,
+  RETRY_CATEGORY_LABELS,
+  RetryCategory,
+  RetryPolicy,
+} from "@/lib/channels/retry"
+
+interface RetryPolicyFieldsProps {
+  value?: string | null
+  onChange: (value: string | null) => void
+  // 关闭自定义时的提示文案，如 "继承渠道配置"
+  inheritLabel: string
+}
+
+function parsePolicy(value?: string | null): RetryPolicy {
+  if (!value) return RECOMMENDED_RETRY_POLICY
+  try {
+    return { ...RECOMMENDED_RETRY_POLICY, ...JSON.parse(value) }
+  } catch {
+    return RECOMMENDED_RETRY_POLICY
+  }
+}
+
+export function RetryPolicyFields({ value, onChange, inheritLabel }: RetryPolicyFieldsProps) {
+  const enabled = !!value
+  const policy = parsePolicy(value)
+
+  const update = (patch: Partial<RetryPolicy>) => {
+    onChange(JSON.stringify({ ...policy, ...patch }))
+  }
+
+  const toggleCategory = (category: RetryCategory, checked: boolean) => {
+    update({
+      retryOn: checked
+        ? [...policy.retryOn, category]
+        : policy.retryOn.filter(c => c !== category),
+    })
+  }
+
+  return (
+    <div className="space-y-3 rounded-lg border p-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <Label>自定义重试策略</Label>
+          <p className="text-xs text-muted-foreground mt-1">
+            {enabled ? "推送失败时按以下策略重试" : inheritLabel}
+          </p>
+        </div>
+        <Switch
+          checked={enabled}
+          onCheckedChange={(checked) => onChange(checked ? JSON.stringify(RECOMMENDED_RETRY_POLICY) : null)}
+        />
+      </div>
+
+      {enabled && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <Label className="text-xs">最大尝试次数</Label>
+              <Input
+                type="number"
+                min={1}
+                max={5}
+                value={policy.maxAttempts}
+                onChange={(e) => update({ maxAttempts: Number(e.target.value) })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">首次重试间隔 (ms)</Label>
+              <Input
+                type="number"
+                min={0}
+                value={policy.initialDelay}
+                onChange={(e) => update({ initialDelay: Number(e.target.value) })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">退避倍数</Label>
+              <Input
+                type="number"
+                min={1}
+                step={0.5}
+                value={policy.backoffFactor}
+                onChange={(e) => update({ backoffFactor: Number(e.target.value) })}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label className="text-xs">重试以下错误</Label>
+            {(Object.entries(RETRY_CATEGORY_LABELS) as [RetryCategory, string][]).map(([category, label]) => (
+              <div key={category} className="flex items-center gap-2">
+                <Checkbox
+                  id={`retry-${category}`}
+                  checked={policy.retryOn.includes(category)}
+                  onCheckedChange={(checked) => toggleCategory(category, !!checked)}
+                />
+                <Label htmlFor={`retry-${category}`} className="text-sm font-normal">{label}</Label>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
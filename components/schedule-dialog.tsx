@@ -0,0 +1,281 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form"
+import { Plus, Loader2 } from "lucide-react"
+import { useState } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { insertScheduleSchema, NewSchedule, Schedule } from "@/lib/db/schema/schedules"
+import { Endpoint } from "@/lib/db/schema/endpoints"
+import { useToast } from "@/components/ui/use-toast"
+import { DropdownMenuItem } from "@/components/ui/dropdown-menu"
+import { useRouter } from "next/navigation"
+import { createSchedule, updateSchedule } from "@/lib/services/schedules"
+import { DEFAULT_TIMEZONE, getNextRunTime, validateCron } from "@/lib/cron"
+import { generateExampleBody } from "@/lib/generator"
+
+interface ScheduleDialogProps {
+  mode?: "create" | "edit"
+  schedule?: Schedule
+  endpoints: Endpoint[]
+}
+
+const CRON_PRESETS = [
+  { label: "每天 9:00", value: "0 9 * * *" },
+  { label: "工作日 9:30", value: "30 9 * * 1-5" },
+  { label: "每周一 10:00", value: "0 10 * * 1" },
+  { label: "每月 1 日 9:00", value: "0 9 1 * *" },
+  { label: "每小时", value: "0 * * * *" },
+]
+
+// 预览接下来的执行时间，表达式或时区不合法时返回空列表
+function previewRunTimes(cron: string, timezone: string, count = 3): string[] {
+  if (!cron || validateCron(cron)) return []
+  try {
+    const times: string[] = []
+    let after = Date.now()
+    for (let i = 0; i < count; i++) {
+      after = getNextRunTime(cron, timezone, after)
+      times.push(new Date(after).toLocaleString("zh-CN", { timeZone: timezone }))
+    }
+    return times
+  } catch {
+    return []
+  }
+}
+
+export function ScheduleDialog({ mode = "create", schedule, endpoints }: ScheduleDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [isPending, setIsPending] = useState(false)
+  const { toast } = useToast()
+  const router = useRouter()
+
+  const form = useForm<NewSchedule>({
+    resolver: zodResolver(insertScheduleSchema),
+    defaultValues: {
+      name: schedule?.name ?? "",
+      endpointId: schedule?.endpointId ?? "",
+      cron: schedule?.cron ?? "0 9 * * *",
+      timezone: schedule?.timezone ?? DEFAULT_TIMEZONE,
+      body: schedule?.body ?? "",
+    },
+  })
+
+  const [cron, timezone] = form.watch(["cron", "timezone"])
+  const runTimes = previewRunTimes(cron ?? "", timezone)
+
+  async function onSubmit(data: NewSchedule) {
+    try {
+      setIsPending(true)
+      if (mode === "edit" && schedule) {
+        await updateSchedule(schedule.id, data)
+        toast({ description: "定时推送已更新" })
+      } else {
+        await createSchedule(data)
+        toast({ description: "定时推送已创建" })
+      }
+      setOpen(false)
+      form.reset()
+      router.refresh()
+    } catch (error) {
+      console.error('Schedule dialog error:', error)
+      toast({
+        variant: "destructive",
+        description: mode === "edit" ? "更新失败，请重试" : "创建失败，请重试"
+      })
+    } finally {
+      setIsPending(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        {mode === "edit" ? (
+          <DropdownMenuItem onSelect={(e) => e.preventDefault()}>
+            编辑
+          </DropdownMenuItem>
+        ) : (
+          <Button size="sm" className="gap-2">
+            <Plus className="h-4 w-4" />
+            添加定时推送
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>
+            {mode === "edit" ? "编辑定时推送" : "新建定时推送"}
+          </DialogTitle>
+          <DialogDescription>
+            按 cron 表达式定时调用推送接口，请求体与直接调用接口时相同
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="grid gap-4 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>
+                      名称
+                      <span className="text-red-500 ml-1">*</span>
+                    </FormLabel>
+                    <FormControl>
+                      <Input placeholder="如：每日站会提醒" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="endpointId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>
+                      推送接口
+                      <span className="text-red-500 ml-1">*</span>
+                    </FormLabel>
+                    <Select
+                      onValueChange={(value) => {
+                        field.onChange(value)
+                        const endpoint = endpoints.find(e => e.id === value)
+                        if (endpoint && !form.getValues("body")) {
+                          form.setValue("body", JSON.stringify(generateExampleBody(endpoint.rule, endpoint.bodySchema), null, 2))
+                        }
+                      }}
+                      value={field.value}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="选择推送接口" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {endpoints.map((endpoint) => (
+                          <SelectItem key={endpoint.id} value={endpoint.id}>
+                            {endpoint.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="cron"
+                render={({ field }) => (
+                  <FormItem className="col-span-2">
+                    <FormLabel>
+                      cron 表达式
+                      <span className="text-red-500 ml-1">*</span>
+                    </FormLabel>
+                    <div className="flex gap-2">
+                      <FormControl>
+                        <Input className="font-mono" placeholder="分 时 日 月 周" {...field} value={field.value ?? ""} />
+                      </FormControl>
+                      <Select onValueChange={field.onChange}>
+                        <SelectTrigger className="w-[120px]">
+                          <SelectValue placeholder="常用" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {CRON_PRESETS.map((preset) => (
+                            <SelectItem key={preset.value} value={preset.value}>
+                              {preset.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="timezone"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>时区</FormLabel>
+                    <FormControl>
+                      <Input placeholder={DEFAULT_TIMEZONE} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            {runTimes.length > 0 && (
+              <p className="text-xs text-muted-foreground -mt-2">
+                接下来的执行时间：{runTimes.join("、")}
+              </p>
+            )}
+            <FormField
+              control={form.control}
+              name="body"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>
+                    请求体
+                    <span className="text-red-500 ml-1">*</span>
+                  </FormLabel>
+                  <FormControl>
+                    <Textarea className="font-mono resize-none h-40" placeholder='{"title": "站会提醒"}' {...field} />
+                  </FormControl>
+                  <FormDescription className="text-xs">
+                    JSON 格式，推送时作为模版中的 body
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setOpen(false)} type="button">
+                取消
+              </Button>
+              <Button type="submit" disabled={isPending}>
+                {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                提交
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,213 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { MoreHorizontal, Loader2 } from "lucide-react"
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { useToast } from "@/components/ui/use-toast"
+import { ScheduleDialog } from "@/components/schedule-dialog"
+import { Schedule } from "@/lib/db/schema/schedules"
+import { Endpoint } from "@/lib/db/schema/endpoints"
+import { deleteSchedule, updateSchedule } from "@/lib/services/schedules"
+
+interface ScheduleTableProps {
+  schedules: Schedule[]
+  endpoints: Endpoint[]
+}
+
+function formatTime(timestamp: number | null, timezone: string) {
+  if (!timestamp) return "-"
+  return new Date(timestamp).toLocaleString("zh-CN", { timeZone: timezone })
+}
+
+export function ScheduleTable({ schedules, endpoints }: ScheduleTableProps) {
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false)
+  const [scheduleToDelete, setScheduleToDelete] = useState<Schedule | null>(null)
+  const [isDeleting, setIsDeleting] = useState(false)
+  const [isLoading, setIsLoading] = useState<string | null>(null)
+  const { toast } = useToast()
+  const router = useRouter()
+
+  const getEndpointName = (endpointId: string) => {
+    return endpoints.find(e => e.id === endpointId)?.name ?? endpointId
+  }
+
+  const handleDelete = async () => {
+    if (!scheduleToDelete) return
+
+    try {
+      setIsDeleting(true)
+      await deleteSchedule(scheduleToDelete.id)
+      toast({ description: scheduleToDelete.cron ? "定时推送已删除" : "定时推送已取消" })
+      router.refresh()
+      setDeleteDialogOpen(false)
+    } catch (error) {
+      console.error('Error deleting schedule:', error)
+      toast({
+        variant: "destructive",
+        description: "删除失败，请重试"
+      })
+    } finally {
+      setIsDeleting(false)
+    }
+  }
+
+  const handleToggleStatus = async (schedule: Schedule) => {
+    try {
+      setIsLoading(schedule.id)
+      await updateSchedule(schedule.id, {
+        status: schedule.status === "active" ? "inactive" : "active",
+      })
+      toast({ description: "定时推送状态已更新" })
+      router.refresh()
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        description: error instanceof Error ? error.message : "操作失败",
+      })
+    } finally {
+      setIsLoading(null)
+    }
+  }
+
+  const getStatusBadgeClass = (status: Schedule["status"]) => {
+    return status === "active"
+      ? "inline-flex items-center rounded-full bg-green-50 px-2 py-1 text-xs font-medium text-green-700 ring-1 ring-inset ring-green-600/20"
+      : "inline-flex items-center rounded-full bg-gray-50 px-2 py-1 text-xs font-medium text-gray-600 ring-1 ring-inset ring-gray-500/10"
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <ScheduleDialog endpoints={endpoints} />
+      </div>
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>名称</TableHead>
+              <TableHead>推送接口</TableHead>
+              <TableHead>执行时间</TableHead>
+              <TableHead>下次推送</TableHead>
+              <TableHead>上次推送</TableHead>
+              <TableHead>状态</TableHead>
+              <TableHead className="w-[80px]">操作</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {schedules.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="h-24 text-center text-muted-foreground">
+                  暂无定时推送
+                </TableCell>
+              </TableRow>
+            ) : (
+              schedules.map((schedule) => (
+                <TableRow key={schedule.id}>
+                  <TableCell>{schedule.name}</TableCell>
+                  <TableCell>{getEndpointName(schedule.endpointId)}</TableCell>
+                  <TableCell>
+                    {schedule.cron ? (
+                      <span className="font-mono text-sm">{schedule.cron}</span>
+                    ) : (
+                      <span className="text-muted-foreground">一次性</span>
+                    )}
+                    <span className="ml-2 text-xs text-muted-foreground">{schedule.timezone}</span>
+                  </TableCell>
+                  <TableCell>{formatTime(schedule.nextRunAt, schedule.timezone)}</TableCell>
+                  <TableCell>{formatTime(schedule.lastRunAt, schedule.timezone)}</TableCell>
+                  <TableCell>
+                    <span className={getStatusBadgeClass(schedule.status)}>
+                      {schedule.status === "active" ? "启用" : "暂停"}
+                    </span>
+                  </TableCell>
+                  <TableCell>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
+                          <MoreHorizontal className="h-4 w-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        {schedule.cron && (
+                          <>
+                            <ScheduleDialog
+                              mode="edit"
+                              schedule={schedule}
+                              endpoints={endpoints}
+                            />
+                            <DropdownMenuItem
+                              disabled={isLoading === schedule.id}
+                              onClick={() => handleToggleStatus(schedule)}
+                            >
+                              {schedule.status === "active" ? "暂停" : "启用"}
+                            </DropdownMenuItem>
+                          </>
+                        )}
+                        <DropdownMenuItem
+                          className="text-red-600"
+                          onClick={() => {
+                            setScheduleToDelete(schedule)
+                            setDeleteDialogOpen(true)
+                          }}
+                        >
+                          {schedule.cron ? "删除" : "取消推送"}
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>确认删除</AlertDialogTitle>
+            <AlertDialogDescription>
+              确定要删除定时推送 {scheduleToDelete?.name} 吗？此操作无法撤销。
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>取消</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={isDeleting}
+              onClick={handleDelete}
+            >
+              {isDeleting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              确认
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
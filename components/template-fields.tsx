@@ -28,6 +28,9 @@ import { getNestedValue, setNestedValue } from "@/lib/utils"
 interface TemplateFieldsProps {
   form: UseFormReturn<any>
   template: MessageTemplate
+  // 消息模版和渠道在表单中的字段名，附加渠道使用 extraChannels.N.rule 等
+  ruleName?: string
+  channelIdName?: string
 }
 
 function WecomMediaUploadInput({
@@ -229,13 +232,18 @@ function isVariableSupported(field: TemplateField) {
   return field.component === "input" || field.component === "textarea" || !field.component
 }
 
-export function TemplateFields({ form, template }: TemplateFieldsProps) {
+export function TemplateFields({
+  form,
+  template,
+  ruleName = "rule",
+  channelIdName = "channelId",
+}: TemplateFieldsProps) {
   const [showAdvanced, setShowAdvanced] = useState(false)
   const [prevType, setPrevType] = useState(template.type)
-  const channelId = form.watch("channelId")
+  const channelId = form.watch(channelIdName)
   const [fieldValues, setFieldValues] = useState<Record<string, any>>(() => {
     try {
-      const rule = JSON.parse(form.getValues("rule") || "{}")
+      const rule = JSON.parse(form.getValues(ruleName) || "{}")
       const flattenedValues: Record<string, any> = {}
       template.fields.forEach((field) => {
         if (field.component === "hidden" && field.defaultValue !== undefined) {
@@ -289,8 +297,8 @@ export function TemplateFields({ form, template }: TemplateFieldsProps) {
       }
     })
 
-    form.setValue("rule", JSON.stringify(processedValues, null, 2))
-  }, [fieldValues, form])
+    form.setValue(ruleName, JSON.stringify(processedValues, null, 2))
+  }, [fieldValues, form, ruleName])
 
   return (
     <div className="space-y-4 rounded-lg border bg-muted/30 p-4">
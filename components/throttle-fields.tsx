@@ -0,0 +1,155 @@
+"use client"
+
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  DEFAULT_RATE_LIMIT,
+  OVERFLOW_ACTION_LABELS,
+  OverflowAction,
+  RateLimit,
+} from "@/lib/rate-limit"
+
+interface DedupFieldsProps {
+  dedupKey?: string | null
+  dedupWindow?: number | null
+  onChange: (value: { dedupKey: string | null, dedupWindow: number | null }) => void
+}
+
+// 默认去重窗口 (秒)
+const DEFAULT_DEDUP_WINDOW = 300
+
+export function DedupFields({ dedupKey, dedupWindow, onChange }: DedupFieldsProps) {
+  const enabled = !!dedupKey
+
+  return (
+    <div className="space-y-3 rounded-lg border p-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <Label>消息去重</Label>
+          <p className="text-xs text-muted-foreground mt-1">
+            {enabled ? "去重窗口内去重键相同的消息只推送一次" : "不去重，每个请求都会推送"}
+          </p>
+        </div>
+        <Switch
+          checked={enabled}
+          onCheckedChange={(checked) => onChange(checked
+            ? { dedupKey: "${body.title}", dedupWindow: DEFAULT_DEDUP_WINDOW }
+            : { dedupKey: null, dedupWindow: null })}
+        />
+      </div>
+
+      {enabled && (
+        <div className="grid grid-cols-3 gap-3">
+          <div className="col-span-2 space-y-1">
+            <Label className="text-xs">去重键</Label>
+            <Input
+              className="font-mono"
+              placeholder="${body.alertname}"
+              value={dedupKey ?? ""}
+              onChange={(e) => onChange({ dedupKey: e.target.value, dedupWindow: dedupWindow ?? DEFAULT_DEDUP_WINDOW })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">去重窗口 (秒)</Label>
+            <Input
+              type="number"
+              min={1}
+              max={86400}
+              value={dedupWindow ?? DEFAULT_DEDUP_WINDOW}
+              onChange={(e) => onChange({ dedupKey: dedupKey ?? null, dedupWindow: Number(e.target.value) })}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface RateLimitFieldsProps {
+  value?: string | null
+  onChange: (value: string | null) => void
+}
+
+function parsePolicy(value?: string | null): RateLimit {
+  if (!value) return DEFAULT_RATE_LIMIT
+  try {
+    return { ...DEFAULT_RATE_LIMIT, ...JSON.parse(value) }
+  } catch {
+    return DEFAULT_RATE_LIMIT
+  }
+}
+
+export function RateLimitFields({ value, onChange }: RateLimitFieldsProps) {
+  const enabled = !!value
+  const policy = parsePolicy(value)
+
+  const update = (patch: Partial<RateLimit>) => {
+    onChange(JSON.stringify({ ...policy, ...patch }))
+  }
+
+  return (
+    <div className="space-y-3 rounded-lg border p-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <Label>限流</Label>
+          <p className="text-xs text-muted-foreground mt-1">
+            {enabled ? "按令牌桶限制推送频率，避免触发渠道自身的限流" : "不限制推送频率"}
+          </p>
+        </div>
+        <Switch
+          checked={enabled}
+          onCheckedChange={(checked) => onChange(checked ? JSON.stringify(DEFAULT_RATE_LIMIT) : null)}
+        />
+      </div>
+
+      {enabled && (
+        <div className="grid grid-cols-3 gap-3">
+          <div className="space-y-1">
+            <Label className="text-xs">突发容量</Label>
+            <Input
+              type="number"
+              min={1}
+              max={1000}
+              value={policy.capacity}
+              onChange={(e) => update({ capacity: Number(e.target.value) })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">每分钟补充</Label>
+            <Input
+              type="number"
+              min={0.1}
+              step={0.1}
+              value={policy.refillPerMinute}
+              onChange={(e) => update({ refillPerMinute: Number(e.target.value) })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">超出限流时</Label>
+            <Select
+              value={policy.overflow}
+              onValueChange={(overflow) => update({ overflow: overflow as OverflowAction })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(OVERFLOW_ACTION_LABELS).map(([action, label]) => (
+                  <SelectItem key={action} value={action}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,208 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Switch } from "@/components/ui/switch"
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form"
+import { Plus, Loader2 } from "lucide-react"
+import { useState } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { insertVariableSchema, NewVariable, Variable } from "@/lib/db/schema/variables"
+import { useToast } from "@/components/ui/use-toast"
+import { DropdownMenuItem } from "@/components/ui/dropdown-menu"
+import { useRouter } from "next/navigation"
+import { createVariable, updateVariable } from "@/lib/services/variables"
+
+interface VariableDialogProps {
+  mode?: "create" | "edit"
+  variable?: Variable
+  // 引用了该变量的接口，重命名时提示
+  references?: { id: string, name: string }[]
+}
+
+export function VariableDialog({ mode = "create", variable, references = [] }: VariableDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [isPending, setIsPending] = useState(false)
+  const { toast } = useToast()
+  const router = useRouter()
+
+  const form = useForm<NewVariable>({
+    resolver: zodResolver(insertVariableSchema),
+    defaultValues: {
+      name: variable?.name ?? "",
+      value: variable?.value ?? "",
+      secret: variable?.secret ?? false,
+      description: variable?.description ?? "",
+    },
+  })
+
+  const [name, secret] = form.watch(["name", "secret"])
+  const renamed = mode === "edit" && !!variable && name !== variable.name
+  // 编辑机密变量时页面拿不到原值，留空表示不修改
+  const keepSecretValue = mode === "edit" && !!variable?.secret && !!secret
+
+  async function onSubmit(data: NewVariable) {
+    try {
+      setIsPending(true)
+      if (mode === "edit" && variable) {
+        await updateVariable(variable.id, data)
+        toast({ description: "变量已更新" })
+      } else {
+        await createVariable(data)
+        toast({ description: "变量已创建" })
+      }
+      setOpen(false)
+      form.reset()
+      router.refresh()
+    } catch (error) {
+      console.error('Variable dialog error:', error)
+      toast({
+        variant: "destructive",
+        description: error instanceof Error ? error.message : "操作失败，请重试"
+      })
+    } finally {
+      setIsPending(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        {mode === "edit" ? (
+          <DropdownMenuItem onSelect={(e) => e.preventDefault()}>
+            编辑
+          </DropdownMenuItem>
+        ) : (
+          <Button size="sm" className="gap-2">
+            <Plus className="h-4 w-4" />
+            添加变量
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>
+            {mode === "edit" ? "编辑变量" : "新建变量"}
+          </DialogTitle>
+          <DialogDescription>
+            在消息模版中通过 {"${vars.名称}"} 引用，推送时替换为变量的值
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="grid gap-4 py-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>
+                    名称
+                    <span className="text-red-500 ml-1">*</span>
+                  </FormLabel>
+                  <FormControl>
+                    <Input className="font-mono" placeholder="如：ONCALL_MOBILES" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {renamed && references.length > 0 && (
+              <p className="text-xs text-amber-600 -mt-2">
+                以下接口引用了 {"${vars."}{variable!.name}{"}"}，重命名后需要同步修改：
+                {references.map(endpoint => endpoint.name).join("、")}
+              </p>
+            )}
+            <FormField
+              control={form.control}
+              name="value"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>值</FormLabel>
+                  <FormControl>
+                    {secret ? (
+                      <Input
+                        type="password"
+                        autoComplete="new-password"
+                        placeholder={keepSecretValue ? "留空保持原值不变" : ""}
+                        {...field}
+                      />
+                    ) : (
+                      <Textarea
+                        className="font-mono resize-none h-24"
+                        placeholder="如：13800000000,13900000000"
+                        {...field}
+                      />
+                    )}
+                  </FormControl>
+                  <FormDescription className="text-xs">
+                    值为文本，列表可用逗号分隔，在模版中通过 {"${split(vars.名称, ',')}"} 转为数组
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="secret"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-lg border p-4">
+                  <div>
+                    <FormLabel>机密变量</FormLabel>
+                    <FormDescription className="text-xs">
+                      保存后不再显示值，推送日志和预览中显示为 ******
+                    </FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={!!field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>说明</FormLabel>
+                  <FormControl>
+                    <Input placeholder="如：本周值班人员手机号" {...field} value={field.value ?? ""} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setOpen(false)} type="button">
+                取消
+              </Button>
+              <Button type="submit" disabled={isPending}>
+                {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                提交
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,179 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { MoreHorizontal, Loader2, Lock } from "lucide-react"
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { useToast } from "@/components/ui/use-toast"
+import { VariableDialog } from "@/components/variable-dialog"
+import { SECRET_MASK, Variable } from "@/lib/db/schema/variables"
+import type { VariableUsage } from "@/lib/variables"
+import { deleteVariable } from "@/lib/services/variables"
+
+interface VariableTableProps {
+  variables: Variable[]
+  usage: VariableUsage
+}
+
+export function VariableTable({ variables, usage }: VariableTableProps) {
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false)
+  const [variableToDelete, setVariableToDelete] = useState<Variable | null>(null)
+  const [isDeleting, setIsDeleting] = useState(false)
+  const { toast } = useToast()
+  const router = useRouter()
+
+  const references = variableToDelete ? usage[variableToDelete.name] ?? [] : []
+
+  const handleDelete = async () => {
+    if (!variableToDelete) return
+
+    try {
+      setIsDeleting(true)
+      await deleteVariable(variableToDelete.id)
+      toast({ description: "变量已删除" })
+      router.refresh()
+      setDeleteDialogOpen(false)
+    } catch (error) {
+      console.error('Error deleting variable:', error)
+      toast({
+        variant: "destructive",
+        description: "删除失败，请重试"
+      })
+    } finally {
+      setIsDeleting(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <VariableDialog />
+      </div>
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>名称</TableHead>
+              <TableHead>值</TableHead>
+              <TableHead>说明</TableHead>
+              <TableHead>引用接口</TableHead>
+              <TableHead className="w-[80px]">操作</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {variables.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5} className="h-24 text-center text-muted-foreground">
+                  暂无变量
+                </TableCell>
+              </TableRow>
+            ) : (
+              variables.map((variable) => (
+                <TableRow key={variable.id}>
+                  <TableCell>
+                    <code className="font-mono text-sm">{`\${vars.${variable.name}}`}</code>
+                  </TableCell>
+                  <TableCell className="max-w-[240px]">
+                    {variable.secret ? (
+                      <span className="inline-flex items-center gap-1 text-muted-foreground">
+                        <Lock className="h-3 w-3" />
+                        {SECRET_MASK}
+                      </span>
+                    ) : (
+                      <span className="block truncate font-mono text-sm" title={variable.value}>
+                        {variable.value}
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">{variable.description || "-"}</TableCell>
+                  <TableCell>
+                    {(usage[variable.name] ?? []).length > 0
+                      ? usage[variable.name].map(endpoint => endpoint.name).join("、")
+                      : <span className="text-muted-foreground">-</span>}
+                  </TableCell>
+                  <TableCell>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
+                          <MoreHorizontal className="h-4 w-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <VariableDialog
+                          mode="edit"
+                          variable={variable}
+                          references={usage[variable.name]}
+                        />
+                        <DropdownMenuItem
+                          className="text-red-600"
+                          onClick={() => {
+                            setVariableToDelete(variable)
+                            setDeleteDialogOpen(true)
+                          }}
+                        >
+                          删除
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>确认删除</AlertDialogTitle>
+            <AlertDialogDescription>
+              确定要删除变量 {variableToDelete?.name} 吗？此操作无法撤销。
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          {references.length > 0 && (
+            <p className="text-sm text-amber-600">
+              以下接口仍在引用该变量，删除后推送时对应位置将为空：
+              {references.map(endpoint => endpoint.name).join("、")}
+            </p>
+          )}
+          <AlertDialogFooter>
+            <AlertDialogCancel>取消</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={isDeleting}
+              onClick={handleDelete}
+            >
+              {isDeleting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              确认
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -0,0 +1,21 @@
+CREATE TABLE `push_logs` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`endpoint_id` text,
+	`channel_id` text,
+	`group_id` text,
+	`parent_id` text,
+	`status` text DEFAULT 'pending' NOT NULL,
+	`message` text,
+	`request_body` text,
+	`response_status` integer,
+	`response_body` text,
+	`latency` integer,
+	`error` text,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `push_logs_user_id_idx` ON `push_logs` (`user_id`);--> statement-breakpoint
+CREATE INDEX `push_logs_endpoint_id_idx` ON `push_logs` (`endpoint_id`);--> statement-breakpoint
+CREATE INDEX `push_logs_parent_id_idx` ON `push_logs` (`parent_id`);--> statement-breakpoint
+CREATE INDEX `push_logs_created_at_idx` ON `push_logs` (`created_at`);
@@ -0,0 +1,3 @@
+ALTER TABLE `endpoints` ADD `retry_policy` text;--> statement-breakpoint
+ALTER TABLE `channels` ADD `retry_policy` text;--> statement-breakpoint
+ALTER TABLE `push_logs` ADD `attempts` text;
@@ -0,0 +1 @@
+ALTER TABLE `endpoints` ADD `delivery_mode` text DEFAULT 'sync' NOT NULL;
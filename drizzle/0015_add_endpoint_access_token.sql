@@ -0,0 +1 @@
+ALTER TABLE `endpoints` ADD `access_token` text;
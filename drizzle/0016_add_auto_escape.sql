@@ -0,0 +1 @@
+ALTER TABLE `endpoints` ADD `auto_escape` integer DEFAULT false NOT NULL;
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE `endpoint_channels` (
+	`id` text PRIMARY KEY NOT NULL,
+	`endpoint_id` text NOT NULL,
+	`channel_id` text NOT NULL,
+	`rule` text NOT NULL,
+	`sort_order` integer DEFAULT 0 NOT NULL,
+	FOREIGN KEY (`endpoint_id`) REFERENCES `endpoints`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `endpoint_channels_endpoint_id_idx` ON `endpoint_channels` (`endpoint_id`);
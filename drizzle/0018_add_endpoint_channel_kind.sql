@@ -0,0 +1 @@
+ALTER TABLE `endpoint_channels` ADD `kind` text DEFAULT 'parallel' NOT NULL;
@@ -0,0 +1 @@
+ALTER TABLE `endpoints` ADD `filters` text;
@@ -0,0 +1,24 @@
+ALTER TABLE `endpoints` ADD `dedup_key` text;
+--> statement-breakpoint
+ALTER TABLE `endpoints` ADD `dedup_window` integer;
+--> statement-breakpoint
+ALTER TABLE `endpoints` ADD `rate_limit` text;
+--> statement-breakpoint
+CREATE TABLE `throttle_state` (
+	`key` text PRIMARY KEY NOT NULL,
+	`value` text DEFAULT '' NOT NULL,
+	`expires_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `throttle_state_expires_at_idx` ON `throttle_state` (`expires_at`);
+--> statement-breakpoint
+CREATE TABLE `digest_items` (
+	`id` text PRIMARY KEY NOT NULL,
+	`endpoint_id` text NOT NULL,
+	`message_id` text NOT NULL,
+	`body` text NOT NULL,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	FOREIGN KEY (`endpoint_id`) REFERENCES `endpoints`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `digest_items_endpoint_id_idx` ON `digest_items` (`endpoint_id`);
@@ -0,0 +1,5 @@
+ALTER TABLE `endpoints` ADD `digest_window` integer;
+--> statement-breakpoint
+ALTER TABLE `endpoints` ADD `digest_max_items` integer;
+--> statement-breakpoint
+ALTER TABLE `endpoints` ADD `digest_rule` text;
@@ -0,0 +1,19 @@
+CREATE TABLE `schedules` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`endpoint_id` text NOT NULL,
+	`name` text NOT NULL,
+	`cron` text,
+	`timezone` text DEFAULT 'Asia/Shanghai' NOT NULL,
+	`body` text NOT NULL,
+	`status` text DEFAULT 'active' NOT NULL,
+	`next_run_at` integer NOT NULL,
+	`message_id` text,
+	`last_run_at` integer,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	FOREIGN KEY (`endpoint_id`) REFERENCES `endpoints`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `schedules_user_id_idx` ON `schedules` (`user_id`);
+--> statement-breakpoint
+CREATE INDEX `schedules_next_run_at_idx` ON `schedules` (`next_run_at`);
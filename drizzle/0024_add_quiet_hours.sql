@@ -0,0 +1,7 @@
+ALTER TABLE `channels` ADD `quiet_hours` text;
+--> statement-breakpoint
+ALTER TABLE `endpoints` ADD `quiet_hours` text;
+--> statement-breakpoint
+ALTER TABLE `schedules` ADD `channel_id` text;
+--> statement-breakpoint
+ALTER TABLE `schedules` ADD `context` text;
@@ -0,0 +1,21 @@
+CREATE TABLE `escalations` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`endpoint_id` text NOT NULL,
+	`message_id` text NOT NULL,
+	`status` text DEFAULT 'active' NOT NULL,
+	`step` integer DEFAULT 0 NOT NULL,
+	`next_message_id` text,
+	`next_step_at` integer,
+	`acked_at` integer,
+	`acked_by` text,
+	`timeline` text DEFAULT '[]' NOT NULL,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	FOREIGN KEY (`endpoint_id`) REFERENCES `endpoints`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `escalations_user_id_idx` ON `escalations` (`user_id`);
+--> statement-breakpoint
+CREATE INDEX `escalations_endpoint_id_idx` ON `escalations` (`endpoint_id`);
+--> statement-breakpoint
+ALTER TABLE `endpoint_channels` ADD `delay_minutes` integer;
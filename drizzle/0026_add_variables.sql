@@ -0,0 +1,12 @@
+CREATE TABLE `variables` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`name` text NOT NULL,
+	`value` text NOT NULL,
+	`secret` integer DEFAULT false NOT NULL,
+	`description` text,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	`updated_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `variables_user_id_name_idx` ON `variables` (`user_id`,`name`);
@@ -0,0 +1 @@
+ALTER TABLE `endpoints` ADD `body_schema` text;
@@ -0,0 +1 @@
+ALTER TABLE `endpoints` ADD `overflow_mode` text DEFAULT 'split' NOT NULL;
@@ -7,6 +7,9 @@ declare global {
     AUTH_GITHUB_ID: string;
     AUTH_GITHUB_SECRET: string;
     DISABLE_REGISTER: string;
+    // 可选：异步推送使用的 Cloudflare Queue 及消费者回调密钥
+    PUSH_QUEUE?: Queue;
+    QUEUE_SECRET?: string;
   }
 
   type Env = CloudflareEnv
@@ -0,0 +1,309 @@
+// ---------------------------------------------------------------------------
+// 请求体校验
+//   接口可以配置 JSON Schema，或只列出必填字段 (如 ["title", "alert.level"])
+//   支持 JSON Schema 的常用关键字：type、required、properties、items、enum、const、
+//   minLength/maxLength、pattern、format、minimum/maximum、minItems/maxItems、additionalProperties
+//   不使用 Ajv 等生成代码的校验器，Edge Runtime 中无法使用 new Function
+// ---------------------------------------------------------------------------
+
+const SCHEMA_TYPES = ["string", "number", "integer", "boolean", "object", "array", "null"] as const
+
+type SchemaType = typeof SCHEMA_TYPES[number]
+
+export interface BodySchema {
+  type?: SchemaType | SchemaType[]
+  title?: string
+  description?: string
+  required?: string[]
+  properties?: Record<string, BodySchema>
+  additionalProperties?: boolean
+  items?: BodySchema
+  enum?: unknown[]
+  const?: unknown
+  default?: unknown
+  examples?: unknown[]
+  minLength?: number
+  maxLength?: number
+  pattern?: string
+  format?: string
+  minimum?: number
+  maximum?: number
+  minItems?: number
+  maxItems?: number
+}
+
+export interface BodyFieldError {
+  // 字段路径，如 alert.level、alerts[0].name，请求体本身为空字符串
+  field: string
+  message: string
+}
+
+const FORMAT_PATTERNS: Record<string, RegExp> = {
+  "date-time": /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/i,
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  uri: /^[a-z][a-z\d+.-]*:\/\/\S+$/i,
+}
+
+/**
+ * 把必填字段列表转换为 JSON Schema，路径中的 . 表示嵌套对象
+ */
+export function requiredFieldsToSchema(fields: string[]): BodySchema {
+  const root: BodySchema = { type: "object", required: [], properties: {} }
+  for (const field of fields) {
+    let current = root
+    const parts = field.split(".").map(part => part.trim()).filter(Boolean)
+    parts.forEach((part, i) => {
+      if (!current.required!.includes(part)) current.required!.push(part)
+      if (i === parts.length - 1) {
+        // 必填字段为空字符串时同样视为缺少
+        current.properties![part] ??= { minLength: 1 }
+        return
+      }
+      const next = current.properties![part]
+      if (!next?.properties) {
+        current.properties![part] = { type: "object", required: [], properties: {} }
+      }
+      current = current.properties![part]
+    })
+  }
+  return root
+}
+
+function isRequiredFieldList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(field => typeof field === "string" && field.trim() !== "")
+}
+
+function isValidSchemaNode(node: unknown): boolean {
+  if (!node || typeof node !== "object" || Array.isArray(node)) return false
+  const schema = node as BodySchema
+  const types = schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type]
+  if (!types.every(type => SCHEMA_TYPES.includes(type))) return false
+  if (schema.required !== undefined && !isRequiredFieldList(schema.required)) return false
+  if (schema.enum !== undefined && !Array.isArray(schema.enum)) return false
+  if (schema.pattern !== undefined) {
+    try {
+      new RegExp(schema.pattern)
+    } catch {
+      return false
+    }
+  }
+  if (schema.properties !== undefined) {
+    if (typeof schema.properties !== "object" || Array.isArray(schema.properties)) return false
+    if (!Object.values(schema.properties).every(isValidSchemaNode)) return false
+  }
+  return schema.items === undefined || isValidSchemaNode(schema.items)
+}
+
+/**
+ * 校验存储在数据库中的请求体格式 JSON，空值表示不校验
+ */
+export function isValidBodySchema(value?: string | null): boolean {
+  if (!value) return true
+  try {
+    const parsed = JSON.parse(value)
+    return isRequiredFieldList(parsed) ? parsed.length > 0 : isValidSchemaNode(parsed)
+  } catch {
+    return false
+  }
+}
+
+/**
+ * 解析接口的请求体格式，必填字段列表转换为等价的 JSON Schema
+ */
+export function parseBodySchema(value?: string | null): BodySchema | null {
+  if (!value || !isValidBodySchema(value)) return null
+  const parsed = JSON.parse(value)
+  return isRequiredFieldList(parsed) ? requiredFieldsToSchema(parsed) : parsed
+}
+
+function getType(value: unknown): SchemaType {
+  if (value === null) return "null"
+  if (Array.isArray(value)) return "array"
+  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number"
+  return typeof value as SchemaType
+}
+
+function matchesType(value: unknown, type: SchemaType) {
+  const actual = getType(value)
+  return actual === type || (type === "number" && actual === "integer")
+}
+
+function joinField(parent: string, key: string | number) {
+  if (typeof key === "number") return `${parent}[${key}]`
+  return parent ? `${parent}.${key}` : key
+}
+
+function isEqual(a: unknown, b: unknown) {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+function validateNode(schema: BodySchema, value: unknown, field: string, errors: BodyFieldError[]) {
+  const addError = (message: string) => errors.push({ field, message })
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type]
+    if (!types.some(type => matchesType(value, type))) {
+      addError(`类型应为 ${types.join(" 或 ")}`)
+      return
+    }
+  }
+  if (schema.const !== undefined && !isEqual(value, schema.const)) {
+    addError(`值应为 ${JSON.stringify(schema.const)}`)
+  }
+  if (schema.enum && !schema.enum.some(item => isEqual(item, value))) {
+    addError(`值应为 ${schema.enum.map(item => JSON.stringify(item)).join("、")} 之一`)
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      addError(schema.minLength === 1 ? "不能为空" : `长度不能少于 ${schema.minLength}`)
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      addError(`长度不能超过 ${schema.maxLength}`)
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      addError(`不匹配格式 ${schema.pattern}`)
+    }
+    const format = schema.format ? FORMAT_PATTERNS[schema.format] : undefined
+    if (format && !format.test(value)) {
+      addError(`不是合法的 ${schema.format}`)
+    }
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      addError(`不能小于 ${schema.minimum}`)
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      addError(`不能大于 ${schema.maximum}`)
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      addError(`至少需要 ${schema.minItems} 项`)
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      addError(`最多只能有 ${schema.maxItems} 项`)
+    }
+    if (schema.items) {
+      value.forEach((item, i) => validateNode(schema.items!, item, joinField(field, i), errors))
+    }
+    return
+  }
+
+  if (value && typeof value === "object") {
+    const record = value as Record<string, unknown>
+    // 与 JSON Schema 不同，值为 null 的必填字段视为缺少
+    for (const key of schema.required ?? []) {
+      if (record[key] === undefined || record[key] === null) {
+        errors.push({ field: joinField(field, key), message: "缺少必填字段" })
+      }
+    }
+    for (const [key, item] of Object.entries(record)) {
+      const propertySchema = schema.properties?.[key]
+      if (propertySchema) {
+        validateNode(propertySchema, item, joinField(field, key), errors)
+      } else if (schema.additionalProperties === false) {
+        errors.push({ field: joinField(field, key), message: "不允许的字段" })
+      }
+    }
+  } else if (schema.required?.length && schema.type === undefined) {
+    // 只列出必填字段时请求体必须是对象
+    addError("类型应为 object")
+  }
+}
+
+/**
+ * 按接口的请求体格式校验请求体，返回所有不符合的字段，符合时返回空数组
+ */
+export function validateBody(schema: BodySchema, body: unknown): BodyFieldError[] {
+  const errors: BodyFieldError[] = []
+  validateNode(schema, body, "", errors)
+  return errors
+}
+
+/**
+ * 校验错误的简短描述，写入推送日志
+ */
+export function formatBodyErrors(errors: BodyFieldError[]) {
+  return errors.map(error => error.field ? `${error.field}: ${error.message}` : error.message).join("；")
+}
+
+// 按字段名推断示例值，依次匹配，字段名取驼峰或下划线分隔的最后一段
+const FIELD_EXAMPLES: Array<[RegExp, () => unknown]> = [
+  [/^(is|has)([A-Z_]|$)|^enabled?$/, () => true],
+  [/(url|link|href|uri)$/i, () => "https://example.com"],
+  [/e?mail$/i, () => "user@example.com"],
+  [/(phone|mobile|tel)$/i, () => "13800000000"],
+  [/(^|_)ip$|[a-z]Ip$/, () => "192.168.1.10"],
+  [/(time|Time|date|Date|timestamp|Timestamp|_at|[a-z]At)$/, () => new Date().toISOString()],
+  [/(title|subject|summary)$/i, () => "服务器 CPU 使用率过高"],
+  [/(content|message|msg|body|text|desc|description|detail|details)$/i, () => "web-01 的 CPU 使用率已持续 5 分钟超过 90%"],
+  [/(level|severity|priority)$/i, () => "warning"],
+  [/(status|state)$/i, () => "firing"],
+  [/(host|hostname|server|instance|node)$/i, () => "web-01"],
+  [/(env|environment)$/i, () => "production"],
+  [/(service|app|project|job)$/i, () => "api-server"],
+  [/(count|total|num|number|amount|size|value)$/i, () => 3],
+  [/(^|_|-)(id|ID)$|[a-z]Id$|^uuid$|(^|_)key$/, () => "a1b2c3d4"],
+  [/(user|username|author|owner|name)$/i, () => "张三"],
+]
+
+function matchFieldExample(name: string): unknown {
+  return FIELD_EXAMPLES.find(([pattern]) => pattern.test(name))?.[1]()
+}
+
+/**
+ * 按字段名生成贴近实际的示例值，如 title、level、url、time，无法识别时返回 example
+ */
+export function exampleForField(name: string): unknown {
+  return matchFieldExample(name) ?? "example"
+}
+
+function exampleString(schema: BodySchema, name: string) {
+  if (schema.format === "date-time") return new Date().toISOString()
+  if (schema.format === "date") return new Date().toISOString().slice(0, 10)
+  if (schema.format === "email") return "user@example.com"
+  if (schema.format === "uri") return "https://example.com"
+  const value = matchFieldExample(name)
+  const text = value !== undefined ? String(value) : schema.title || schema.description || "example"
+  return schema.maxLength !== undefined ? text.slice(0, schema.maxLength) : text
+}
+
+/**
+ * 按 JSON Schema 生成示例值，优先使用 examples、default、const 和 enum 中的值
+ */
+export function generateExampleFromSchema(schema: BodySchema, name = ""): unknown {
+  if (schema.examples?.length) return schema.examples[0]
+  if (schema.default !== undefined) return schema.default
+  if (schema.const !== undefined) return schema.const
+  if (schema.enum?.length) return schema.enum[0]
+
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type
+  switch (type ?? (schema.properties || schema.required ? "object" : schema.items ? "array" : undefined)) {
+    case "object":
+      return Object.fromEntries(
+        Array.from(new Set([...Object.keys(schema.properties ?? {}), ...(schema.required ?? [])]))
+          .map(key => [key, generateExampleFromSchema(schema.properties?.[key] ?? {}, key)])
+      )
+    case "array": {
+      const count = Math.max(schema.minItems ?? 1, 1)
+      return Array.from({ length: count }, () => generateExampleFromSchema(schema.items ?? {}, name))
+    }
+    case "integer":
+      return schema.minimum !== undefined ? Math.ceil(schema.minimum) : Math.min(schema.maximum ?? 1, 1)
+    case "number":
+      return schema.minimum ?? schema.maximum ?? 1
+    case "boolean":
+      return true
+    case "null":
+      return null
+    case "string":
+      return exampleString(schema, name)
+    default:
+      // 未声明类型的字段 (如只列出的必填字段) 按字段名推断类型和取值
+      return exampleForField(name)
+  }
+}
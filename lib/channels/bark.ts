@@ -1,4 +1,5 @@
-import { BaseChannel, ChannelConfig, SendMessageOptions } from "./base"
+import { BaseChannel, ChannelConfig, ChannelError, SendMessageOptions } from "./base"
+import { markdownToPlainText, NormalizedSimpleMessage, SimpleLevel } from "./simple"
 
 interface BarkMessage {
   title?: string
@@ -7,6 +8,7 @@ interface BarkMessage {
   group?: string
   icon?: string
   url?: string
+  image?: string
   copy?: string
   sound?: string
   isArchive?: string
@@ -66,6 +68,14 @@ const levelOptions = [
   { value: "critical", label: "重要警告，在静音模式下也会响铃" }
 ];
 
+// 通用消息级别对应的推送中断级别
+const SIMPLE_LEVEL_MAP: Record<SimpleLevel, string> = {
+  info: "active",
+  warning: "timeSensitive",
+  error: "timeSensitive",
+  critical: "critical",
+}
+
 // 定义自动复制选项
 const autoCopyOptions = [
   { value: "1", label: "是 - 自动复制推送内容" },
@@ -206,6 +216,22 @@ export class BarkChannel extends BaseChannel {
     ]
   }
 
+  // Bark 不支持 Markdown，正文转为纯文本；无法 @ 成员，忽略 mentions
+  fromSimpleMessage(message: NormalizedSimpleMessage): BarkMessage {
+    return {
+      title: message.title || undefined,
+      body: markdownToPlainText(message.body),
+      url: message.url,
+      image: message.image,
+      level: SIMPLE_LEVEL_MAP[message.level],
+    }
+  }
+
+  // 被动通知只添加到通知列表，不亮屏也不响铃
+  downgradeMessage(message: BarkMessage): BarkMessage {
+    return { ...message, level: "passive", sound: undefined, call: undefined }
+  }
+
   async sendMessage(
     message: BarkMessage,
     options: SendMessageOptions
@@ -216,8 +242,6 @@ export class BarkChannel extends BaseChannel {
       throw new Error("缺少 Bark 服务器地址")
     }
     
-    console.log('sendBarkMessage message:', message)
-
     // 准备POST请求的数据
     const postData: Record<string, any> = {
       body: message.body
@@ -229,6 +253,7 @@ export class BarkChannel extends BaseChannel {
     if (message.icon) postData.icon = message.icon
     if (message.sound && message.sound !== "none") postData.sound = message.sound
     if (message.url) postData.url = message.url
+    if (message.image) postData.image = message.image
     if (message.copy) postData.copy = message.copy
     if (message.isArchive) postData.isArchive = message.isArchive
     if (message.level) postData.level = message.level
@@ -255,11 +280,9 @@ export class BarkChannel extends BaseChannel {
         body: JSON.stringify(postData)
       });
 
-      console.log('sendBarkMessage response status:', response.status);
-      
       if (!response.ok) {
         const text = await response.text();
-        throw new Error(`Bark 消息推送失败: ${text}`);
+        throw new ChannelError(`Bark 消息推送失败: ${text}`, { status: response.status });
       }
 
       return response;
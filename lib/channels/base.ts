@@ -1,3 +1,15 @@
+import {
+  DeliveryAttempt,
+  DEFAULT_RETRY_POLICY,
+  getRetryDelay,
+  RETRY_CATEGORIES,
+  RetryCategory,
+  RetryPolicy,
+} from "./retry"
+import { Escaper } from "../escape"
+import { NormalizedSimpleMessage, SIMPLE_TEMPLATE } from "./simple"
+import { applyMessageLimits, MessageLimit, OVERFLOW_MODES, OverflowMode } from "./split"
+
 export interface TemplateField {
   key: string
   description?: string
@@ -15,12 +27,19 @@ export interface MessageTemplate {
   name: string
   description: string
   fields: TemplateField[]
+  // 开启自动转义时，对 fields 中字段的插值结果应用的转义函数
+  escape?: {
+    escaper: Escaper
+    fields: string[]
+  }
 }
 
 export interface ChannelConfig {
   type: string
   label: string
   templates: MessageTemplate[]
+  // 渠道对消息文本的长度限制，超出时分段或截断
+  limits?: MessageLimit[]
 }
 
 export interface SendMessageOptions {
@@ -33,13 +52,141 @@ export interface SendMessageOptions {
   [key: string]: any
 }
 
+export interface SendWithRetryOptions {
+  retryPolicy?: RetryPolicy
+  onAttempt?: (attempt: DeliveryAttempt) => void
+  // 消息超出渠道长度限制时的处理方式，默认分段发送
+  overflowMode?: OverflowMode
+}
+
+/**
+ * 渠道推送失败时抛出的错误，携带 HTTP 状态码和渠道返回的错误码用于重试判断
+ */
+export class ChannelError extends Error {
+  readonly status?: number
+  readonly code?: string | number
+
+  constructor(message: string, details: { status?: number, code?: string | number } = {}) {
+    super(message)
+    this.name = "ChannelError"
+    this.status = details.status
+    this.code = details.code
+  }
+}
+
 export abstract class BaseChannel {
   abstract readonly config: ChannelConfig
+
+  // 渠道返回的限流错误码
+  protected readonly rateLimitCodes: Array<string | number> = []
+  // 渠道返回的临时性错误码（如系统繁忙）
+  protected readonly transientCodes: Array<string | number> = []
   
   abstract sendMessage(message: any, options: SendMessageOptions): Promise<Response>
+
+  /**
+   * 把通用消息转换为渠道的原生消息，渠道不支持的字段按各自方式降级
+   */
+  abstract fromSimpleMessage(message: NormalizedSimpleMessage): unknown
+
+  /**
+   * 判断错误是否属于可重试的类别，返回 null 表示不可重试
+   */
+  classifyError(error: unknown): RetryCategory | null {
+    if (error instanceof ChannelError) {
+      if (error.status === 429) return RETRY_CATEGORIES.RATE_LIMIT
+      if (error.code !== undefined && this.rateLimitCodes.includes(error.code)) return RETRY_CATEGORIES.RATE_LIMIT
+      if (error.status !== undefined && error.status >= 500) return RETRY_CATEGORIES.SERVER
+      if (error.code !== undefined && this.transientCodes.includes(error.code)) return RETRY_CATEGORIES.SERVER
+      return null
+    }
+    // fetch 在网络异常时抛出 TypeError，超时中断时抛出 AbortError
+    if (error instanceof TypeError) return RETRY_CATEGORIES.NETWORK
+    if (error instanceof Error && error.name === "AbortError") return RETRY_CATEGORIES.NETWORK
+    return null
+  }
+
+  /**
+   * 按渠道的长度限制分段或截断消息，返回依次发送的消息列表
+   */
+  splitMessage(message: any, overflowMode: OverflowMode = OVERFLOW_MODES.SPLIT): any[] {
+    return applyMessageLimits(message, this.config.limits ?? [], overflowMode)
+  }
+
+  /**
+   * 按长度限制拆分消息后依次发送，每一段单独按重试策略重试，返回最后一段的响应
+   * 某一段最终失败时不再发送后续的段
+   */
+  async sendWithRetry(
+    message: any,
+    options: SendMessageOptions,
+    { overflowMode, onAttempt, ...retryOptions }: SendWithRetryOptions = {}
+  ): Promise<Response> {
+    const parts = this.splitMessage(message, overflowMode)
+    let response!: Response
+    for (const [i, part] of parts.entries()) {
+      response = await this.sendPartWithRetry(part, options, {
+        ...retryOptions,
+        onAttempt: attempt => onAttempt?.(parts.length > 1 ? { ...attempt, part: i + 1 } : attempt),
+      })
+    }
+    return response
+  }
+
+  /**
+   * 按重试策略发送单条消息，每次尝试都会通过 onAttempt 回调上报
+   */
+  private async sendPartWithRetry(
+    message: any,
+    options: SendMessageOptions,
+    { retryPolicy = DEFAULT_RETRY_POLICY, onAttempt }: SendWithRetryOptions = {}
+  ): Promise<Response> {
+    for (let attempt = 1; ; attempt++) {
+      const startedAt = Date.now()
+      try {
+        // 部分渠道会原地修改消息对象，每次尝试都使用一份新的副本
+        const response = await this.sendMessage(structuredClone(message), options)
+        onAttempt?.({
+          attempt,
+          startedAt: new Date(startedAt).toISOString(),
+          latency: Date.now() - startedAt,
+          status: response.status,
+        })
+        return response
+      } catch (error) {
+        const category = this.classifyError(error)
+        onAttempt?.({
+          attempt,
+          startedAt: new Date(startedAt).toISOString(),
+          latency: Date.now() - startedAt,
+          status: error instanceof ChannelError ? error.status : undefined,
+          code: error instanceof ChannelError ? error.code : undefined,
+          error: error instanceof Error ? error.message : String(error),
+          category,
+        })
+
+        const retryable = category !== null && retryPolicy.retryOn.includes(category)
+        if (!retryable || attempt >= retryPolicy.maxAttempts) {
+          throw error
+        }
+
+        const delay = getRetryDelay(retryPolicy, attempt)
+        console.warn(`${this.getLabel()} 第 ${attempt} 次推送失败 (${category})，${delay}ms 后重试`)
+        await new Promise(resolve => setTimeout(resolve, delay))
+      }
+    }
+  }
   
+  /**
+   * 免打扰时段降级推送时调整消息，如改为静默通知；不支持静默通知的渠道原样返回
+   */
+  downgradeMessage(message: any): any {
+    return message
+  }
+
+  // 每个渠道都支持通用消息，排在渠道自身的模版之后
   getTemplates(): MessageTemplate[] {
-    return this.config.templates
+    return [...this.config.templates, SIMPLE_TEMPLATE]
   }
   
   getLabel(): string {
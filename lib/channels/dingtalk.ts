@@ -1,4 +1,5 @@
-import { BaseChannel, ChannelConfig, SendMessageOptions } from "./base"
+import { BaseChannel, ChannelConfig, ChannelError, SendMessageOptions } from "./base"
+import { getSimpleTitle, isMobileMention, NormalizedSimpleMessage, SIMPLE_LEVEL_EMOJIS } from "./simple"
 
 interface DingTalkMessage {
   msgtype: string
@@ -28,9 +29,19 @@ interface DingTalkMessage {
 }
 
 export class DingTalkChannel extends BaseChannel {
+  // 130101: 发送速度太快而限流
+  protected readonly rateLimitCodes = [130101]
+  // -1: 系统繁忙
+  protected readonly transientCodes = [-1]
+
   readonly config: ChannelConfig = {
     type: "dingtalk",
     label: "钉钉群机器人",
+    limits: [
+      { field: "text.content", maxLength: 20000, unit: "bytes", match: { msgtype: "text" } },
+      { field: "markdown.text", maxLength: 20000, unit: "bytes", format: "markdown", match: { msgtype: "markdown" } },
+      { field: "actionCard.text", maxLength: 20000, unit: "bytes", format: "markdown", match: { msgtype: "actionCard" } },
+    ],
     templates: [
       {
         type: "text",
@@ -56,6 +67,7 @@ export class DingTalkChannel extends BaseChannel {
           { key: "at.isAtAll", description: "是否@所有人", component: 'checkbox' },
           { key: "msgtype", component: 'hidden', defaultValue: "markdown" },
         ],
+        escape: { escaper: "escapeDingTalkMarkdown", fields: ["markdown.text"] },
       },
       {
         type: "actionCard-single",
@@ -68,6 +80,7 @@ export class DingTalkChannel extends BaseChannel {
           { key: "actionCard.singleURL", description: "点击按钮触发的URL", required: true },
           { key: "msgtype", component: 'hidden', defaultValue: "actionCard" },
         ],
+        escape: { escaper: "escapeDingTalkMarkdown", fields: ["actionCard.text"] },
       },
       {
         type: "actionCard-multi",
@@ -83,10 +96,32 @@ export class DingTalkChannel extends BaseChannel {
           { key: "actionCard.btns", description: "按钮列表", placeholder: "按钮列表，格式为JSON数组：[{\"title\":\"按钮标题\",\"actionURL\":\"跳转链接\"}]", required: true, component: 'textarea' },
           { key: "msgtype", component: 'hidden', defaultValue: "actionCard" },
         ],
+        escape: { escaper: "escapeDingTalkMarkdown", fields: ["actionCard.text"] },
       },
     ]
   }
 
+  // 手机号和用户 ID 除了写入 at 字段，还需要出现在正文中才会高亮显示
+  fromSimpleMessage(message: NormalizedSimpleMessage): DingTalkMessage {
+    const title = getSimpleTitle(message)
+    const atMobiles = message.mentions.filter(isMobileMention)
+    const atUserIds = message.mentions.filter(mention => !isMobileMention(mention))
+    const text = [
+      `### ${SIMPLE_LEVEL_EMOJIS[message.level]} ${title}`,
+      // 钉钉 Markdown 单个换行不会换行显示
+      message.body.replace(/\r?\n/g, '  \n'),
+      message.image && `![](${message.image})`,
+      message.url && `[查看详情](${message.url})`,
+      message.mentions.length > 0 && message.mentions.map(mention => `@${mention}`).join(' '),
+    ].filter(Boolean).join('\n\n')
+
+    return {
+      msgtype: "markdown",
+      markdown: { title, text },
+      at: { atMobiles, atUserIds, isAtAll: message.mentionAll },
+    }
+  }
+
   async generateDingTalkSign(secret: string, timestamp: number): Promise<string> {
     const encoder = new TextEncoder()
     const keyData = encoder.encode(secret)
@@ -134,9 +169,6 @@ export class DingTalkChannel extends BaseChannel {
         url = urlObj.toString()
       }
 
-      console.log('Sending DingTalk message to:', url)
-      console.log('Message:', message)
-
       const response = await fetch(url, {
         method: 'POST',
         headers: {
@@ -145,12 +177,19 @@ export class DingTalkChannel extends BaseChannel {
         body: JSON.stringify(message),
       })
 
+      if (!response.ok) {
+        throw new ChannelError(`钉钉消息推送失败: HTTP ${response.status}`, { status: response.status })
+      }
+
       const data = await response.json() as { errcode: number, errmsg: string }
       if (data.errcode !== 0) {
-        throw new Error(`钉钉消息推送失败: ${data.errmsg}`)
+        throw new ChannelError(`钉钉消息推送失败: ${data.errmsg}`, { status: response.status, code: data.errcode })
       }
 
-      return response
+      return new Response(JSON.stringify(data), {
+        status: response.status,
+        headers: { 'Content-Type': 'application/json' }
+      })
     } catch (error) {
       console.error('DingTalk error:', error)
       throw error
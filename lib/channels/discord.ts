@@ -1,13 +1,39 @@
-import { BaseChannel, ChannelConfig, SendMessageOptions } from "./base"
+import { BaseChannel, ChannelConfig, ChannelError, SendMessageOptions } from "./base"
+import { NormalizedSimpleMessage, SimpleLevel } from "./simple"
+
+interface DiscordEmbed {
+  title?: string
+  description?: string
+  url?: string
+  color?: number
+  image?: { url: string }
+}
 
 interface DiscordMessage {
   content: string
+  embeds?: DiscordEmbed[]
+  flags?: number
+}
+
+// 通用消息级别对应的 Embed 侧边颜色
+const SIMPLE_LEVEL_COLORS: Record<SimpleLevel, number> = {
+  info: 0x3b82f6,
+  warning: 0xf59e0b,
+  error: 0xef4444,
+  critical: 0x991b1b,
 }
 
+// 消息标记：不触发推送和桌面通知
+const SUPPRESS_NOTIFICATIONS = 1 << 12
+
 export class DiscordChannel extends BaseChannel {
   readonly config: ChannelConfig = {
     type: "discord",
     label: "Discord Webhook",
+    limits: [
+      { field: "content", maxLength: 2000, unit: "chars", format: "markdown" },
+      { field: "embeds.0.description", maxLength: 4096, unit: "chars", format: "markdown" },
+    ],
     templates: [
       {
         type: "text",
@@ -15,11 +41,35 @@ export class DiscordChannel extends BaseChannel {
         description: "发送简单的文本消息",
         fields: [
           { key: "content", description: "消息内容", required: true, component: 'textarea' },
-        ]
+        ],
+        escape: { escaper: "escapeMarkdown", fields: ["content"] },
       }
     ]
   }
 
+  // 转换为 Embed 消息，提及只在 content 中生效
+  fromSimpleMessage(message: NormalizedSimpleMessage): DiscordMessage {
+    const mentions = [
+      message.mentionAll && "@everyone",
+      ...message.mentions.map(mention => /^\d+$/.test(mention) ? `<@${mention}>` : mention),
+    ].filter(Boolean)
+
+    return {
+      content: mentions.join(" "),
+      embeds: [{
+        title: message.title || undefined,
+        description: message.body,
+        url: message.url,
+        color: SIMPLE_LEVEL_COLORS[message.level],
+        image: message.image ? { url: message.image } : undefined,
+      }],
+    }
+  }
+
+  downgradeMessage(message: DiscordMessage): DiscordMessage {
+    return { ...message, flags: (message.flags ?? 0) | SUPPRESS_NOTIFICATIONS }
+  }
+
   async sendMessage(
     message: DiscordMessage,
     options: SendMessageOptions
@@ -30,8 +80,6 @@ export class DiscordChannel extends BaseChannel {
       throw new Error("缺少 Discord Webhook 地址")
     }
     
-    console.log('sendDiscordMessage message:', message)
-
     const response = await fetch(webhook, {
       method: 'POST',
       headers: {
@@ -42,7 +90,7 @@ export class DiscordChannel extends BaseChannel {
 
     if (!response.ok) {
       const text = await response.text()
-      throw new Error(`Discord 消息推送失败: ${text}`)
+      throw new ChannelError(`Discord 消息推送失败: ${text}`, { status: response.status })
     }
 
     return response
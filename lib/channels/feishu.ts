@@ -1,8 +1,9 @@
-import { BaseChannel, ChannelConfig, SendMessageOptions } from "./base"
+import { BaseChannel, ChannelConfig, ChannelError, SendMessageOptions } from "./base"
+import { NormalizedSimpleMessage, SimpleLevel } from "./simple"
 
 interface FeishuMessage {
-  msg_type: "text" | "post"
-  content: {
+  msg_type: "text" | "post" | "interactive"
+  content?: {
     text?: string
     post?: {
       zh_cn: {
@@ -16,10 +17,20 @@ interface FeishuMessage {
     }
     card?: any
   }
+  // 消息卡片放在顶层的 card 字段中
+  card?: any
   timestamp?: string
   sign?: string
 }
 
+// 通用消息级别对应的卡片标题颜色
+const SIMPLE_LEVEL_TEMPLATES: Record<SimpleLevel, string> = {
+  info: "blue",
+  warning: "orange",
+  error: "red",
+  critical: "carmine",
+}
+
 async function generateFeishuSign(secret: string, timestamp: string): Promise<string> {
   const encoder = new TextEncoder();
   const key = await crypto.subtle.importKey(
@@ -40,6 +51,9 @@ async function generateFeishuSign(secret: string, timestamp: string): Promise<st
 }
 
 export class FeishuChannel extends BaseChannel {
+  // 9499 / 11232: 请求频率超限
+  protected readonly rateLimitCodes = [9499, 11232]
+
   readonly config: ChannelConfig = {
     type: "feishu",
     label: "飞书群机器人",
@@ -86,12 +100,41 @@ export class FeishuChannel extends BaseChannel {
     ]
   }
 
-  getLabel(): string {
-    return this.config.label
-  }
+  // 转换为消息卡片：级别决定标题颜色，链接转为按钮；自定义机器人无法上传图片，图片以链接形式展示
+  fromSimpleMessage(message: NormalizedSimpleMessage): FeishuMessage {
+    const mentions = [
+      message.mentionAll && "<at id=all></at>",
+      ...message.mentions.map(mention => `<at id=${mention}></at>`),
+    ].filter(Boolean).join(" ")
+    const content = [
+      message.body,
+      message.image && `[查看图片](${message.image})`,
+      mentions,
+    ].filter(Boolean).join("\n\n")
+
+    const elements: any[] = [{ tag: "div", text: { tag: "lark_md", content } }]
+    if (message.url) {
+      elements.push({
+        tag: "action",
+        actions: [{
+          tag: "button",
+          text: { tag: "plain_text", content: "查看详情" },
+          type: "primary",
+          url: message.url,
+        }],
+      })
+    }
 
-  getTemplates() {
-    return this.config.templates
+    return {
+      msg_type: "interactive",
+      card: {
+        header: message.title ? {
+          title: { tag: "plain_text", content: message.title },
+          template: SIMPLE_LEVEL_TEMPLATES[message.level],
+        } : undefined,
+        elements,
+      },
+    }
   }
 
   async sendMessage(
@@ -105,7 +148,7 @@ export class FeishuChannel extends BaseChannel {
     }
 
     // 处理富文本消息的内容格式
-    if (message.msg_type === "post" && typeof message.content.post?.zh_cn.content === 'string') {
+    if (message.msg_type === "post" && typeof message.content?.post?.zh_cn.content === 'string') {
       try {
         message.content.post.zh_cn.content = JSON.parse(message.content.post.zh_cn.content as any);
       } catch {
@@ -120,8 +163,6 @@ export class FeishuChannel extends BaseChannel {
       message.sign = await generateFeishuSign(secret, timestamp)
     }
 
-    console.log('sendFeishuMessage message:', message)
-
     const response = await fetch(webhook, {
       method: 'POST',
       headers: {
@@ -130,11 +171,18 @@ export class FeishuChannel extends BaseChannel {
       body: JSON.stringify(message),
     })
 
-    if (!response.ok) {
-      const data = await response.json() as { code: number, msg: string }
-      throw new Error(`飞书消息推送失败: ${data.msg}`)
+    // 业务错误和限流同样返回 200，通过 code 判断是否成功
+    const data = await response.json().catch(() => ({})) as { code?: number, msg?: string }
+    if (!response.ok || data.code !== 0) {
+      throw new ChannelError(`飞书消息推送失败: ${data.msg ?? response.statusText}`, {
+        status: response.status,
+        code: data.code,
+      })
     }
 
-    return response
+    return new Response(JSON.stringify(data), {
+      status: response.status,
+      headers: { 'Content-Type': 'application/json' }
+    })
   }
 } 
\ No newline at end of file
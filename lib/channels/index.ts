@@ -1,4 +1,4 @@
-import { BaseChannel } from "./base"
+import { BaseChannel, MessageTemplate, SendWithRetryOptions } from "./base"
 import { Channel as DBInferChannel } from "@/lib/db/schema/channels"
 import { DingTalkChannel } from "./dingtalk"
 import { WecomChannel } from "./wecom"
@@ -8,6 +8,9 @@ import { FeishuChannel } from "./feishu"
 import { DiscordChannel } from "./discord"
 import { BarkChannel } from "./bark"
 import { WebhookChannel } from "./webhook"
+import { SlackChannel } from "./slack"
+import { isSimpleMessage, normalizeSimpleMessage, SIMPLE_TEMPLATE } from "./simple"
+import { getNestedValue } from "@/lib/utils"
 
 // 渠道类型常量
 export const CHANNEL_TYPES = {
@@ -19,6 +22,7 @@ export const CHANNEL_TYPES = {
   DISCORD: "discord",
   BARK: "bark",
   WEBHOOK: "webhook",
+  SLACK: "slack",
 } as const
 
 export type ChannelType = typeof CHANNEL_TYPES[keyof typeof CHANNEL_TYPES]
@@ -33,6 +37,7 @@ const channels: Record<ChannelType, BaseChannel> = {
   [CHANNEL_TYPES.DISCORD]: new DiscordChannel(),
   [CHANNEL_TYPES.BARK]: new BarkChannel(),
   [CHANNEL_TYPES.WEBHOOK]: new WebhookChannel(),
+  [CHANNEL_TYPES.SLACK]: new SlackChannel(),
 }
 
 // 获取所有渠道标签
@@ -58,14 +63,40 @@ export function getChannel(type: ChannelType): BaseChannel {
   return channels[type]
 }
 
-// 发送消息
+// 根据消息中隐藏字段（如 msgtype、parse_mode）的取值找到对应的消息模版
+export function findMessageTemplate(type: ChannelType, message: unknown): MessageTemplate | undefined {
+  const channel = getChannel(type)
+  if (!channel || !message || typeof message !== "object") return undefined
+  // Bark 等渠道的模版没有隐藏字段，会匹配任意消息，需要先判断通用消息
+  if (isSimpleMessage(message)) return SIMPLE_TEMPLATE
+
+  return channel.getTemplates().find(template =>
+    template.fields
+      .filter(field => field.component === "hidden" && field.defaultValue !== undefined)
+      .every(field => String(getNestedValue(message, field.key)) === field.defaultValue)
+  )
+}
+
+// 通用消息转换为渠道的原生消息，其他消息原样返回
+export function toChannelMessage(type: ChannelType, message: unknown): unknown {
+  if (!isSimpleMessage(message)) return message
+  return getChannel(type).fromSimpleMessage(normalizeSimpleMessage(message))
+}
+
+// 发送消息，失败时按重试策略重试
 export async function sendChannelMessage(
   type: ChannelType, 
   message: any, 
-  options: any
+  options: any,
+  retryOptions?: SendWithRetryOptions
 ): Promise<Response> {
   const channel = getChannel(type)
-  return channel.sendMessage(message, options)
+  return channel.sendWithRetry(message, options, retryOptions)
+}
+
+// 免打扰时段降级推送时调整消息
+export function downgradeChannelMessage(type: ChannelType, message: unknown): unknown {
+  return getChannel(type).downgradeMessage(message)
 }
 
 // 导出渠道接口
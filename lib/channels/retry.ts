@@ -0,0 +1,88 @@
+import { z } from "zod"
+
+// 可重试的错误类别
+export const RETRY_CATEGORIES = {
+  NETWORK: "network",
+  SERVER: "server",
+  RATE_LIMIT: "rate_limit",
+} as const
+
+export type RetryCategory = typeof RETRY_CATEGORIES[keyof typeof RETRY_CATEGORIES]
+
+export const RETRY_CATEGORY_LABELS: Record<RetryCategory, string> = {
+  [RETRY_CATEGORIES.NETWORK]: "网络错误/超时",
+  [RETRY_CATEGORIES.SERVER]: "服务端 5xx 或系统繁忙",
+  [RETRY_CATEGORIES.RATE_LIMIT]: "限流 (429 或渠道限流错误码)",
+}
+
+export const retryPolicySchema = z.object({
+  maxAttempts: z.number().int().min(1, "至少尝试 1 次").max(5, "最多尝试 5 次"),
+  initialDelay: z.number().int().min(0).max(30000),
+  backoffFactor: z.number().min(1).max(10),
+  maxDelay: z.number().int().min(0).max(60000),
+  retryOn: z.array(z.nativeEnum(RETRY_CATEGORIES)),
+})
+
+export type RetryPolicy = z.infer<typeof retryPolicySchema>
+
+// 开启自定义重试策略时的初始配置
+export const RECOMMENDED_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  initialDelay: 1000,
+  backoffFactor: 2,
+  maxDelay: 10000,
+  retryOn: Object.values(RETRY_CATEGORIES),
+}
+
+// 接口和渠道都没有配置重试策略时不重试，避免同步推送的耗时超出调用方 (如接口组) 的超时时间
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  ...RECOMMENDED_RETRY_POLICY,
+  maxAttempts: 1,
+}
+
+export interface DeliveryAttempt {
+  attempt: number
+  startedAt: string
+  latency: number
+  status?: number
+  code?: string | number
+  error?: string
+  category?: RetryCategory | null
+  // 配置了备用渠道时记录该次尝试所属的渠道
+  channelId?: string
+  // 消息分段发送时该次尝试所属的段，从 1 开始
+  part?: number
+}
+
+/**
+ * 校验存储在数据库中的重试策略 JSON，空值表示继承上一级配置
+ */
+export function isValidRetryPolicy(value?: string | null): boolean {
+  if (!value) return true
+  try {
+    return retryPolicySchema.safeParse(JSON.parse(value)).success
+  } catch {
+    return false
+  }
+}
+
+/**
+ * 按 接口 > 渠道 > 默认 的优先级解析最终生效的重试策略
+ */
+export function resolveRetryPolicy(...candidates: Array<string | null | undefined>): RetryPolicy {
+  for (const candidate of candidates) {
+    if (!candidate) continue
+    try {
+      const parsed = retryPolicySchema.safeParse(JSON.parse(candidate))
+      if (parsed.success) return parsed.data
+    } catch {
+      console.warn(`重试策略格式错误，已忽略: ${candidate}`)
+    }
+  }
+  return DEFAULT_RETRY_POLICY
+}
+
+export function getRetryDelay(policy: RetryPolicy, attempt: number): number {
+  const delay = policy.initialDelay * Math.pow(policy.backoffFactor, attempt - 1)
+  return Math.min(delay, policy.maxDelay)
+}
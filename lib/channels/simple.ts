@@ -0,0 +1,157 @@
+import type { MessageTemplate } from "./base"
+import { escapeHtml } from "../escape"
+
+// ---------------------------------------------------------------------------
+// 通用消息
+//   与渠道无关的消息格式，推送前由各渠道的 fromSimpleMessage 转换为原生消息
+//   切换接口的渠道时不需要重写消息模版，渠道不支持的字段按各自方式降级
+// ---------------------------------------------------------------------------
+
+export const SIMPLE_LEVELS = ["info", "warning", "error", "critical"] as const
+
+export type SimpleLevel = typeof SIMPLE_LEVELS[number]
+
+export interface SimpleMessage {
+  msgtype: "simple"
+  title?: string
+  // Markdown 格式的正文
+  body: string
+  url?: string
+  level?: string
+  image?: string
+  // 逗号分隔的字符串或数组，all 表示所有人
+  mentions?: string | string[]
+}
+
+// 渠道适配器收到的通用消息，空字段已去除，级别和提及对象已规范化
+export interface NormalizedSimpleMessage {
+  title: string
+  body: string
+  url?: string
+  level: SimpleLevel
+  image?: string
+  mentions: string[]
+  mentionAll: boolean
+}
+
+export const SIMPLE_LEVEL_LABELS: Record<SimpleLevel, string> = {
+  info: "通知",
+  warning: "警告",
+  error: "错误",
+  critical: "严重",
+}
+
+export const SIMPLE_LEVEL_EMOJIS: Record<SimpleLevel, string> = {
+  info: "ℹ️",
+  warning: "⚠️",
+  error: "❌",
+  critical: "🚨",
+}
+
+export const SIMPLE_TEMPLATE: MessageTemplate = {
+  type: "simple",
+  name: "通用消息",
+  description: "与渠道无关的消息格式，推送时自动转换为当前渠道的消息类型，切换渠道无需修改模版",
+  fields: [
+    { key: "title", description: "消息标题" },
+    { key: "body", description: "消息内容，支持 Markdown，不支持的渠道转为纯文本", required: true, component: 'textarea' },
+    { key: "url", description: "详情链接" },
+    {
+      key: "level",
+      description: "消息级别",
+      component: 'select',
+      defaultValue: "info",
+      options: SIMPLE_LEVELS.map(level => ({ value: level, label: SIMPLE_LEVEL_LABELS[level] })),
+    },
+    { key: "image", description: "图片 URL" },
+    { key: "mentions", description: "提及的成员", placeholder: "用户 ID 或手机号，多个使用逗号分隔，all 表示所有人" },
+    { key: "msgtype", component: 'hidden', defaultValue: "simple" },
+  ],
+}
+
+export function isSimpleMessage(message: unknown): message is SimpleMessage {
+  return !!message && typeof message === "object" && (message as { msgtype?: unknown }).msgtype === "simple"
+}
+
+function toText(value: unknown) {
+  if (value === undefined || value === null) return ""
+  return (typeof value === "string" ? value : String(value)).trim()
+}
+
+function parseMentions(value: unknown): string[] {
+  const list = Array.isArray(value) ? value : toText(value).split(/[,，|\s]+/)
+  return Array.from(new Set(list.map(toText).filter(Boolean)))
+}
+
+/**
+ * 去除空字段，未知的级别按 info 处理
+ */
+export function normalizeSimpleMessage(message: SimpleMessage): NormalizedSimpleMessage {
+  const level = toText(message.level).toLowerCase()
+  const mentions = parseMentions(message.mentions)
+  const isAll = (mention: string) => /^@?all$/i.test(mention)
+
+  return {
+    title: toText(message.title),
+    body: toText(message.body),
+    url: toText(message.url) || undefined,
+    level: (SIMPLE_LEVELS as readonly string[]).includes(level) ? level as SimpleLevel : "info",
+    image: toText(message.image) || undefined,
+    mentions: mentions.filter(mention => !isAll(mention)),
+    mentionAll: mentions.some(isAll),
+  }
+}
+
+/**
+ * 手机号形式的提及对象，钉钉和企业微信按手机号 @ 成员
+ */
+export function isMobileMention(mention: string) {
+  return /^\+?\d{6,}$/.test(mention)
+}
+
+/**
+ * 需要标题但模版未填写时，取正文的第一行
+ */
+export function getSimpleTitle(message: NormalizedSimpleMessage, maxLength = 50) {
+  if (message.title) return message.title
+  const firstLine = markdownToPlainText(message.body).split("\n").find(line => line.trim()) ?? ""
+  return firstLine.trim().slice(0, maxLength) || SIMPLE_LEVEL_LABELS[message.level]
+}
+
+/**
+ * 去掉 Markdown 标记，用于只支持纯文本的渠道
+ */
+export function markdownToPlainText(markdown: string): string {
+  return markdown
+    .replace(/```[^\n]*\n?([\s\S]*?)```/g, "$1")
+    .replace(/`([^`\n]+)`/g, "$1")
+    .replace(/!\[([^\]]*)\]\(([^)\s]+)\)/g, (_, alt: string, url: string) => alt ? `${alt} (${url})` : url)
+    .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (_, text: string, url: string) => text === url ? url : `${text} (${url})`)
+    .replace(/^ {0,3}#{1,6}\s+/gm, "")
+    .replace(/^ {0,3}>\s?/gm, "")
+    .replace(/(\*\*|__)(.+?)\1/g, "$2")
+    .replace(/~~(.+?)~~/g, "$1")
+    .replace(/(^|[^\w*])\*([^*\n]+)\*(?![\w*])/g, "$1$2")
+    .replace(/(^|[^\w])_([^_\n]+)_(?!\w)/g, "$1$2")
+}
+
+/**
+ * 把常用 Markdown 语法转换为 Telegram 支持的 HTML 标签，其余字符按 HTML 转义
+ */
+export function markdownToHtml(markdown: string): string {
+  // 代码中的内容不再解析，先替换为占位符
+  const codes: string[] = []
+  const stash = (html: string) => `\u0000${codes.push(html) - 1}\u0000`
+
+  return escapeHtml(markdown)
+    .replace(/```[^\n]*\n?([\s\S]*?)```/g, (_, code: string) => stash(`<pre>${code.replace(/\n$/, "")}</pre>`))
+    .replace(/`([^`\n]+)`/g, (_, code: string) => stash(`<code>${code}</code>`))
+    .replace(/!\[([^\]]*)\]\(([^)\s]+)\)/g, (_, alt: string, url: string) => `<a href="${url}">${alt || "图片"}</a>`)
+    .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, '<a href="$2">$1</a>')
+    .replace(/^ {0,3}#{1,6}\s+(.+)$/gm, "<b>$1</b>")
+    .replace(/(\*\*|__)(.+?)\1/g, "<b>$2</b>")
+    .replace(/~~(.+?)~~/g, "<s>$1</s>")
+    .replace(/(^|[^\w*])\*([^*\n]+)\*(?![\w*])/g, "$1<i>$2</i>")
+    .replace(/(^|[^\w])_([^_\n]+)_(?!\w)/g, "$1<i>$2</i>")
+    .replace(/\u0000(\d+)\u0000/g, (_, i: string) => codes[Number(i)])
+}
@@ -0,0 +1,229 @@
+import { BaseChannel, ChannelConfig, ChannelError, SendMessageOptions } from "./base"
+import { escapeSlack } from "../escape"
+import { getSimpleTitle, NormalizedSimpleMessage, SIMPLE_LEVEL_EMOJIS } from "./simple"
+import { truncateText } from "./split"
+
+interface SlackMessage {
+  // 模版类型，发送前去掉：text / blocks 优先使用 Incoming Webhook，post_message 使用 Bot Token
+  msgtype?: "text" | "blocks" | "post_message"
+  text?: string
+  // Block Kit 数组，模版中以 JSON 字符串填写
+  blocks?: unknown[] | string
+  channel?: string
+  thread_ts?: string
+}
+
+interface SlackApiResponse {
+  ok: boolean
+  error?: string
+  ts?: string
+  channel?: string
+}
+
+const SLACK_API_URL = "https://slack.com/api/chat.postMessage"
+
+const BLOCKS_PLACEHOLDER = JSON.stringify([
+  {
+    type: "section",
+    text: { type: "mrkdwn", text: "*生产环境报警*\n数据库 CPU > 90%" },
+  },
+  {
+    type: "actions",
+    elements: [{ type: "button", text: { type: "plain_text", text: "查看详情" }, url: "https://example.com" }],
+  },
+], null, 2)
+
+/**
+ * 把常用 Markdown 语法转换为 Slack mrkdwn：**粗体** 改为 *粗体*，[文本](链接) 改为 <链接|文本>
+ */
+export function markdownToSlack(markdown: string): string {
+  // 代码中的内容不再转换，先替换为占位符
+  const codes: string[] = []
+  const stash = (text: string) => `\u0000${codes.push(text) - 1}\u0000`
+
+  return escapeSlack(markdown)
+    .replace(/```[^\n]*\n?([\s\S]*?)```/g, (_, code: string) => stash(`\`\`\`${code.replace(/\n$/, "")}\`\`\``))
+    .replace(/`([^`\n]+)`/g, (_, code: string) => stash(`\`${code}\``))
+    .replace(/!\[([^\]]*)\]\(([^)\s]+)\)/g, (_, alt: string, url: string) => `<${url}|${alt || "图片"}>`)
+    .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, "<$2|$1>")
+    .replace(/(^|[^\w*])\*([^*\n]+)\*(?![\w*])/g, "$1_$2_")
+    .replace(/^ {0,3}#{1,6}\s+(.+)$/gm, "*$1*")
+    .replace(/(\*\*|__)(.+?)\1/g, "*$2*")
+    .replace(/~~(.+?)~~/g, "~$1~")
+    .replace(/\u0000(\d+)\u0000/g, (_, i: string) => codes[Number(i)])
+}
+
+export class SlackChannel extends BaseChannel {
+  // Web API 限流时返回 ratelimited，其余为 Slack 服务端的临时错误
+  protected readonly rateLimitCodes = ["ratelimited"]
+  protected readonly transientCodes = ["internal_error", "fatal_error", "service_unavailable", "request_timeout"]
+
+  readonly config: ChannelConfig = {
+    type: "slack",
+    label: "Slack",
+    // 超过 40000 字符的消息会被 Slack 截断；Block Kit 消息的 text 只是通知摘要，不拆分
+    limits: [
+      { field: "text", maxLength: 40000, unit: "chars", format: "markdown", match: { msgtype: "text" } },
+      { field: "text", maxLength: 40000, unit: "chars", format: "markdown", match: { msgtype: "post_message" } },
+    ],
+    templates: [
+      {
+        type: "text",
+        name: "文本消息",
+        description: "支持 mrkdwn 格式（*粗体*、_斜体_、<链接|文本>、<@用户ID>），通过 Incoming Webhook 发送，未配置时使用 Bot Token 发送到默认频道",
+        fields: [
+          { key: "text", description: "消息内容", required: true, component: 'textarea' },
+          { key: "msgtype", component: 'hidden', defaultValue: "text" },
+        ],
+        escape: { escaper: "escapeSlack", fields: ["text"] },
+      },
+      {
+        type: "blocks",
+        name: "Block Kit 消息",
+        description: "使用 Block Kit 布局的消息，可在 <a target='_blank' href='https://app.slack.com/block-kit-builder'>Block Kit Builder</a> 中设计",
+        fields: [
+          { key: "blocks", description: "blocks 数组 (JSON 格式)", required: true, component: 'textarea', placeholder: BLOCKS_PLACEHOLDER },
+          { key: "text", description: "通知中显示的摘要文本" },
+          { key: "msgtype", component: 'hidden', defaultValue: "blocks" },
+        ],
+        escape: { escaper: "escapeSlack", fields: ["text"] },
+      },
+      {
+        type: "post_message",
+        name: "chat.postMessage",
+        description: "使用 Bot Token 调用 chat.postMessage，可指定频道或回复到线程",
+        fields: [
+          { key: "channel", description: "频道 ID 或名称", placeholder: "如 C0123456789，留空使用渠道配置的默认频道" },
+          { key: "text", description: "消息内容", required: true, component: 'textarea' },
+          { key: "blocks", description: "blocks 数组 (JSON 格式)，填写后 text 作为通知摘要", component: 'textarea', placeholder: BLOCKS_PLACEHOLDER },
+          { key: "thread_ts", description: "回复到线程", placeholder: "父消息的 ts，如 1700000000.123456" },
+          { key: "msgtype", component: 'hidden', defaultValue: "post_message" },
+        ],
+        escape: { escaper: "escapeSlack", fields: ["text"] },
+      },
+    ]
+  }
+
+  // 转换为 Block Kit 消息：标题为 header，正文转为 mrkdwn，链接转为按钮；text 作为通知摘要
+  fromSimpleMessage(message: NormalizedSimpleMessage): SlackMessage {
+    const mentions = [
+      message.mentionAll && "<!channel>",
+      ...message.mentions.map(mention => `<@${mention}>`),
+    ].filter(Boolean).join(" ")
+    // section 的文本最多 3000 字符
+    const body = truncateText(
+      [markdownToSlack(message.body), mentions].filter(Boolean).join("\n\n"),
+      { field: "text", maxLength: 3000, unit: "chars", format: "markdown" }
+    )
+
+    const blocks: unknown[] = []
+    if (message.title) {
+      blocks.push({
+        type: "header",
+        text: { type: "plain_text", text: `${SIMPLE_LEVEL_EMOJIS[message.level]} ${message.title}`.slice(0, 150), emoji: true },
+      })
+    }
+    blocks.push({ type: "section", text: { type: "mrkdwn", text: body } })
+    if (message.image) {
+      blocks.push({ type: "image", image_url: message.image, alt_text: message.title || "图片" })
+    }
+    if (message.url) {
+      blocks.push({
+        type: "actions",
+        elements: [{ type: "button", text: { type: "plain_text", text: "查看详情" }, url: message.url }],
+      })
+    }
+
+    return {
+      msgtype: "blocks",
+      text: `${SIMPLE_LEVEL_EMOJIS[message.level]} ${escapeSlack(getSimpleTitle(message))}`,
+      blocks,
+    }
+  }
+
+  private parseBlocks(blocks: SlackMessage["blocks"]): unknown[] | undefined {
+    if (blocks === undefined || blocks === "") return undefined
+    let parsed: unknown = blocks
+    if (typeof blocks === "string") {
+      try {
+        parsed = JSON.parse(blocks)
+      } catch {
+        throw new Error("Block Kit 内容格式不正确，请提供有效的JSON数组")
+      }
+    }
+    // Block Kit Builder 复制出的内容为 { "blocks": [...] }
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+      parsed = (parsed as { blocks?: unknown }).blocks
+    }
+    if (!Array.isArray(parsed)) {
+      throw new Error("Block Kit 内容格式不正确，请提供有效的JSON数组")
+    }
+    return parsed
+  }
+
+  private async sendViaWebhook(webhook: string, payload: Record<string, unknown>): Promise<Response> {
+    const response = await fetch(webhook, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(payload),
+    })
+
+    // Incoming Webhook 成功时返回纯文本 ok，失败时返回 invalid_payload 等错误码
+    if (!response.ok) {
+      const text = await response.text()
+      throw new ChannelError(`Slack 消息推送失败: ${text || response.statusText}`, { status: response.status, code: text || undefined })
+    }
+
+    return response
+  }
+
+  private async sendViaApi(botToken: string, payload: Record<string, unknown>): Promise<Response> {
+    const response = await fetch(SLACK_API_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Authorization': `Bearer ${botToken}`,
+      },
+      body: JSON.stringify(payload),
+    })
+
+    if (!response.ok) {
+      throw new ChannelError(`Slack 消息推送失败: HTTP ${response.status}`, { status: response.status })
+    }
+
+    // Web API 出错时同样返回 200，通过 ok 和 error 判断
+    const data = await response.json() as SlackApiResponse
+    if (!data.ok) {
+      throw new ChannelError(`Slack 消息推送失败: ${data.error}`, { status: response.status, code: data.error })
+    }
+
+    return new Response(JSON.stringify(data), {
+      status: response.status,
+      headers: { 'Content-Type': 'application/json' }
+    })
+  }
+
+  async sendMessage(
+    message: SlackMessage,
+    options: SendMessageOptions
+  ): Promise<Response> {
+    const { webhook, botToken, chatId } = options
+    const { msgtype, blocks, channel, thread_ts, ...rest } = message
+    const payload: Record<string, unknown> = { ...rest, blocks: this.parseBlocks(blocks) }
+
+    if (msgtype !== "post_message" && webhook) {
+      return this.sendViaWebhook(webhook, payload)
+    }
+
+    if (!botToken) {
+      throw new Error(msgtype === "post_message" ? "chat.postMessage 需要在渠道中配置 Bot Token" : "缺少 Webhook 地址或 Bot Token")
+    }
+    const target = channel || chatId
+    if (!target) {
+      throw new Error("缺少 Slack 频道，请在消息中填写 channel 或在渠道中配置默认频道")
+    }
+    return this.sendViaApi(botToken, { ...payload, channel: target, thread_ts: thread_ts || undefined })
+  }
+}
@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest"
+import { applyMessageLimits, MAX_MESSAGE_PARTS, MessageLimit, OVERFLOW_MODES, splitText, truncateText } from "./split"
+
+const encoder = new TextEncoder()
+const chars = (text: string) => Array.from(text).length
+const bytes = (text: string) => encoder.encode(text).length
+
+const textLimit = (maxLength: number, extra: Partial<MessageLimit> = {}): MessageLimit => ({
+  field: "text",
+  maxLength,
+  unit: "chars",
+  ...extra,
+})
+
+describe("truncateText", () => {
+  it("未超出时原样返回", () => {
+    expect(truncateText("hello", textLimit(5))).toBe("hello")
+  })
+
+  it("在空白处截断并加上省略号，不超过上限", () => {
+    const result = truncateText("hello world again", textLimit(14))
+    expect(result).toBe("hello world…")
+    expect(chars(result)).toBeLessThanOrEqual(14)
+  })
+
+  it("按字节计算时不切断多字节字符", () => {
+    const limit = textLimit(10, { unit: "bytes" })
+    const result = truncateText("你好世界你好世界", limit)
+    expect(result).toBe("你好…")
+    expect(bytes(result)).toBeLessThanOrEqual(10)
+  })
+
+  it("不切断 HTML 标签，补齐未闭合的标签", () => {
+    const result = truncateText("<b>bold text</b> tail", textLimit(16, { format: "html" }))
+    expect(result).toBe("<b>bold…</b>")
+  })
+})
+
+describe("splitText", () => {
+  it("每段加上序号且不超过上限", () => {
+    const text = Array.from({ length: 8 }, (_, i) => `line ${i}`).join("\n")
+    const parts = splitText(text, textLimit(20))
+    expect(parts.length).toBeGreaterThan(1)
+    parts.forEach((part, i) => {
+      expect(part.startsWith(`【${i + 1}/${parts.length}】\n`)).toBe(true)
+      expect(chars(part)).toBeLessThanOrEqual(20)
+    })
+    expect(parts.map(part => part.replace(/^【\d+\/\d+】\n/, "")).join("\n")).toBe(text)
+  })
+
+  it("HTML 标签在段末闭合并在下一段重新打开", () => {
+    const text = `<b>${Array.from({ length: 6 }, (_, i) => `word${i}`).join(" ")}</b>`
+    const parts = splitText(text, textLimit(30, { format: "html" }))
+    expect(parts.length).toBeGreaterThan(1)
+    for (const part of parts) {
+      const body = part.replace(/^【\d+\/\d+】\n/, "")
+      expect(body.startsWith("<b>")).toBe(true)
+      expect(body.endsWith("</b>")).toBe(true)
+      expect(chars(part)).toBeLessThanOrEqual(30)
+    }
+  })
+
+  it("Markdown 代码块在段末闭合并在下一段重新打开", () => {
+    const text = `\`\`\`js\n${Array.from({ length: 6 }, (_, i) => `const a${i} = ${i}`).join("\n")}\n\`\`\``
+    const parts = splitText(text, textLimit(50, { format: "markdown" }))
+    expect(parts.length).toBeGreaterThan(1)
+    for (const part of parts) {
+      const body = part.replace(/^【\d+\/\d+】\n/, "")
+      expect(body.startsWith("```js\n")).toBe(true)
+      expect(body.endsWith("```")).toBe(true)
+    }
+  })
+
+  it("最多拆分 MAX_MESSAGE_PARTS 段，最后一段截断", () => {
+    const text = Array.from({ length: 100 }, (_, i) => `line ${i}`).join("\n")
+    const parts = splitText(text, textLimit(20))
+    expect(parts).toHaveLength(MAX_MESSAGE_PARTS)
+    expect(parts[parts.length - 1].endsWith("…")).toBe(true)
+    parts.forEach(part => expect(chars(part)).toBeLessThanOrEqual(20))
+  })
+})
+
+describe("applyMessageLimits", () => {
+  const message = { msgtype: "text", text: { content: "aaaa bbbb cccc dddd" } }
+  const limit = textLimit(12, { field: "text.content" })
+
+  it("未超出时原样返回", () => {
+    expect(applyMessageLimits(message, [textLimit(100, { field: "text.content" })], OVERFLOW_MODES.SPLIT)).toEqual([message])
+  })
+
+  it("截断模式返回一条消息，不修改原消息", () => {
+    const parts = applyMessageLimits(message, [limit], OVERFLOW_MODES.TRUNCATE)
+    expect(parts).toEqual([{ msgtype: "text", text: { content: "aaaa bbbb…" } }])
+    expect(message.text.content).toBe("aaaa bbbb cccc dddd")
+  })
+
+  it("分段模式拆分为多条消息", () => {
+    const parts = applyMessageLimits(message, [limit], OVERFLOW_MODES.SPLIT) as Array<typeof message>
+    expect(parts.length).toBeGreaterThan(1)
+    parts.forEach(part => {
+      expect(part.msgtype).toBe("text")
+      expect(chars(part.text.content)).toBeLessThanOrEqual(12)
+    })
+  })
+
+  it("只对 match 匹配的消息生效", () => {
+    const markdownOnly = { ...limit, match: { msgtype: "markdown" } }
+    expect(applyMessageLimits(message, [markdownOnly], OVERFLOW_MODES.TRUNCATE)).toEqual([message])
+  })
+})
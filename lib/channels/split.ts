@@ -0,0 +1,212 @@
+import { getNestedValue, setNestedValue } from "@/lib/utils"
+
+// ---------------------------------------------------------------------------
+// 消息长度限制
+//   渠道在 config.limits 中声明各文本字段的长度上限，超出时按接口配置分段或截断
+//   分段在段落、换行、空格处切分，不会切断 HTML 标签和实体、Markdown 链接和代码
+//   未闭合的 HTML 标签和代码块在每段末尾补齐，并在下一段开头重新打开
+// ---------------------------------------------------------------------------
+
+export const OVERFLOW_MODES = {
+  // 拆分为多条消息，每条开头带有 【序号/总数】
+  SPLIT: "split",
+  // 截断超出的部分，末尾加省略号
+  TRUNCATE: "truncate",
+} as const
+
+export type OverflowMode = typeof OVERFLOW_MODES[keyof typeof OVERFLOW_MODES]
+
+export const OVERFLOW_MODE_LABELS: Record<OverflowMode, string> = {
+  [OVERFLOW_MODES.SPLIT]: "分段发送",
+  [OVERFLOW_MODES.TRUNCATE]: "截断并添加省略号",
+}
+
+export interface MessageLimit {
+  // 受长度限制的文本字段路径
+  field: string
+  maxLength: number
+  // chars 按字符计算，bytes 按 UTF-8 字节计算
+  unit: "chars" | "bytes"
+  // 文本格式，决定哪些位置不能切分
+  format?: "text" | "markdown" | "html"
+  // 只对字段取值匹配的消息生效，如 { msgtype: "markdown" }
+  match?: Record<string, string>
+}
+
+// 单条消息最多拆分的段数，超出时最后一段截断
+export const MAX_MESSAGE_PARTS = 10
+
+const ELLIPSIS = "…"
+
+const encoder = new TextEncoder()
+
+function measure(text: string, unit: MessageLimit["unit"]) {
+  return unit === "bytes" ? encoder.encode(text).length : Array.from(text).length
+}
+
+// 不超过 budget 的最长前缀的长度 (UTF-16 下标)，不会切断代理对
+function fitLength(text: string, budget: number, unit: MessageLimit["unit"]) {
+  let used = 0
+  let index = 0
+  for (const char of text) {
+    used += unit === "bytes" ? encoder.encode(char).length : 1
+    if (used > budget) break
+    index += char.length
+  }
+  return index
+}
+
+// 不能从中间切开的片段
+const ATOMIC_PATTERNS: Record<NonNullable<MessageLimit["format"]>, RegExp[]> = {
+  text: [],
+  // 钉钉、企业微信的 Markdown 中还会出现 <font>、<@userid> 等标签和 HTML 实体
+  markdown: [/!?\[[^\]\n]*\]\([^)\n]*\)/g, /`[^`\n]+`/g, /(\*\*|__|~~)[^\n]+?\1/g, /\\./g, /<[^>\n]*>/g, /&#?\w+;/g],
+  html: [/<[^>]*>/g, /&#?\w+;/g],
+}
+
+function adjustForAtomic(text: string, cut: number, format: NonNullable<MessageLimit["format"]>) {
+  for (const pattern of ATOMIC_PATTERNS[format]) {
+    for (const match of Array.from(text.matchAll(pattern))) {
+      const start = match.index ?? 0
+      const end = start + match[0].length
+      // 片段本身超过长度上限时只能从中间切开
+      if (start < cut && cut < end && start > 0) return adjustForAtomic(text, start, format)
+    }
+  }
+  return cut
+}
+
+// 在 maxIndex 之前寻找切分位置：优先空行，其次换行、空白
+function findCut(text: string, maxIndex: number, format: NonNullable<MessageLimit["format"]>) {
+  if (maxIndex >= text.length) return text.length
+  const window = text.slice(0, maxIndex + 1)
+  const minIndex = Math.floor(maxIndex / 2)
+
+  let cut = maxIndex
+  for (const separator of [/\n\s*\n/g, /\n/g, /\s/g]) {
+    const matches = Array.from(window.matchAll(separator))
+      .map(match => (match.index ?? 0) + match[0].length)
+      .filter(index => index > minIndex && index <= maxIndex)
+    if (matches.length > 0) {
+      cut = matches[matches.length - 1]
+      break
+    }
+  }
+  return Math.max(adjustForAtomic(text, cut, format), 1)
+}
+
+interface Balance {
+  // 段末补齐的闭合标记
+  close: string
+  // 下一段开头重新打开的标记
+  reopen: string
+}
+
+// 计算文本中未闭合的 HTML 标签和 Markdown 代码块
+function getBalance(text: string, format: NonNullable<MessageLimit["format"]>): Balance {
+  if (format === "markdown") {
+    const fences = Array.from(text.matchAll(/^ {0,3}```([^\n`]*)$/gm))
+    if (fences.length % 2 === 0) return { close: "", reopen: "" }
+    return { close: "\n```", reopen: `\`\`\`${fences[fences.length - 1][1]}\n` }
+  }
+  if (format === "html") {
+    const stack: Array<{ name: string, tag: string }> = []
+    for (const match of Array.from(text.matchAll(/<(\/?)([a-zA-Z][\w-]*)[^>]*>/g))) {
+      const name = match[2].toLowerCase()
+      if (!match[1]) {
+        stack.push({ name, tag: match[0] })
+      } else {
+        const index = stack.map(item => item.name).lastIndexOf(name)
+        if (index >= 0) stack.splice(index, 1)
+      }
+    }
+    return {
+      close: stack.map(item => `</${item.name}>`).reverse().join(""),
+      reopen: stack.map(item => item.tag).join(""),
+    }
+  }
+  return { close: "", reopen: "" }
+}
+
+interface Chunk {
+  text: string
+  rest: string
+}
+
+// 切出不超过 budget 的第一段 (包含补齐的闭合标记和 suffix)，rest 为剩余文本及重新打开的标记
+function takeChunk(text: string, budget: number, limit: MessageLimit, suffix = ""): Chunk {
+  const format = limit.format ?? "text"
+  let available = budget
+
+  for (;;) {
+    const cut = findCut(text, fitLength(text, Math.max(available, 1), limit.unit), format)
+    const head = text.slice(0, cut).trimEnd()
+    const balance = getBalance(head, format)
+    const chunk = `${head}${suffix}${balance.close}`
+    const overflow = measure(chunk, limit.unit) - budget
+    // 补齐标记后超出上限时缩小可用长度重新切分
+    if (overflow > 0 && available > 1) {
+      available = Math.max(available - overflow, 1)
+      continue
+    }
+    return { text: chunk, rest: `${balance.reopen}${text.slice(cut).replace(/^\s*\n/, "")}` }
+  }
+}
+
+/**
+ * 截断文本使其不超过上限，末尾加省略号
+ */
+export function truncateText(text: string, limit: MessageLimit): string {
+  if (measure(text, limit.unit) <= limit.maxLength) return text
+  return takeChunk(text, limit.maxLength, limit, ELLIPSIS).text
+}
+
+/**
+ * 把文本拆分为多段，每段开头加上 【序号/总数】，加上序号后不超过上限
+ */
+export function splitText(text: string, limit: MessageLimit): string[] {
+  if (measure(text, limit.unit) <= limit.maxLength) return [text]
+
+  // 按最长的序号预留长度
+  const budget = limit.maxLength - measure(`【${MAX_MESSAGE_PARTS}/${MAX_MESSAGE_PARTS}】\n`, limit.unit)
+  const chunks: string[] = []
+  let rest = text
+  while (rest && chunks.length < MAX_MESSAGE_PARTS - 1 && measure(rest, limit.unit) > budget) {
+    const chunk = takeChunk(rest, budget, limit)
+    chunks.push(chunk.text)
+    rest = chunk.rest
+  }
+  if (rest) {
+    chunks.push(measure(rest, limit.unit) > budget ? takeChunk(rest, budget, limit, ELLIPSIS).text : rest)
+  }
+  return chunks.map((chunk, i) => `【${i + 1}/${chunks.length}】\n${chunk}`)
+}
+
+function matchesLimit(message: unknown, limit: MessageLimit) {
+  return Object.entries(limit.match ?? {}).every(([key, value]) => String(getNestedValue(message, key)) === value)
+}
+
+/**
+ * 按渠道的长度限制处理消息，返回依次发送的消息列表，未超出限制时原样返回
+ * 分段模式下只拆分第一个超出的字段，其他超出的字段截断
+ */
+export function applyMessageLimits(message: unknown, limits: MessageLimit[], mode: OverflowMode): unknown[] {
+  if (!message || typeof message !== "object") return [message]
+
+  let parts = [message]
+  for (const limit of limits) {
+    if (!matchesLimit(message, limit)) continue
+    const text = getNestedValue(message, limit.field)
+    if (typeof text !== "string" || measure(text, limit.unit) <= limit.maxLength) continue
+
+    const texts = mode === OVERFLOW_MODES.SPLIT && parts.length === 1
+      ? splitText(text, limit)
+      : [truncateText(text, limit)]
+    parts = texts.flatMap(value => parts.map(part => {
+      const copy = structuredClone(part)
+      setNestedValue(copy, limit.field, value)
+      return copy
+    }))
+  }
+  return parts
+}
@@ -1,7 +1,9 @@
-import { BaseChannel, ChannelConfig, SendMessageOptions } from "./base"
+import { BaseChannel, ChannelConfig, ChannelError, SendMessageOptions } from "./base"
+import { escapeHtml } from "../escape"
+import { markdownToHtml, NormalizedSimpleMessage, SIMPLE_LEVEL_EMOJIS } from "./simple"
 
 interface TelegramMessage {
-  chat_id: string
+  chat_id?: string
   text: string
   parse_mode?: "HTML" | "Markdown" | "MarkdownV2"
   disable_web_page_preview?: boolean
@@ -12,6 +14,11 @@ export class TelegramChannel extends BaseChannel {
   readonly config: ChannelConfig = {
     type: "telegram",
     label: "Telegram 机器人",
+    // 按解析格式后的字符数计算，这里按原文计算更保守
+    limits: [
+      { field: "text", maxLength: 4096, unit: "chars", format: "html", match: { parse_mode: "HTML" } },
+      { field: "text", maxLength: 4096, unit: "chars", format: "markdown", match: { parse_mode: "MarkdownV2" } },
+    ],
     templates: [
       {
         type: "HTML",
@@ -22,6 +29,7 @@ export class TelegramChannel extends BaseChannel {
           { key: "disable_notification", description: "静默发送", component: 'checkbox' },
           { key: "parse_mode", component: 'hidden', defaultValue: "HTML" },
         ],
+        escape: { escaper: "escapeHtml", fields: ["text"] },
       },
       {
         type: "MarkdownV2",
@@ -45,10 +53,31 @@ export class TelegramChannel extends BaseChannel {
             defaultValue: "MarkdownV2"
           },
         ],
+        escape: { escaper: "escapeMarkdownV2", fields: ["text"] },
       },
     ]
   }
 
+  // 正文的 Markdown 转为 HTML 标签，图片以链接形式附在末尾，提及对象为 @用户名
+  fromSimpleMessage(message: NormalizedSimpleMessage): TelegramMessage {
+    const title = message.title && `<b>${SIMPLE_LEVEL_EMOJIS[message.level]} ${escapeHtml(message.title)}</b>`
+    const text = [
+      title,
+      markdownToHtml(message.body),
+      message.image && `<a href="${escapeHtml(message.image)}">查看图片</a>`,
+      message.url && `<a href="${escapeHtml(message.url)}">查看详情</a>`,
+      message.mentions.length > 0 && message.mentions
+        .map(mention => escapeHtml(mention.startsWith("@") ? mention : `@${mention}`))
+        .join(" "),
+    ].filter(Boolean).join("\n\n")
+
+    return { text, parse_mode: "HTML" }
+  }
+
+  downgradeMessage(message: TelegramMessage): TelegramMessage {
+    return { ...message, disable_notification: true }
+  }
+
   async sendMessage(
     message: TelegramMessage,
     options: SendMessageOptions
@@ -59,8 +88,6 @@ export class TelegramChannel extends BaseChannel {
       throw new Error("缺少 Bot Token 或 Chat ID")
     }
     
-    console.log('sendTelegramMessage message:', message)
-
     const response = await fetch(
       `https://api.telegram.org/bot${botToken}/sendMessage`,
       {
@@ -76,8 +103,11 @@ export class TelegramChannel extends BaseChannel {
     )
 
     if (!response.ok) {
-      const data = await response.json() as { description: string }
-      throw new Error(`Telegram 消息推送失败: ${data.description}`)
+      const data = await response.json().catch(() => ({})) as { description?: string, error_code?: number }
+      throw new ChannelError(`Telegram 消息推送失败: ${data.description ?? response.statusText}`, {
+        status: response.status,
+        code: data.error_code,
+      })
     }
 
     return response
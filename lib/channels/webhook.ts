@@ -1,4 +1,5 @@
-import { BaseChannel, ChannelConfig, SendMessageOptions } from "./base"
+import { BaseChannel, ChannelConfig, ChannelError, SendMessageOptions } from "./base"
+import { NormalizedSimpleMessage } from "./simple"
 
 interface WebhookMessage {
   method?: string
@@ -45,6 +46,14 @@ export class WebhookChannel extends BaseChannel {
     ]
   }
 
+  // 以 JSON 请求体原样发送通用消息的各个字段
+  fromSimpleMessage(message: NormalizedSimpleMessage): WebhookMessage {
+    return {
+      method: "POST",
+      body: JSON.stringify(message),
+    }
+  }
+
   async sendMessage(
     message: WebhookMessage,
     options: SendMessageOptions
@@ -55,8 +64,6 @@ export class WebhookChannel extends BaseChannel {
       throw new Error("缺少 Webhook 地址")
     }
 
-    console.log('sendWebhookMessage message:', message)
-
     const method = message.method === 'GET' ? 'GET' : 'POST'
     const headers = message.method === 'GET' ? message.headers : {
       'Content-Type': 'application/json',
@@ -88,7 +95,7 @@ export class WebhookChannel extends BaseChannel {
 
       if (!response.ok) {
         const text = await response.text()
-        throw new Error(`Webhook 请求失败: ${text}`)
+        throw new ChannelError(`Webhook 请求失败: ${text}`, { status: response.status })
       }
 
       return response
@@ -1,5 +1,7 @@
-﻿import { BaseChannel, ChannelConfig, SendMessageOptions, TemplateField } from "./base"
+﻿import { BaseChannel, ChannelConfig, ChannelError, SendMessageOptions, TemplateField } from "./base"
 import { fetchViaHttpProxy } from "@/lib/http-proxy"
+import { NormalizedSimpleMessage } from "./simple"
+import { toWecomMarkdown } from "./wecom"
 
 interface WecomAppMessage {
   msgtype: string
@@ -165,9 +167,18 @@ const TEMPLATE_CARD_SHARED_FIELDS: TemplateField[] = [
 ]
 
 export class WecomAppChannel extends BaseChannel {
+  // 45009: 接口调用超过限制, 45033: 接口并发调用超过限制
+  protected readonly rateLimitCodes = [45009, 45033]
+  // -1: 系统繁忙
+  protected readonly transientCodes = [-1]
+
   readonly config: ChannelConfig = {
     type: "wecom_app",
     label: "企业微信应用",
+    limits: [
+      { field: "text.content", maxLength: 2048, unit: "bytes", match: { msgtype: "text" } },
+      { field: "markdown.content", maxLength: 2048, unit: "bytes", format: "markdown", match: { msgtype: "markdown" } },
+    ],
     templates: [
       {
         type: "text",
@@ -269,6 +280,7 @@ export class WecomAppChannel extends BaseChannel {
           ...DUPLICATE_FIELDS,
           { key: "msgtype", component: "hidden", defaultValue: "markdown" },
         ],
+        escape: { escaper: "escapeWecomMarkdown", fields: ["markdown.content"] },
       },
       {
         type: "textcard",
@@ -558,6 +570,15 @@ export class WecomAppChannel extends BaseChannel {
     ]
   }
 
+  // 应用消息的 Markdown 不支持 @ 成员，提及的成员 ID 作为接收人；未提及时默认发送给 @all
+  fromSimpleMessage(message: NormalizedSimpleMessage): WecomAppMessage {
+    return {
+      msgtype: "markdown",
+      markdown: { content: toWecomMarkdown(message) },
+      touser: message.mentionAll ? "@all" : message.mentions.join("|") || undefined,
+    }
+  }
+
   private getNestedValue(obj: Record<string, unknown>, path: string): unknown {
     return path.split(".").reduce((acc: unknown, part: string) => {
       if (acc == null || typeof acc !== "object") return undefined
@@ -737,7 +758,7 @@ export class WecomAppChannel extends BaseChannel {
 
         if (!relayResponse.ok) {
           const errText = await relayResponse.text()
-          throw new Error(`Relay 服务报错: ${relayResponse.status} ${errText}`)
+          throw new ChannelError(`Relay 服务报错: ${relayResponse.status} ${errText}`, { status: relayResponse.status })
         }
 
         tokenData = await relayResponse.json() as WecomTokenResponse
@@ -747,14 +768,17 @@ export class WecomAppChannel extends BaseChannel {
       }
 
       if (tokenData.errcode !== 0 || !tokenData.access_token) {
-        throw new Error(`获取访问令牌失败: ${tokenData.errmsg || "未知错误"}`)
+        throw new ChannelError(`获取访问令牌失败: ${tokenData.errmsg || "未知错误"}`, { code: tokenData.errcode })
       }
     } else {
       const tokenResponse = await fetch(tokenUrl)
-      tokenData = await tokenResponse.json() as WecomTokenResponse
+      if (!tokenResponse.ok) {
+        throw new ChannelError(`获取访问令牌失败: HTTP ${tokenResponse.status}`, { status: tokenResponse.status })
+      }
 
-      if (!tokenResponse.ok || !tokenData.access_token) {
-        throw new Error(`获取访问令牌失败: ${tokenData.errmsg}`)
+      tokenData = await tokenResponse.json() as WecomTokenResponse
+      if (!tokenData.access_token) {
+        throw new ChannelError(`获取访问令牌失败: ${tokenData.errmsg}`, { code: tokenData.errcode })
       }
     }
 
@@ -780,7 +804,7 @@ export class WecomAppChannel extends BaseChannel {
 
         if (!relayResponse.ok) {
           const errText = await relayResponse.text()
-          throw new Error(`Relay 服务报错: ${relayResponse.status} ${errText}`)
+          throw new ChannelError(`Relay 服务报错: ${relayResponse.status} ${errText}`, { status: relayResponse.status })
         }
 
         sendData = await relayResponse.json() as WecomSendResponse
@@ -802,11 +826,14 @@ export class WecomAppChannel extends BaseChannel {
         },
         body: messageBody,
       })
+      if (!response.ok) {
+        throw new ChannelError(`企业微信应用消息推送失败: HTTP ${response.status}`, { status: response.status })
+      }
       sendData = await response.json() as WecomSendResponse
     }
 
     if (sendData.errcode !== 0) {
-      throw new Error(`企业微信应用消息推送失败: ${sendData.errmsg}`)
+      throw new ChannelError(`企业微信应用消息推送失败: ${sendData.errmsg}`, { code: sendData.errcode })
     }
 
     return new Response(JSON.stringify(sendData), {
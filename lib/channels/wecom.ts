@@ -1,4 +1,11 @@
-import { BaseChannel, ChannelConfig, SendMessageOptions } from "./base"
+import { BaseChannel, ChannelConfig, ChannelError, SendMessageOptions } from "./base"
+import {
+  isMobileMention,
+  markdownToPlainText,
+  NormalizedSimpleMessage,
+  SIMPLE_LEVEL_EMOJIS,
+  SimpleLevel,
+} from "./simple"
 
 interface WecomMessage {
   msgtype: "text" | "markdown"
@@ -12,10 +19,42 @@ interface WecomMessage {
   }
 }
 
+// 企业微信 Markdown 只支持 info(绿色)、comment(灰色)、warning(橙红色) 三种字体颜色
+const SIMPLE_LEVEL_COLORS: Record<SimpleLevel, string> = {
+  info: "info",
+  warning: "warning",
+  error: "warning",
+  critical: "warning",
+}
+
+/**
+ * 通用消息转换为企业微信 Markdown，群机器人和应用消息共用；不支持图片，以链接形式展示
+ */
+export function toWecomMarkdown(message: NormalizedSimpleMessage, extra: string[] = []) {
+  const emoji = SIMPLE_LEVEL_EMOJIS[message.level]
+  const title = message.title && `**<font color="${SIMPLE_LEVEL_COLORS[message.level]}">${emoji} ${message.title}</font>**`
+  return [
+    title,
+    message.body,
+    message.image && `[查看图片](${message.image})`,
+    message.url && `[查看详情](${message.url})`,
+    ...extra,
+  ].filter(Boolean).join("\n\n")
+}
+
 export class WecomChannel extends BaseChannel {
+  // 45009: 接口调用超过限制
+  protected readonly rateLimitCodes = [45009]
+  // -1: 系统繁忙
+  protected readonly transientCodes = [-1]
+
   readonly config: ChannelConfig = {
     type: "wecom",
     label: "企业微信群机器人",
+    limits: [
+      { field: "text.content", maxLength: 2048, unit: "bytes", match: { msgtype: "text" } },
+      { field: "markdown.content", maxLength: 4096, unit: "bytes", format: "markdown", match: { msgtype: "markdown" } },
+    ],
     templates: [
       {
         type: "text",
@@ -53,11 +92,41 @@ export class WecomChannel extends BaseChannel {
             component: "textarea"
           },
           { key: "msgtype", component: 'hidden', defaultValue: "markdown" },
-        ]
+        ],
+        escape: { escaper: "escapeWecomMarkdown", fields: ["markdown.content"] },
       }
     ]
   }
 
+  // Markdown 消息只能通过 <@userid> 提及成员，按手机号或 @all 提及时改用文本消息
+  fromSimpleMessage(message: NormalizedSimpleMessage): WecomMessage {
+    const mobiles = message.mentions.filter(isMobileMention)
+    const userIds = message.mentions.filter(mention => !isMobileMention(mention))
+
+    if (mobiles.length > 0 || message.mentionAll) {
+      const content = [
+        message.title && `${SIMPLE_LEVEL_EMOJIS[message.level]} ${message.title}`,
+        markdownToPlainText(message.body),
+        message.image,
+        message.url,
+      ].filter(Boolean).join("\n\n")
+      return {
+        msgtype: "text",
+        text: {
+          content,
+          mentioned_list: [...userIds, ...(message.mentionAll ? ["@all"] : [])],
+          mentioned_mobile_list: mobiles,
+        },
+      }
+    }
+
+    const mentions = userIds.map(userId => `<@${userId}>`).join(" ")
+    return {
+      msgtype: "markdown",
+      markdown: { content: toWecomMarkdown(message, mentions ? [mentions] : []) },
+    }
+  }
+
   async sendMessage(
     message: WecomMessage,
     options: SendMessageOptions
@@ -83,8 +152,6 @@ export class WecomChannel extends BaseChannel {
       }
     }
 
-    console.log('sendWecomMessage message:', message)
-
     const response = await fetch(webhook, {
       method: 'POST',
       headers: {
@@ -93,9 +160,13 @@ export class WecomChannel extends BaseChannel {
       body: JSON.stringify(message),
     })
 
+    if (!response.ok) {
+      throw new ChannelError(`企业微信机器人消息推送失败: HTTP ${response.status}`, { status: response.status })
+    }
+
     const data = await response.json() as { errcode?: number, errmsg: string }
-    if (!response.ok || data.errcode !== 0) {
-      throw new Error(`企业微信机器人消息推送失败: ${data.errmsg}`)
+    if (data.errcode !== 0) {
+      throw new ChannelError(`企业微信机器人消息推送失败: ${data.errmsg}`, { status: response.status, code: data.errcode })
     }
 
     return new Response(JSON.stringify(data), {
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest"
+import { CronSyntaxError, getNextRunTime, validateCron } from "./cron"
+
+const at = (iso: string) => new Date(iso).getTime()
+const next = (expression: string, timezone: string, after: string) =>
+  new Date(getNextRunTime(expression, timezone, at(after))).toISOString()
+
+describe("validateCron", () => {
+  it("检查段数和取值范围", () => {
+    expect(validateCron("*/5 * * * *")).toBeNull()
+    expect(validateCron("0 9 * * 1-5")).toBeNull()
+    expect(validateCron("* * *")).toBe("cron 表达式需要 5 段：分 时 日 月 周")
+    expect(validateCron("60 * * * *")).not.toBeNull()
+    expect(validateCron("0 0 * 13 *")).not.toBeNull()
+  })
+
+  it("永远不会执行的表达式视为不合法", () => {
+    expect(validateCron("0 0 31 2 *")).toBe("cron 表达式没有可执行的时间")
+    expect(validateCron("0 0 29 2 *")).toBeNull()
+  })
+})
+
+describe("getNextRunTime", () => {
+  it("按时区的本地时间计算", () => {
+    // 上海 08:00，当天 09:00 执行
+    expect(next("0 9 * * *", "Asia/Shanghai", "2026-01-01T00:00:00Z")).toBe("2026-01-01T01:00:00.000Z")
+    expect(next("0 9 * * *", "UTC", "2026-01-01T00:00:00Z")).toBe("2026-01-01T09:00:00.000Z")
+  })
+
+  it("不包含 after 本身", () => {
+    expect(next("0 9 * * *", "Asia/Shanghai", "2026-01-01T01:00:00Z")).toBe("2026-01-02T01:00:00.000Z")
+    expect(next("*/15 * * * *", "UTC", "2026-01-01T00:14:59Z")).toBe("2026-01-01T00:15:00.000Z")
+  })
+
+  it("同时限定日和星期时满足其一即可", () => {
+    // 2026-01-05 是星期一
+    expect(next("0 0 1 * 1", "UTC", "2026-01-01T00:00:00Z")).toBe("2026-01-05T00:00:00.000Z")
+    expect(next("0 0 1 * 1", "UTC", "2026-01-26T00:00:00Z")).toBe("2026-02-01T00:00:00.000Z")
+  })
+
+  it("跨月和闰年", () => {
+    expect(next("0 0 31 * *", "UTC", "2026-04-01T00:00:00Z")).toBe("2026-05-31T00:00:00.000Z")
+    expect(next("0 0 29 2 *", "UTC", "2026-03-01T00:00:00Z")).toBe("2028-02-29T00:00:00.000Z")
+  })
+
+  it("夏令时开始时跳过的本地时间顺延到切换之后", () => {
+    // 纽约 2026-03-08 02:00 调到 03:00，02:30 不存在
+    expect(next("30 2 * * *", "America/New_York", "2026-03-08T05:00:00Z")).toBe("2026-03-08T07:30:00.000Z")
+  })
+
+  it("夏令时结束时重复的本地时间只执行一次", () => {
+    // 纽约 2026-11-01 02:00 调回 01:00，01:30 出现两次
+    const first = next("30 1 * * *", "America/New_York", "2026-11-01T04:00:00Z")
+    expect(first).toBe("2026-11-01T05:30:00.000Z")
+    expect(next("30 1 * * *", "America/New_York", first)).toBe("2026-11-02T06:30:00.000Z")
+  })
+
+  it("没有可执行的时间时抛出 CronSyntaxError", () => {
+    expect(() => getNextRunTime("0 0 30 2 *", "UTC", Date.now())).toThrow(CronSyntaxError)
+  })
+})
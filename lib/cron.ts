@@ -0,0 +1,185 @@
+// ---------------------------------------------------------------------------
+// cron 表达式
+//   标准 5 段：分 时 日 月 周，如 0 9 * * 1-5 表示工作日 9:00
+//   支持 * , - / 以及 @hourly、@daily、@weekly、@monthly、@yearly 别名
+//   日和周同时指定时满足任一即可，与常见 cron 实现一致
+// ---------------------------------------------------------------------------
+
+export const DEFAULT_TIMEZONE = "Asia/Shanghai"
+
+const CRON_ALIASES: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+}
+
+const CRON_FIELDS = [
+  { name: "分钟", min: 0, max: 59 },
+  { name: "小时", min: 0, max: 23 },
+  { name: "日期", min: 1, max: 31 },
+  { name: "月份", min: 1, max: 12 },
+  // 0 和 7 都表示周日
+  { name: "星期", min: 0, max: 7 },
+]
+
+// 查找下次执行时间时最多向后查找的时间，避免 2 月 31 日这类永远不会到达的表达式死循环
+const MAX_LOOKUP_MS = 5 * 366 * 24 * 60 * 60 * 1000
+
+export class CronSyntaxError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "CronSyntaxError"
+  }
+}
+
+interface CronExpression {
+  minutes: Set<number>
+  hours: Set<number>
+  days: Set<number>
+  months: Set<number>
+  weekdays: Set<number>
+  // 日或周为 * 时只按另一个字段匹配
+  anyDay: boolean
+  anyWeekday: boolean
+}
+
+function parseField(value: string, field: typeof CRON_FIELDS[number]): Set<number> {
+  const result = new Set<number>()
+  for (const part of value.split(",")) {
+    const match = /^(?:\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part)
+    if (!match) throw new CronSyntaxError(`${field.name}格式错误: ${part}`)
+
+    const [, from, to, stepText] = match
+    const step = stepText ? Number(stepText) : 1
+    const start = from !== undefined ? Number(from) : field.min
+    // 5/15 表示从 5 开始每隔 15，单独的数字只匹配自身
+    const end = to !== undefined ? Number(to) : from !== undefined && !stepText ? start : field.max
+    if (start < field.min || end > field.max || start > end || step < 1) {
+      throw new CronSyntaxError(`${field.name}超出范围 ${field.min}-${field.max}: ${part}`)
+    }
+    for (let i = start; i <= end; i += step) result.add(i)
+  }
+  return result
+}
+
+export function parseCron(expression: string): CronExpression {
+  const trimmed = expression.trim()
+  const parts = (CRON_ALIASES[trimmed.toLowerCase()] ?? trimmed).split(/\s+/)
+  if (parts.length !== 5) {
+    throw new CronSyntaxError("cron 表达式需要 5 段：分 时 日 月 周")
+  }
+
+  const [minutes, hours, days, months, weekdays] = parts.map((part, i) => parseField(part, CRON_FIELDS[i]))
+  if (weekdays.delete(7)) weekdays.add(0)
+
+  return {
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    anyDay: parts[2].startsWith("*"),
+    anyWeekday: parts[4].startsWith("*"),
+  }
+}
+
+/**
+ * 校验 cron 表达式，返回错误信息，合法时返回 null
+ * 语法正确但永远不会执行的表达式 (如 0 0 31 2 *) 同样视为不合法
+ */
+export function validateCron(expression: string): string | null {
+  try {
+    getNextRunTime(expression, "UTC", Date.now())
+    return null
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error)
+  }
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// 时区在该时刻相对 UTC 的偏移 (毫秒)
+export function getTimezoneOffset(timestamp: number, timezone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(timestamp))
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)?.value)
+
+  const local = Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second"))
+  return local - Math.floor(timestamp / 1000) * 1000
+}
+
+// 把时区的本地时间转换为时间戳，夏令时跳过的本地时间顺延到切换之后
+export function localToTimestamp(local: number, timezone: string): number {
+  const offset = getTimezoneOffset(local, timezone)
+  const guess = local - offset
+  const corrected = getTimezoneOffset(guess, timezone)
+  if (corrected === offset) return guess
+
+  const timestamp = local - corrected
+  return getTimezoneOffset(timestamp, timezone) === corrected ? timestamp : guess
+}
+
+function matchesDay(cron: CronExpression, date: Date): boolean {
+  const day = cron.days.has(date.getUTCDate())
+  const weekday = cron.weekdays.has(date.getUTCDay())
+  if (cron.anyDay) return weekday
+  if (cron.anyWeekday) return day
+  return day || weekday
+}
+
+/**
+ * 计算 after 之后 (不含) 的下次执行时间，cron 表达式按 timezone 的本地时间解释
+ */
+export function getNextRunTime(expression: string, timezone: string, after: number): number {
+  const cron = parseCron(expression)
+
+  // 在本地时间上逐级查找，这里的 Date 只用 UTC 方法做日历运算
+  let local = Math.floor((after + getTimezoneOffset(after, timezone)) / 60000) * 60000 + 60000
+  const limit = local + MAX_LOOKUP_MS
+
+  while (local < limit) {
+    const date = new Date(local)
+    const [year, month, day, hour] = [
+      date.getUTCFullYear(),
+      date.getUTCMonth(),
+      date.getUTCDate(),
+      date.getUTCHours(),
+    ]
+
+    if (!cron.months.has(month + 1)) {
+      local = Date.UTC(year, month + 1, 1)
+    } else if (!matchesDay(cron, date)) {
+      local = Date.UTC(year, month, day + 1)
+    } else if (!cron.hours.has(hour)) {
+      local = Date.UTC(year, month, day, hour + 1)
+    } else if (!cron.minutes.has(date.getUTCMinutes())) {
+      local += 60000
+    } else {
+      const timestamp = localToTimestamp(local, timezone)
+      if (timestamp > after) return timestamp
+      // 夏令时结束时重复的本地时间只执行一次
+      local += 60000
+    }
+  }
+
+  throw new CronSyntaxError("cron 表达式没有可执行的时间")
+}
@@ -1,9 +1,15 @@
 import { sql } from "drizzle-orm"
-import { text, sqliteTable, index } from "drizzle-orm/sqlite-core"
+import { text, integer, sqliteTable, index } from "drizzle-orm/sqlite-core"
 import { createInsertSchema, createSelectSchema } from "drizzle-zod"
 import { relations } from "drizzle-orm"
 import { z } from "zod"
 import { channels } from "./channels"
+import { isValidRetryPolicy } from "@/lib/channels/retry"
+import { isValidRateLimit } from "@/lib/rate-limit"
+import { isValidQuietHours } from "@/lib/quiet-hours"
+import { isValidBodySchema } from "@/lib/body-schema"
+import { OVERFLOW_MODES } from "@/lib/channels/split"
+import { validateCondition } from "@/lib/template"
 
 export const endpoints = sqliteTable("endpoints", {
   id: text("id").primaryKey(),
@@ -13,27 +19,183 @@ export const endpoints = sqliteTable("endpoints", {
   channelId: text("channel_id").notNull(),
   createdAt: text("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
   rule: text("rule").notNull(),
+  // 重试策略 JSON，为空时继承渠道配置
+  retryPolicy: text("retry_policy"),
+  // 推送模式，async 时立即返回 202 并在后台投递
+  deliveryMode: text("delivery_mode", { enum: ["sync", "async"] }).notNull().default("sync"),
+  // 访问令牌，设置后推送请求需携带令牌或签名
+  accessToken: text("access_token"),
+  // 按消息格式自动转义插入的变量
+  autoEscape: integer("auto_escape", { mode: "boolean" }).notNull().default(false),
+  // 按请求内容路由的规则 (EndpointRoute[] JSON)，都不匹配时使用接口自身的渠道
+  routes: text("routes"),
+  // 过滤规则 (EndpointFilter[] JSON)，请求体命中任一规则时跳过推送
+  filters: text("filters"),
+  // 去重键模版，如 ${body.alertname}，去重窗口内相同的键只推送一次
+  dedupKey: text("dedup_key"),
+  // 去重窗口 (秒)
+  dedupWindow: integer("dedup_window"),
+  // 令牌桶限流配置 JSON，为空时不限流
+  rateLimit: text("rate_limit"),
+  // 摘要模式的合并窗口 (分钟)，设置后请求先保存，窗口结束时合并为一条消息推送
+  digestWindow: integer("digest_window"),
+  // 摘要模式下累计达到该数量时立即推送，为空时只按窗口推送
+  digestMaxItems: integer("digest_max_items"),
+  // 摘要消息模版，可通过 items 访问合并的请求体，为空时使用接口的消息模版
+  digestRule: text("digest_rule"),
+  // 免打扰时段配置 JSON，设置后覆盖各推送渠道自身的配置
+  quietHours: text("quiet_hours"),
+  // 请求体格式：必填字段数组或 JSON Schema 对象，为空时不校验
+  bodySchema: text("body_schema"),
+  // 消息超出渠道长度限制时分段发送或截断
+  overflowMode: text("overflow_mode", { enum: Object.values(OVERFLOW_MODES) as [string, ...string[]] }).notNull().default(OVERFLOW_MODES.SPLIT),
 }, (table) => ({
   userIdIdx: index("endpoints_user_id_idx").on(table.userId),
   channelIdIdx: index("endpoints_channel_id_idx").on(table.channelId),
 }))
 
-export const endpointsRelations = relations(endpoints, ({ one }) => ({
+export const ENDPOINT_CHANNEL_KIND = {
+  // 与主渠道并行推送
+  PARALLEL: "parallel",
+  // 主渠道推送失败后按顺序尝试，直到有一个成功
+  FALLBACK: "fallback",
+  // 推送后未确认时按顺序升级通知，每一步等待 delayMinutes 分钟
+  ESCALATION: "escalation",
+} as const
+
+export type EndpointChannelKind = typeof ENDPOINT_CHANNEL_KIND[keyof typeof ENDPOINT_CHANNEL_KIND]
+
+// 接口的附加推送渠道和备用渠道，每个渠道使用各自格式的消息模版
+export const endpointChannels = sqliteTable("endpoint_channels", {
+  id: text("id").primaryKey(),
+  endpointId: text("endpoint_id").notNull().references(() => endpoints.id, { onDelete: "cascade" }),
+  channelId: text("channel_id").notNull(),
+  rule: text("rule").notNull(),
+  sortOrder: integer("sort_order").notNull().default(0),
+  kind: text("kind", { enum: Object.values(ENDPOINT_CHANNEL_KIND) as [string, ...string[]] }).notNull().default(ENDPOINT_CHANNEL_KIND.PARALLEL),
+  // 升级步骤在上一步通知后等待确认的分钟数
+  delayMinutes: integer("delay_minutes"),
+}, (table) => ({
+  endpointIdIdx: index("endpoint_channels_endpoint_id_idx").on(table.endpointId),
+}))
+
+export const endpointsRelations = relations(endpoints, ({ one, many }) => ({
   channel: one(channels, {
     fields: [endpoints.channelId],
     references: [channels.id],
   }),
+  endpointChannels: many(endpointChannels),
 }))
 
+export const endpointChannelsRelations = relations(endpointChannels, ({ one }) => ({
+  endpoint: one(endpoints, {
+    fields: [endpointChannels.endpointId],
+    references: [endpoints.id],
+  }),
+  channel: one(channels, {
+    fields: [endpointChannels.channelId],
+    references: [channels.id],
+  }),
+}))
+
+export const endpointChannelSchema = z.object({
+  channelId: z.string().min(1, "请选择推送渠道"),
+  rule: z.string().min(1, "消息模版不能为空"),
+})
+
+// 队列最多延后 12 小时投递，每一步的等待时间不能超过该时间
+export const escalationStepSchema = endpointChannelSchema.extend({
+  delayMinutes: z.number().int().min(1, "等待时间至少为 1 分钟").max(720, "等待时间最长为 12 小时"),
+})
+
+export type EscalationStep = z.infer<typeof escalationStepSchema>
+
+export const ROUTE_OPERATORS = {
+  EQUALS: "equals",
+  NOT_EQUALS: "not_equals",
+  CONTAINS: "contains",
+  REGEX: "regex",
+  EXISTS: "exists",
+  NOT_EXISTS: "not_exists",
+  GT: "gt",
+  GTE: "gte",
+  LT: "lt",
+  LTE: "lte",
+} as const
+
+export type RouteOperator = typeof ROUTE_OPERATORS[keyof typeof ROUTE_OPERATORS]
+
+function isValidRegex(pattern: string) {
+  try {
+    new RegExp(pattern)
+    return true
+  } catch {
+    return false
+  }
+}
+
+export const routeConditionSchema = z.object({
+  path: z.string().min(1, "请输入字段路径"),
+  operator: z.nativeEnum(ROUTE_OPERATORS),
+  value: z.string().optional(),
+}).refine(
+  condition => condition.operator !== ROUTE_OPERATORS.REGEX || isValidRegex(condition.value ?? ""),
+  { message: "正则表达式格式不正确", path: ["value"] }
+)
+
+export const endpointRouteSchema = z.object({
+  name: z.string().min(1, "请输入路由名称").max(50, "路由名称不能超过50个字符"),
+  // all 要求全部条件满足，any 满足任一条件即可
+  match: z.enum(["all", "any"]),
+  conditions: z.array(routeConditionSchema).min(1, "至少添加一个条件"),
+  targets: z.array(endpointChannelSchema).min(1, "至少添加一个推送渠道"),
+})
+
+export type RouteCondition = z.infer<typeof routeConditionSchema>
+export type EndpointRoute = z.infer<typeof endpointRouteSchema>
+
+export const endpointFilterSchema = z.object({
+  // 与模版中 #if 相同的条件表达式，如 body.status == 'resolved'
+  expression: z.string().min(1, "请输入过滤条件").superRefine((expression, ctx) => {
+    const error = validateCondition(expression)
+    if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, message: error })
+  }),
+  // 跳过时返回的原因，为空时使用表达式本身
+  reason: z.string().max(100, "原因不能超过100个字符").optional(),
+})
+
+export type EndpointFilter = z.infer<typeof endpointFilterSchema>
+
 export const insertEndpointSchema = createInsertSchema(endpoints).extend({
   name: z.string().min(1, "名称不能为空").max(50, "名称不能超过50个字符"),
   userId: z.string().optional(),
   id: z.string().optional(),
   channelId: z.string().min(1, "请选择推送渠道"),
   rule: z.string().min(1, "消息模版不能为空"),
+  retryPolicy: z.string().nullable().optional().refine(isValidRetryPolicy, "重试策略格式不正确"),
+  deliveryMode: z.enum(["sync", "async"]).optional(),
+  overflowMode: z.nativeEnum(OVERFLOW_MODES).optional(),
+  extraChannels: z.array(endpointChannelSchema).optional(),
+  fallbackChannels: z.array(endpointChannelSchema).optional(),
+  escalationSteps: z.array(escalationStepSchema).optional(),
+  // 表单和接口中使用数组，写入数据库前序列化为 JSON
+  routes: z.array(endpointRouteSchema).optional(),
+  filters: z.array(endpointFilterSchema).optional(),
+  dedupKey: z.string().max(200, "去重键不能超过200个字符").nullable().optional(),
+  dedupWindow: z.number().int().min(1, "去重窗口至少为 1 秒").max(86400, "去重窗口最长为 1 天").nullable().optional(),
+  rateLimit: z.string().nullable().optional().refine(isValidRateLimit, "限流配置格式不正确"),
+  // 队列最多延后 12 小时投递，合并窗口不能超过该时间
+  digestWindow: z.number().int().min(1, "合并窗口至少为 1 分钟").max(720, "合并窗口最长为 12 小时").nullable().optional(),
+  digestMaxItems: z.number().int().min(2, "合并数量至少为 2").max(1000, "合并数量最多为 1000").nullable().optional(),
+  digestRule: z.string().nullable().optional(),
+  quietHours: z.string().nullable().optional().refine(isValidQuietHours, "免打扰配置格式不正确"),
+  bodySchema: z.string().max(20000, "请求体格式不能超过20000个字符").nullable().optional()
+    .refine(isValidBodySchema, "请求体格式不正确，应为必填字段数组或 JSON Schema 对象"),
 })
 
 export const selectEndpointSchema = createSelectSchema(endpoints)
 
 export type Endpoint = typeof endpoints.$inferSelect
+export type EndpointChannel = typeof endpointChannels.$inferSelect
+export type EndpointWithExtraChannels = Endpoint & { endpointChannels?: EndpointChannel[] }
 export type NewEndpoint = z.infer<typeof insertEndpointSchema> 
\ No newline at end of file
@@ -0,0 +1,58 @@
+import { sql, relations } from "drizzle-orm"
+import { text, integer, sqliteTable, index } from "drizzle-orm/sqlite-core"
+import { endpoints } from "./endpoints"
+
+export const ESCALATION_STATUS = {
+  // 等待确认，未确认时按升级步骤继续通知
+  ACTIVE: "active",
+  ACKNOWLEDGED: "acknowledged",
+  // 所有升级步骤都已通知，仍未确认
+  EXHAUSTED: "exhausted",
+} as const
+
+export type EscalationStatus = typeof ESCALATION_STATUS[keyof typeof ESCALATION_STATUS]
+
+export interface EscalationEvent {
+  type: "notify" | "ack"
+  // 毫秒时间戳
+  at: number
+  // 通知的步骤，0 为接口自身的渠道
+  step?: number
+  channelName?: string
+  messageId?: string
+  // 确认方式，如确认链接或用户名
+  by?: string
+}
+
+// 配置了升级步骤的接口每次推送创建一条记录，确认前按步骤依次通知升级渠道
+export const escalations = sqliteTable("escalations", {
+  id: text("id").primaryKey(),
+  userId: text("user_id").notNull(),
+  endpointId: text("endpoint_id").notNull().references(() => endpoints.id, { onDelete: "cascade" }),
+  // 首次推送的日志 ID
+  messageId: text("message_id").notNull(),
+  status: text("status", { enum: Object.values(ESCALATION_STATUS) as [string, ...string[]] }).notNull().default(ESCALATION_STATUS.ACTIVE),
+  // 已通知的升级步骤数
+  step: integer("step").notNull().default(0),
+  // 下一步通知的推送日志 ID，确认后标记为已跳过
+  nextMessageId: text("next_message_id"),
+  // 下一步通知的时间 (毫秒时间戳)
+  nextStepAt: integer("next_step_at"),
+  ackedAt: integer("acked_at"),
+  ackedBy: text("acked_by"),
+  // 通知和确认的时间线 (EscalationEvent[] JSON)
+  timeline: text("timeline").notNull().default("[]"),
+  createdAt: text("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  userIdIdx: index("escalations_user_id_idx").on(table.userId),
+  endpointIdIdx: index("escalations_endpoint_id_idx").on(table.endpointId),
+}))
+
+export const escalationsRelations = relations(escalations, ({ one }) => ({
+  endpoint: one(endpoints, {
+    fields: [escalations.endpointId],
+    references: [endpoints.id],
+  }),
+}))
+
+export type Escalation = typeof escalations.$inferSelect
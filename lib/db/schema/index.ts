@@ -1,4 +1,9 @@
 export * from "./auth"
 export * from "./channels"
 export * from "./endpoints"
-export * from "./endpoint-groups"
\ No newline at end of file
+export * from "./endpoint-groups"
+export * from "./push-logs"
+export * from "./throttle"
+export * from "./schedules"
+export * from "./escalations"
+export * from "./variables"
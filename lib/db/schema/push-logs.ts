@@ -0,0 +1,53 @@
+import { sql, relations } from "drizzle-orm"
+import { text, integer, sqliteTable, index } from "drizzle-orm/sqlite-core"
+import { endpoints } from "./endpoints"
+import { channels } from "./channels"
+
+export const PUSH_LOG_STATUS = {
+  PENDING: "pending",
+  SUCCESS: "success",
+  FAILED: "failed",
+  // 命中接口的过滤规则，没有推送
+  SKIPPED: "skipped",
+} as const
+
+export type PushLogStatus = typeof PUSH_LOG_STATUS[keyof typeof PUSH_LOG_STATUS]
+
+export const pushLogs = sqliteTable("push_logs", {
+  id: text("id").primaryKey(),
+  userId: text("user_id").notNull(),
+  endpointId: text("endpoint_id"),
+  channelId: text("channel_id"),
+  groupId: text("group_id"),
+  // 接口组推送时，子记录指向接口组的父记录
+  parentId: text("parent_id"),
+  status: text("status", { enum: Object.values(PUSH_LOG_STATUS) as [string, ...string[]] }).notNull().default(PUSH_LOG_STATUS.PENDING),
+  message: text("message"),
+  requestBody: text("request_body"),
+  responseStatus: integer("response_status"),
+  responseBody: text("response_body"),
+  latency: integer("latency"),
+  error: text("error"),
+  // 每次发送尝试的明细 (DeliveryAttempt[] JSON)
+  attempts: text("attempts"),
+  createdAt: text("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  userIdIdx: index("push_logs_user_id_idx").on(table.userId),
+  endpointIdIdx: index("push_logs_endpoint_id_idx").on(table.endpointId),
+  parentIdIdx: index("push_logs_parent_id_idx").on(table.parentId),
+  createdAtIdx: index("push_logs_created_at_idx").on(table.createdAt),
+}))
+
+export const pushLogsRelations = relations(pushLogs, ({ one }) => ({
+  endpoint: one(endpoints, {
+    fields: [pushLogs.endpointId],
+    references: [endpoints.id],
+  }),
+  channel: one(channels, {
+    fields: [pushLogs.channelId],
+    references: [channels.id],
+  }),
+}))
+
+export type PushLog = typeof pushLogs.$inferSelect
+export type NewPushLog = typeof pushLogs.$inferInsert
@@ -0,0 +1,67 @@
+import { sql, relations } from "drizzle-orm"
+import { text, integer, sqliteTable, index } from "drizzle-orm/sqlite-core"
+import { createInsertSchema } from "drizzle-zod"
+import { z } from "zod"
+import { endpoints } from "./endpoints"
+import { DEFAULT_TIMEZONE, isValidTimezone, validateCron } from "@/lib/cron"
+
+// 定时推送：带 cron 表达式的周期任务，或推送接口通过 ?sendAt= / ?delay= 创建的一次性任务
+export const schedules = sqliteTable("schedules", {
+  id: text("id").primaryKey(),
+  userId: text("user_id").notNull(),
+  endpointId: text("endpoint_id").notNull().references(() => endpoints.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  // cron 表达式，为空时为一次性任务，推送后删除
+  cron: text("cron"),
+  timezone: text("timezone").notNull().default(DEFAULT_TIMEZONE),
+  // 推送时使用的请求体 JSON
+  body: text("body").notNull(),
+  status: text("status", { enum: ["active", "inactive"] }).notNull().default("active"),
+  // 下次推送时间 (毫秒时间戳)
+  nextRunAt: integer("next_run_at").notNull(),
+  // 一次性任务创建时已写入的推送日志 ID，周期任务为最近一次推送的日志 ID
+  messageId: text("message_id"),
+  // 只推送到接口的该渠道，免打扰时段暂缓的推送使用
+  channelId: text("channel_id"),
+  // 除 body 外传给模版的变量 JSON，如摘要消息的 digest
+  context: text("context"),
+  lastRunAt: integer("last_run_at"),
+  createdAt: text("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  userIdIdx: index("schedules_user_id_idx").on(table.userId),
+  nextRunAtIdx: index("schedules_next_run_at_idx").on(table.nextRunAt),
+}))
+
+export const schedulesRelations = relations(schedules, ({ one }) => ({
+  endpoint: one(endpoints, {
+    fields: [schedules.endpointId],
+    references: [endpoints.id],
+  }),
+}))
+
+function isValidJson(value: string) {
+  try {
+    JSON.parse(value)
+    return true
+  } catch {
+    return false
+  }
+}
+
+export const insertScheduleSchema = createInsertSchema(schedules).extend({
+  id: z.string().optional(),
+  userId: z.string().optional(),
+  name: z.string().min(1, "名称不能为空").max(50, "名称不能超过50个字符"),
+  endpointId: z.string().min(1, "请选择推送接口"),
+  cron: z.string().min(1, "请输入 cron 表达式").superRefine((cron, ctx) => {
+    const error = validateCron(cron)
+    if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, message: error })
+  }),
+  timezone: z.string().refine(isValidTimezone, "时区不正确"),
+  body: z.string().min(1, "请求体不能为空").refine(isValidJson, "请求体不是合法的 JSON"),
+  status: z.enum(["active", "inactive"]).optional(),
+  nextRunAt: z.number().optional(),
+})
+
+export type Schedule = typeof schedules.$inferSelect
+export type NewSchedule = z.infer<typeof insertScheduleSchema>
@@ -0,0 +1,27 @@
+import { sql } from "drizzle-orm"
+import { text, integer, sqliteTable, index } from "drizzle-orm/sqlite-core"
+import { endpoints } from "./endpoints"
+
+// 去重窗口和令牌桶等限流状态，key 形如 dedup:<接口ID>:<去重键哈希>、bucket:<接口ID>
+export const throttleState = sqliteTable("throttle_state", {
+  key: text("key").primaryKey(),
+  value: text("value").notNull().default(""),
+  // 过期时间 (毫秒时间戳)，过期后视为不存在
+  expiresAt: integer("expires_at").notNull(),
+}, (table) => ({
+  expiresAtIdx: index("throttle_state_expires_at_idx").on(table.expiresAt),
+}))
+
+// 等待合并为摘要消息推送的请求
+export const digestItems = sqliteTable("digest_items", {
+  id: text("id").primaryKey(),
+  endpointId: text("endpoint_id").notNull().references(() => endpoints.id, { onDelete: "cascade" }),
+  // 对应请求的推送日志 ID
+  messageId: text("message_id").notNull(),
+  body: text("body").notNull(),
+  createdAt: text("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  endpointIdIdx: index("digest_items_endpoint_id_idx").on(table.endpointId),
+}))
+
+export type DigestItem = typeof digestItems.$inferSelect
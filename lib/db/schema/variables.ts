@@ -0,0 +1,37 @@
+import { sql } from "drizzle-orm"
+import { text, integer, sqliteTable, uniqueIndex } from "drizzle-orm/sqlite-core"
+import { createInsertSchema } from "drizzle-zod"
+import { z } from "zod"
+
+// 机密变量在页面、预览和推送日志中显示的掩码
+export const SECRET_MASK = "******"
+
+// 用户自定义变量，消息模版中通过 ${vars.名称} 引用，如值班手机号、看板地址
+export const variables = sqliteTable("variables", {
+  id: text("id").primaryKey(),
+  userId: text("user_id").notNull(),
+  name: text("name").notNull(),
+  value: text("value").notNull(),
+  // 机密变量的值不会返回给页面，推送日志中替换为 ******
+  secret: integer("secret", { mode: "boolean" }).notNull().default(false),
+  description: text("description"),
+  createdAt: text("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: text("updated_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  userIdNameIdx: uniqueIndex("variables_user_id_name_idx").on(table.userId, table.name),
+}))
+
+export const insertVariableSchema = createInsertSchema(variables).extend({
+  id: z.string().optional(),
+  userId: z.string().optional(),
+  name: z.string()
+    .min(1, "名称不能为空")
+    .max(50, "名称不能超过50个字符")
+    .regex(/^[A-Za-z_][A-Za-z0-9_]*$/, "名称只能包含字母、数字和下划线，且不能以数字开头"),
+  value: z.string().max(2000, "值不能超过2000个字符"),
+  secret: z.boolean().optional(),
+  description: z.string().max(100, "说明不能超过100个字符").nullable().optional(),
+})
+
+export type Variable = typeof variables.$inferSelect
+export type NewVariable = z.infer<typeof insertVariableSchema>
@@ -0,0 +1,493 @@
+import { and, eq, inArray } from "drizzle-orm"
+import { getDb } from "@/lib/db"
+import {
+  Endpoint,
+  EndpointChannel,
+  ENDPOINT_CHANNEL_KIND,
+  EndpointChannelKind,
+  EndpointRoute,
+} from "@/lib/db/schema/endpoints"
+import { Channel, channels } from "@/lib/db/schema/channels"
+import { PUSH_LOG_STATUS } from "@/lib/db/schema/push-logs"
+import { renderTemplate, TemplateDiagnostics } from "@/lib/template"
+import { findMatchingRoute, parseRoutes } from "@/lib/routing"
+import { ChannelType, downgradeChannelMessage, findMessageTemplate, sendChannelMessage, toChannelMessage } from "@/lib/channels"
+import { DeliveryAttempt, resolveRetryPolicy } from "@/lib/channels/retry"
+import { OverflowMode } from "@/lib/channels/split"
+import {
+  getQuietHoursEnd,
+  parseQuietHours,
+  QUIET_HOURS_ACTIONS,
+  QuietHoursAction,
+  shouldBypassQuietHours,
+} from "@/lib/quiet-hours"
+import { scheduleOnce } from "@/lib/schedules"
+import {
+  createPushLog,
+  readResponseBody,
+  refreshParentLogStatus,
+  toLogText,
+  updatePushLog,
+} from "@/lib/push-logs"
+import { loadTemplateVariables, maskSecrets, toTemplateData } from "@/lib/variables"
+
+export type EndpointWithChannel = Endpoint & { channel: Channel }
+
+/**
+ * 按接口配置渲染消息，开启自动转义时根据消息模版选择转义函数，通用消息转换为渠道的原生消息
+ */
+export function renderEndpointMessage(
+  endpoint: Pick<Endpoint, "rule" | "autoEscape">,
+  channelType: string,
+  data: Record<string, unknown>,
+  diagnostics?: TemplateDiagnostics
+): unknown {
+  const template = endpoint.autoEscape
+    ? findMessageTemplate(channelType as ChannelType, JSON.parse(endpoint.rule))
+    : undefined
+
+  const message = renderTemplate(endpoint.rule, data, '', {
+    escape: template?.escape,
+    diagnostics,
+  })
+  return toChannelMessage(channelType as ChannelType, message)
+}
+
+function parseJsonArray(value: unknown): unknown[] | null {
+  if (typeof value !== "string" || !value.trim().startsWith("[")) return null
+  try {
+    const parsed = JSON.parse(value)
+    return Array.isArray(parsed) ? parsed : null
+  } catch {
+    return null
+  }
+}
+
+// 把逐条渲染的消息合并为一条：各条相同的字段保持不变，不同的文本按空行拼接，
+// 对象数组 (如 embeds、blocks、卡片元素) 依次连接，字符串数组 (如 @ 的成员) 去重合并
+function mergeMessages(messages: unknown[]): unknown {
+  const [first] = messages
+  if (messages.every(message => isEqual(message, first))) return first
+
+  const arrays = messages.map(message => Array.isArray(message) ? message : parseJsonArray(message))
+  if (arrays.every(Boolean)) {
+    const items = arrays.flatMap(array => array!)
+    const merged = items.every(item => typeof item === "string") ? Array.from(new Set(items)) : items
+    return typeof first === "string" ? JSON.stringify(merged) : merged
+  }
+
+  if (messages.every(message => typeof message === "string")) {
+    return messages.join("\n\n")
+  }
+
+  if (messages.every(message => message && typeof message === "object" && !Array.isArray(message))) {
+    const records = messages as Record<string, unknown>[]
+    const keys = Array.from(new Set(records.flatMap(record => Object.keys(record))))
+    return Object.fromEntries(keys.map(key => [
+      key,
+      mergeMessages(records.map(record => record[key]).filter(value => value !== undefined)),
+    ]))
+  }
+
+  return first
+}
+
+function isEqual(a: unknown, b: unknown) {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+/**
+ * 摘要消息使用单条消息模版时 (接口未配置摘要模版或附加渠道使用自己的模版)，
+ * 用该模版逐条渲染合并的请求再合并为一条消息，否则按摘要模版渲染一次
+ */
+function renderTargetMessage(
+  endpoint: Pick<Endpoint, "autoEscape" | "digestRule">,
+  rule: string,
+  channelType: string,
+  data: Record<string, unknown>
+): unknown {
+  const digest = data.digest as { items?: unknown[] } | undefined
+  if (!digest?.items?.length || rule === endpoint.digestRule) {
+    return renderEndpointMessage({ rule, autoEscape: endpoint.autoEscape }, channelType, data)
+  }
+  return mergeMessages(digest.items.map(body =>
+    renderEndpointMessage({ rule, autoEscape: endpoint.autoEscape }, channelType, { ...data, body })
+  ))
+}
+
+// 模版中的 endpoint 和 channel 变量，只暴露不含凭据的字段
+export function getEndpointVariables(endpoint: Pick<Endpoint, "id" | "name">) {
+  return { id: endpoint.id, name: endpoint.name }
+}
+
+export function getChannelVariables(channel: Pick<Channel, "id" | "name" | "type">) {
+  return { id: channel.id, name: channel.name, type: channel.type }
+}
+
+export interface MessagePreview {
+  message: unknown
+  unresolved: string[]
+  errors: TemplateDiagnostics["errors"]
+}
+
+/**
+ * 预览接口消息，不调用渠道；模版本身有语法错误时 message 为 null
+ */
+export function previewEndpointMessage(
+  endpoint: Pick<Endpoint, "rule" | "autoEscape">,
+  channelType: string,
+  data: Record<string, unknown>
+): MessagePreview {
+  const diagnostics: TemplateDiagnostics = { unresolved: [], errors: [] }
+  try {
+    const message = renderEndpointMessage(endpoint, channelType, data, diagnostics)
+    return { message, ...diagnostics }
+  } catch (error) {
+    return {
+      message: null,
+      unresolved: diagnostics.unresolved,
+      errors: [...diagnostics.errors, {
+        expression: "",
+        message: error instanceof Error ? error.message : String(error),
+      }],
+    }
+  }
+}
+
+export type EndpointWithChannels = EndpointWithChannel & {
+  endpointChannels?: (EndpointChannel & { channel: Channel | null })[]
+}
+
+// 一次推送的目标渠道及其使用的消息模版，主渠道失败时依次尝试备用渠道
+interface DeliveryTarget {
+  channel: Channel
+  rule: string
+  fallbacks: Omit<DeliveryTarget, "fallbacks">[]
+}
+
+export interface ChannelDeliveryResult {
+  // 最终送达的渠道，全部失败时为目标渠道
+  channelId: string
+  channelName: string
+  messageId: string
+  success: boolean
+  // 是否由备用渠道送达
+  fallback?: boolean
+  // 处于免打扰时段时的处理方式
+  quietHours?: QuietHoursAction
+  // 免打扰暂缓推送的时间
+  heldUntil?: string
+  error?: string
+}
+
+// 渠道已被删除的记录直接跳过
+function getEndpointChannels(endpoint: EndpointWithChannels, kind: EndpointChannelKind) {
+  return (endpoint.endpointChannels ?? [])
+    .filter(item => item.kind === kind)
+    .sort((a, b) => a.sortOrder - b.sortOrder)
+    .flatMap(item => item.channel ? [{ channel: item.channel, rule: item.rule }] : [])
+}
+
+/**
+ * 主渠道在前并带上备用渠道，附加渠道按排序在后
+ */
+function getDeliveryTargets(endpoint: EndpointWithChannels): DeliveryTarget[] {
+  const extras = getEndpointChannels(endpoint, ENDPOINT_CHANNEL_KIND.PARALLEL)
+    .map(target => ({ ...target, fallbacks: [] }))
+  return [
+    {
+      channel: endpoint.channel,
+      rule: endpoint.rule,
+      fallbacks: getEndpointChannels(endpoint, ENDPOINT_CHANNEL_KIND.FALLBACK),
+    },
+    ...extras,
+  ]
+}
+
+interface DeliveryTrace {
+  message?: string
+  attempts: DeliveryAttempt[]
+}
+
+/**
+ * 渲染模版并推送到单个渠道，渲染结果和发送尝试记录到 trace 中
+ */
+async function sendToChannel(
+  endpoint: EndpointWithChannel,
+  target: Omit<DeliveryTarget, "fallbacks">,
+  data: Record<string, unknown>,
+  trace: DeliveryTrace,
+  tagAttempts: boolean,
+  downgrade: boolean
+): Promise<Response> {
+  const { channel } = target
+  const rendered = renderTargetMessage(
+    endpoint,
+    target.rule,
+    channel.type,
+    { ...data, channel: getChannelVariables(channel) }
+  )
+  const messageObj = downgrade ? downgradeChannelMessage(channel.type as ChannelType, rendered) : rendered
+  trace.message = JSON.stringify(messageObj)
+
+  return sendChannelMessage(
+    channel.type as any,
+    messageObj,
+    {
+      webhook: channel.webhook,
+      secret: channel.secret,
+      corpId: channel.corpId,
+      agentId: channel.agentId,
+      botToken: channel.botToken,
+      chatId: channel.chatId,
+      socks5Proxy: channel.socks5Proxy,
+    },
+    {
+      retryPolicy: resolveRetryPolicy(endpoint.retryPolicy, channel.retryPolicy),
+      overflowMode: endpoint.overflowMode as OverflowMode,
+      onAttempt: (attempt) => trace.attempts.push(tagAttempts ? { ...attempt, channelId: channel.id } : attempt),
+    }
+  )
+}
+
+/**
+ * 目标渠道当前处于免打扰时段且消息不满足放行条件时，返回处理方式和时段结束时间
+ * 接口的免打扰配置优先于渠道自身的配置
+ */
+function checkQuietHours(
+  endpoint: Pick<Endpoint, "quietHours">,
+  channel: Channel,
+  data: Record<string, unknown>
+) {
+  const config = parseQuietHours(endpoint.quietHours) ?? parseQuietHours(channel.quietHours)
+  if (!config) return null
+
+  const until = getQuietHoursEnd(config)
+  if (until === null || shouldBypassQuietHours(config, data)) return null
+  return { action: config.action, until }
+}
+
+/**
+ * 免打扰时段内丢弃或暂缓推送，结果写回 logId 对应的推送日志
+ * 暂缓的推送在时段结束后只投递到该渠道，日志保持处理中
+ */
+async function deferToQuietHours(
+  endpoint: EndpointWithChannel,
+  target: DeliveryTarget,
+  data: Record<string, unknown>,
+  logId: string,
+  quiet: { action: QuietHoursAction, until: number }
+): Promise<ChannelDeliveryResult> {
+  const { channel } = target
+  const result = {
+    channelId: channel.id,
+    channelName: channel.name,
+    messageId: logId,
+    success: true,
+    quietHours: quiet.action,
+  }
+
+  if (quiet.action === QUIET_HOURS_ACTIONS.DROP) {
+    await updatePushLog(logId, {
+      status: PUSH_LOG_STATUS.SKIPPED,
+      channelId: channel.id,
+      error: "免打扰时段，已丢弃",
+    })
+    return result
+  }
+
+  const heldUntil = new Date(quiet.until).toISOString()
+  // 自定义变量在补推时重新读取，不保存到定时任务中
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { body, vars, env, ...context } = data
+  await scheduleOnce(endpoint, logId, body, quiet.until, {
+    name: `${endpoint.name} (免打扰暂缓)`,
+    channelId: channel.id,
+    context,
+  })
+  await updatePushLog(logId, {
+    channelId: channel.id,
+    error: `免打扰时段，将在 ${heldUntil} 后推送`,
+  })
+  return { ...result, heldUntil }
+}
+
+/**
+ * 推送到目标渠道，失败时按顺序尝试备用渠道，结果写回 logId 对应的推送日志
+ * 由备用渠道送达时日志的渠道改为实际送达的渠道
+ * 目标渠道处于免打扰时段时按配置丢弃、暂缓或静默推送，ignoreQuietHours 时照常推送
+ * 备用渠道同样检查各自的免打扰时段，丢弃或暂缓时跳过该备用渠道
+ * 写入日志的消息、响应和错误中的机密变量值替换为掩码
+ */
+async function deliverToTarget(
+  endpoint: EndpointWithChannel,
+  target: DeliveryTarget,
+  data: Record<string, unknown>,
+  logId: string,
+  { secrets = [], ignoreQuietHours = false }: { secrets?: string[], ignoreQuietHours?: boolean } = {}
+): Promise<ChannelDeliveryResult> {
+  const quiet = ignoreQuietHours ? null : checkQuietHours(endpoint, target.channel, data)
+  if (quiet && quiet.action !== QUIET_HOURS_ACTIONS.DOWNGRADE) {
+    return deferToQuietHours(endpoint, target, data, logId, quiet)
+  }
+
+  const startedAt = Date.now()
+  const chain = [target, ...target.fallbacks]
+  const trace: DeliveryTrace = { attempts: [] }
+  const errors: string[] = []
+
+  for (const [index, candidate] of chain.entries()) {
+    // 备用渠道按各自的免打扰时段处理，处于免打扰时段且不是静默推送时跳过该渠道
+    const candidateQuiet = index === 0 || ignoreQuietHours
+      ? quiet
+      : checkQuietHours(endpoint, candidate.channel, data)
+    if (candidateQuiet && candidateQuiet.action !== QUIET_HOURS_ACTIONS.DOWNGRADE) {
+      errors.push(`${candidate.channel.name}: 免打扰时段，已跳过`)
+      continue
+    }
+    const downgrade = !!candidateQuiet
+
+    trace.message = undefined
+    try {
+      const response = await sendToChannel(endpoint, candidate, data, trace, chain.length > 1, downgrade)
+
+      await updatePushLog(logId, {
+        status: PUSH_LOG_STATUS.SUCCESS,
+        channelId: candidate.channel.id,
+        message: toLogText(maskSecrets(trace.message, secrets)),
+        responseStatus: response.status,
+        responseBody: maskSecrets(await readResponseBody(response), secrets),
+        latency: Date.now() - startedAt,
+        attempts: maskSecrets(JSON.stringify(trace.attempts), secrets),
+        error: errors.length > 0 ? maskSecrets(errors.join("；"), secrets) : null,
+      })
+
+      return {
+        channelId: candidate.channel.id,
+        channelName: candidate.channel.name,
+        messageId: logId,
+        success: true,
+        ...(index > 0 ? { fallback: true } : {}),
+        ...(downgrade ? { quietHours: QUIET_HOURS_ACTIONS.DOWNGRADE } : {}),
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      errors.push(chain.length > 1 ? `${candidate.channel.name}: ${message}` : message)
+    }
+  }
+
+  const error = maskSecrets(errors.join("；"), secrets)
+  await updatePushLog(logId, {
+    status: PUSH_LOG_STATUS.FAILED,
+    channelId: target.channel.id,
+    message: toLogText(maskSecrets(trace.message, secrets)),
+    responseStatus: trace.attempts.at(-1)?.status ?? null,
+    latency: Date.now() - startedAt,
+    error,
+    attempts: trace.attempts.length > 0 ? maskSecrets(JSON.stringify(trace.attempts), secrets) : null,
+  })
+
+  return {
+    channelId: target.channel.id,
+    channelName: target.channel.name,
+    messageId: logId,
+    success: false,
+    error,
+  }
+}
+
+export interface EndpointDeliveryResult {
+  // 匹配的路由名称，使用默认路由时为 null
+  route: string | null
+  results: ChannelDeliveryResult[]
+}
+
+/**
+ * 路由的目标渠道，已被删除的渠道跳过
+ */
+async function getRouteTargets(endpoint: Endpoint, route: EndpointRoute): Promise<DeliveryTarget[]> {
+  const channelList = await getDb().query.channels.findMany({
+    where: and(
+      inArray(channels.id, route.targets.map(target => target.channelId)),
+      eq(channels.userId, endpoint.userId)
+    ),
+  })
+  return route.targets.flatMap(target => {
+    const channel = channelList.find(c => c.id === target.channelId)
+    return channel ? [{ channel, rule: target.rule, fallbacks: [] }] : []
+  })
+}
+
+export interface DeliverOptions {
+  // 只推送到该渠道并忽略免打扰，用于免打扰时段结束后补推和升级通知，结果直接写回 messageId 对应的日志
+  channelId?: string
+  // channelId 为接口的升级步骤渠道
+  escalation?: boolean
+}
+
+/**
+ * 推送到接口的所有渠道，返回每个渠道的结果，失败原因已写入推送日志，不会抛出
+ * 请求体匹配某条路由时推送到该路由的渠道，否则使用接口自身的渠道 (默认路由)
+ * 只有一个渠道时结果直接写回 messageId 对应的日志；
+ * 有多个渠道时每个渠道各自记录一条子日志并行推送，messageId 对应的日志汇总状态
+ * context 中的变量会与 body 一起传给模版，如请求的 query、headers 和摘要消息的 digest，
+ * endpoint、channel 和自定义变量 vars 在推送时补充
+ */
+export async function deliverToEndpoint(
+  endpoint: EndpointWithChannels,
+  body: unknown,
+  messageId: string,
+  context: Record<string, unknown> = {},
+  options: DeliverOptions = {}
+): Promise<EndpointDeliveryResult> {
+  const { values, secrets } = await loadTemplateVariables(endpoint.userId)
+  const data = { ...context, body, endpoint: getEndpointVariables(endpoint), ...toTemplateData(values) }
+  const routes = parseRoutes(endpoint.routes)
+  const route = routes[findMatchingRoute(routes, body)]
+  const routeTargets = route ? await getRouteTargets(endpoint, route) : []
+  const targets = routeTargets.length > 0 ? routeTargets : getDeliveryTargets(endpoint)
+  const routeName = routeTargets.length > 0 ? route.name : null
+
+  if (options.channelId) {
+    const candidates = options.escalation
+      ? getEndpointChannels(endpoint, ENDPOINT_CHANNEL_KIND.ESCALATION).map(target => ({ ...target, fallbacks: [] }))
+      : targets
+    const target = candidates.find(t => t.channel.id === options.channelId)
+    if (!target) {
+      const error = "渠道已不在接口的推送目标中"
+      await updatePushLog(messageId, { status: PUSH_LOG_STATUS.FAILED, error })
+      return {
+        route: routeName,
+        results: [{ channelId: options.channelId, channelName: "", messageId, success: false, error }],
+      }
+    }
+    return {
+      route: routeName,
+      results: [await deliverToTarget(endpoint, target, data, messageId, { secrets, ignoreQuietHours: true })],
+    }
+  }
+
+  if (targets.length === 1) {
+    return {
+      route: routeName,
+      results: [await deliverToTarget(endpoint, targets[0], data, messageId, { secrets })],
+    }
+  }
+
+  const startedAt = Date.now()
+  const results = await Promise.all(targets.map(async target => {
+    const logId = await createPushLog({
+      userId: endpoint.userId,
+      endpointId: endpoint.id,
+      channelId: target.channel.id,
+      parentId: messageId,
+      status: PUSH_LOG_STATUS.PENDING,
+    })
+    return deliverToTarget(endpoint, target, data, logId, { secrets })
+  }))
+
+  await updatePushLog(messageId, { latency: Date.now() - startedAt })
+  await refreshParentLogStatus(messageId, "渠道")
+
+  return { route: routeName, results }
+}
@@ -0,0 +1,82 @@
+import { count, eq, min } from "drizzle-orm"
+import { getDb } from "@/lib/db"
+import { Endpoint, endpoints } from "@/lib/db/schema/endpoints"
+import { PUSH_LOG_STATUS } from "@/lib/db/schema/push-logs"
+import { digestItems } from "@/lib/db/schema/throttle"
+import { createPushLog } from "@/lib/push-logs"
+import { getPushQueue } from "@/lib/queue"
+import { MAX_QUEUE_DELAY_SECONDS } from "@/lib/throttle"
+
+// 摘要推送任务丢失时，超过合并窗口该时间后由定时任务补推
+const STALE_DIGEST_GRACE_MS = 5 * 60 * 1000
+
+export interface DigestSummary {
+  count: number
+  // 最早一条等待合并的请求的时间，没有时为 null
+  oldestAt: string | null
+}
+
+// created_at 为 SQLite CURRENT_TIMESTAMP 格式的 UTC 时间
+function parseTimestamp(value: string) {
+  return new Date(value.replace(" ", "T") + "Z").getTime()
+}
+
+export async function getDigestSummary(endpointId: string): Promise<DigestSummary> {
+  const [row] = await getDb()
+    .select({ count: count(), oldestAt: min(digestItems.createdAt) })
+    .from(digestItems)
+    .where(eq(digestItems.endpointId, endpointId))
+  return { count: row?.count ?? 0, oldestAt: row?.oldestAt ?? null }
+}
+
+/**
+ * 创建摘要消息的推送日志并加入推送队列，delaySeconds 秒后合并接口所有等待中的请求推送
+ */
+export async function scheduleDigest(
+  endpoint: Pick<Endpoint, "id" | "userId" | "channelId">,
+  delaySeconds = 0
+): Promise<string> {
+  const messageId = await createPushLog({
+    userId: endpoint.userId,
+    endpointId: endpoint.id,
+    channelId: endpoint.channelId,
+    status: PUSH_LOG_STATUS.PENDING,
+  })
+  await getPushQueue().send(
+    { messageId, endpointId: endpoint.id, body: null, digest: true },
+    { delaySeconds }
+  )
+  return messageId
+}
+
+/**
+ * 由定时任务调用，推送等待时间已超过合并窗口的摘要消息，返回安排推送的接口数
+ * 正常情况下摘要由延后投递的队列任务推送，这里只补推任务丢失或未配置队列时遗留的请求
+ */
+export async function flushStaleDigests(): Promise<number> {
+  const db = getDb()
+  const pending = await db
+    .select({ endpointId: digestItems.endpointId, oldestAt: min(digestItems.createdAt) })
+    .from(digestItems)
+    .groupBy(digestItems.endpointId)
+  if (pending.length === 0) return 0
+
+  const now = Date.now()
+  let scheduled = 0
+  for (const { endpointId, oldestAt } of pending) {
+    const endpoint = await db.query.endpoints.findFirst({
+      where: eq(endpoints.id, endpointId),
+    })
+    if (!endpoint || !oldestAt) continue
+
+    // 限流时合并的请求没有合并窗口，最多等待排队推送的最长延后时间
+    const windowMs = endpoint.digestWindow
+      ? endpoint.digestWindow * 60 * 1000
+      : MAX_QUEUE_DELAY_SECONDS * 1000
+    if (parseTimestamp(oldestAt) + windowMs + STALE_DIGEST_GRACE_MS > now) continue
+
+    await scheduleDigest(endpoint)
+    scheduled++
+  }
+  return scheduled
+}
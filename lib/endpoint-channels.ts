@@ -0,0 +1,88 @@
+import { and, eq, inArray } from "drizzle-orm"
+import { getDb } from "@/lib/db"
+import { channels } from "@/lib/db/schema/channels"
+import { endpointChannels, EndpointChannelKind, EndpointRoute } from "@/lib/db/schema/endpoints"
+import { getRouteChannelIds } from "@/lib/routing"
+import { generateId } from "@/lib/utils"
+
+export interface EndpointChannelInput {
+  channelId: string
+  rule: string
+  // 升级步骤的等待时间
+  delayMinutes?: number
+}
+
+export class EndpointChannelError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "EndpointChannelError"
+  }
+}
+
+/**
+ * 校验渠道都属于当前用户
+ */
+export async function assertOwnedChannels(userId: string, ids: string[]) {
+  const channelIds = Array.from(new Set(ids))
+  if (channelIds.length === 0) return
+
+  const owned = await getDb().query.channels.findMany({
+    where: and(inArray(channels.id, channelIds), eq(channels.userId, userId)),
+    columns: { id: true },
+  })
+  if (owned.length !== channelIds.length) {
+    throw new EndpointChannelError("推送渠道不存在")
+  }
+}
+
+/**
+ * 写入前一次校验接口引用的所有渠道：主渠道、附加渠道、备用渠道、升级步骤和路由目标
+ * 校验失败时不会留下已创建的接口或只更新了一部分的配置
+ */
+export async function assertEndpointChannels(
+  userId: string,
+  input: {
+    channelId?: string
+    extraChannels?: EndpointChannelInput[]
+    fallbackChannels?: EndpointChannelInput[]
+    escalationSteps?: EndpointChannelInput[]
+    routes?: EndpointRoute[]
+  }
+) {
+  await assertOwnedChannels(userId, [
+    ...(input.channelId ? [input.channelId] : []),
+    ...[input.extraChannels, input.fallbackChannels, input.escalationSteps]
+      .flatMap(items => items?.map(item => item.channelId) ?? []),
+    ...(input.routes ? getRouteChannelIds(input.routes) : []),
+  ])
+}
+
+/**
+ * 用提交的列表整体替换接口的附加渠道、备用渠道或升级步骤，渠道必须属于当前用户
+ */
+export async function replaceEndpointChannels(
+  endpointId: string,
+  userId: string,
+  kind: EndpointChannelKind,
+  items: EndpointChannelInput[]
+) {
+  const db = getDb()
+  await assertOwnedChannels(userId, items.map(item => item.channelId))
+
+  await db.delete(endpointChannels).where(and(
+    eq(endpointChannels.endpointId, endpointId),
+    eq(endpointChannels.kind, kind)
+  ))
+
+  if (items.length > 0) {
+    await db.insert(endpointChannels).values(items.map((item, index) => ({
+      id: generateId(),
+      endpointId,
+      channelId: item.channelId,
+      rule: item.rule,
+      delayMinutes: item.delayMinutes ?? null,
+      sortOrder: index,
+      kind,
+    })))
+  }
+}
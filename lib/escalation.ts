@@ -0,0 +1,235 @@
+import { and, eq, inArray, sql } from "drizzle-orm"
+import { getDb } from "@/lib/db"
+import { ENDPOINT_CHANNEL_KIND } from "@/lib/db/schema/endpoints"
+import { pushLogs, PUSH_LOG_STATUS } from "@/lib/db/schema/push-logs"
+import {
+  Escalation,
+  ESCALATION_STATUS,
+  EscalationEvent,
+  escalations,
+} from "@/lib/db/schema/escalations"
+import { deliverToEndpoint, EndpointWithChannels } from "@/lib/delivery"
+import { createPushLog, toLogText, updatePushLog } from "@/lib/push-logs"
+import { hmacSha256, timingSafeEqual } from "@/lib/push-auth"
+import { getPushQueue, PushJob } from "@/lib/queue"
+import { generateId } from "@/lib/utils"
+
+// ---------------------------------------------------------------------------
+// 升级策略
+//   接口配置了升级步骤时，每次推送后等待确认，超时未确认则按步骤依次通知升级渠道
+//   消息模版中可以通过 ${ackUrl} 插入确认链接，确认后不再继续升级
+// ---------------------------------------------------------------------------
+
+const ACK_TOKEN_PREFIX = "ack"
+
+// 未配置密钥时无法生成安全的确认链接，直接报错而不是使用空密钥签名
+function getAckSecret() {
+  const secret = process.env.AUTH_SECRET
+  if (!secret) {
+    throw new Error("未配置 AUTH_SECRET，无法生成升级确认链接")
+  }
+  return secret
+}
+
+/**
+ * 确认链接中的令牌：升级记录 ID 加上签名，无需登录即可确认
+ */
+export async function signAckToken(escalationId: string): Promise<string> {
+  const signature = await hmacSha256(getAckSecret(), `${ACK_TOKEN_PREFIX}.${escalationId}`)
+  return `${escalationId}.${signature}`
+}
+
+/**
+ * 校验确认令牌，通过时返回升级记录 ID
+ */
+export async function verifyAckToken(token: string): Promise<string | null> {
+  const [escalationId, signature] = token.split(".")
+  if (!escalationId || !signature) return null
+
+  const expected = await hmacSha256(getAckSecret(), `${ACK_TOKEN_PREFIX}.${escalationId}`)
+  return timingSafeEqual(signature, expected) ? escalationId : null
+}
+
+/**
+ * 接口的升级步骤，渠道已被删除的步骤直接跳过
+ */
+export function getEscalationSteps(endpoint: EndpointWithChannels) {
+  return (endpoint.endpointChannels ?? [])
+    .filter(item => item.kind === ENDPOINT_CHANNEL_KIND.ESCALATION)
+    .sort((a, b) => a.sortOrder - b.sortOrder)
+    .flatMap(item => item.channel
+      ? [{ channel: item.channel, delayMinutes: item.delayMinutes ?? 1 }]
+      : [])
+}
+
+// 在一条 UPDATE 中追加事件，避免确认和升级通知同时写入时互相覆盖
+function appendEvent(event: EscalationEvent) {
+  return sql`json_insert(${escalations.timeline}, '$[#]', json(${JSON.stringify(event)}))`
+}
+
+/**
+ * 创建升级通知的推送日志，并延后投递到队列，到期时仍未确认才会推送
+ */
+async function scheduleStep(
+  endpoint: EndpointWithChannels,
+  escalationId: string,
+  step: number,
+  body: unknown,
+  context: Record<string, unknown>
+) {
+  const target = getEscalationSteps(endpoint)[step]
+  const db = getDb()
+  if (!target) {
+    await db.update(escalations)
+      .set({ status: ESCALATION_STATUS.EXHAUSTED, nextMessageId: null, nextStepAt: null })
+      .where(and(eq(escalations.id, escalationId), eq(escalations.status, ESCALATION_STATUS.ACTIVE)))
+    return
+  }
+
+  const delaySeconds = target.delayMinutes * 60
+  const messageId = await createPushLog({
+    userId: endpoint.userId,
+    endpointId: endpoint.id,
+    channelId: target.channel.id,
+    status: PUSH_LOG_STATUS.PENDING,
+    requestBody: toLogText(JSON.stringify(body)),
+  })
+  await db.update(escalations)
+    .set({ nextMessageId: messageId, nextStepAt: Date.now() + delaySeconds * 1000 })
+    .where(eq(escalations.id, escalationId))
+
+  try {
+    await getPushQueue().send({
+      messageId,
+      endpointId: endpoint.id,
+      body,
+      channelId: target.channel.id,
+      context,
+      escalation: { id: escalationId, step },
+    }, { delaySeconds })
+  } catch (error) {
+    await updatePushLog(messageId, {
+      status: PUSH_LOG_STATUS.FAILED,
+      error: `加入推送队列失败: ${error instanceof Error ? error.message : String(error)}`,
+    })
+    throw error
+  }
+}
+
+/**
+ * 接口配置了升级步骤时创建升级记录并安排第一步升级通知，返回确认链接
+ * context 为推送请求的模版变量，与确认链接一起传给每一步升级通知
+ * 没有升级步骤时返回 null
+ */
+export async function startEscalation(
+  endpoint: EndpointWithChannels,
+  messageId: string,
+  body: unknown,
+  origin: string,
+  context: Record<string, unknown>
+): Promise<{ id: string, ackUrl: string } | null> {
+  if (getEscalationSteps(endpoint).length === 0) return null
+
+  const id = generateId()
+  const ackUrl = `${origin}/api/ack/${await signAckToken(id)}`
+  const event: EscalationEvent = {
+    type: "notify",
+    at: Date.now(),
+    step: 0,
+    channelName: endpoint.channel.name,
+    messageId,
+  }
+  await getDb().insert(escalations).values({
+    id,
+    userId: endpoint.userId,
+    endpointId: endpoint.id,
+    messageId,
+    timeline: JSON.stringify([event]),
+  })
+
+  await scheduleStep(endpoint, id, 0, body, { ...context, ackUrl })
+  return { id, ackUrl }
+}
+
+/**
+ * 投递一条升级通知，已确认时跳过；通知后安排下一步，全部通知完后标记为已用尽
+ */
+export async function runEscalationStep(
+  endpoint: EndpointWithChannels,
+  job: PushJob & { escalation: NonNullable<PushJob["escalation"]> }
+) {
+  const db = getDb()
+  const { id, step } = job.escalation
+
+  // 只有等待这一步的升级记录才能继续，确认后或重复投递时跳过
+  const claimed = await db.update(escalations)
+    .set({ step: step + 1 })
+    .where(and(
+      eq(escalations.id, id),
+      eq(escalations.status, ESCALATION_STATUS.ACTIVE),
+      eq(escalations.nextMessageId, job.messageId)
+    ))
+    .returning({ id: escalations.id })
+  if (claimed.length === 0) {
+    await updatePushLog(job.messageId, {
+      status: PUSH_LOG_STATUS.SKIPPED,
+      error: "告警已确认，停止升级",
+    })
+    return
+  }
+
+  const context = job.context ?? {}
+  const { results } = await deliverToEndpoint(endpoint, job.body, job.messageId, context, {
+    channelId: job.channelId,
+    escalation: true,
+  })
+  const [result] = results
+  await db.update(escalations)
+    .set({
+      timeline: appendEvent({
+        type: "notify",
+        at: Date.now(),
+        step: step + 1,
+        channelName: result?.channelName,
+        messageId: job.messageId,
+      }),
+    })
+    .where(eq(escalations.id, id))
+
+  await scheduleStep(endpoint, id, step + 1, job.body, context)
+}
+
+/**
+ * 确认告警，停止后续升级并跳过已安排的升级通知
+ * 已确认过时返回 null
+ */
+export async function acknowledgeEscalation(
+  escalationId: string,
+  by: string,
+  userId?: string
+): Promise<Escalation | null> {
+  const db = getDb()
+  const now = Date.now()
+  const [escalation] = await db.update(escalations)
+    .set({
+      status: ESCALATION_STATUS.ACKNOWLEDGED,
+      ackedAt: now,
+      ackedBy: by,
+      nextStepAt: null,
+      timeline: appendEvent({ type: "ack", at: now, by }),
+    })
+    .where(and(
+      eq(escalations.id, escalationId),
+      inArray(escalations.status, [ESCALATION_STATUS.ACTIVE, ESCALATION_STATUS.EXHAUSTED]),
+      ...(userId ? [eq(escalations.userId, userId)] : [])
+    ))
+    .returning()
+  if (!escalation) return null
+
+  if (escalation.nextMessageId) {
+    await db.update(pushLogs)
+      .set({ status: PUSH_LOG_STATUS.SKIPPED, error: "告警已确认，停止升级" })
+      .where(and(eq(pushLogs.id, escalation.nextMessageId), eq(pushLogs.status, PUSH_LOG_STATUS.PENDING)))
+  }
+  return escalation
+}
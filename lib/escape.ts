@@ -0,0 +1,53 @@
+// 各渠道富文本格式的转义函数，用于把任意文本安全地放进 Markdown / HTML 消息中
+
+// Telegram MarkdownV2：https://core.telegram.org/bots/api#markdownv2-style
+export function escapeMarkdownV2(str: string): string {
+  return str.replace(/[_*[\]()~`>#+\-=|{}.!\\]/g, '\\$&')
+}
+
+// Telegram HTML 只要求转义 & < >，额外转义引号以便放在属性中
+export function escapeHtml(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+// 通用 Markdown（Discord 等），按 CommonMark 规则在标记字符前加反斜杠
+export function escapeMarkdown(str: string): string {
+  return str.replace(/[\\`*_[\]()#>|~]/g, '\\$&')
+}
+
+// 钉钉 Markdown 单个换行不会换行显示，需要在行尾追加两个空格
+export function escapeDingTalkMarkdown(str: string): string {
+  return escapeMarkdown(str).replace(/\r?\n/g, '  \n')
+}
+
+// 企业微信 Markdown 使用 <font> 和 <@userid> 扩展语法，尖括号需要转为实体，避免被当成标签
+export function escapeWecomMarkdown(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/[\\`*_[\]]/g, '\\$&')
+}
+
+// Slack mrkdwn 只要求把 & < > 转为实体，其余标记字符无法转义
+export function escapeSlack(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+}
+
+export const ESCAPERS = {
+  escapeMarkdownV2,
+  escapeHtml,
+  escapeMarkdown,
+  escapeDingTalkMarkdown,
+  escapeWecomMarkdown,
+  escapeSlack,
+} as const
+
+export type Escaper = keyof typeof ESCAPERS
@@ -1,38 +1,67 @@
-export function generateExampleBody(rule: string) {
-    try {
-        const ruleObj = JSON.parse(rule)
-        const exampleBody: Record<string, unknown> = {}
+import { extractVariables } from "./template"
+import { exampleForField, generateExampleFromSchema, parseBodySchema } from "./body-schema"
 
-        // 递归查找所有包含 ${body. 的字段
-        function findBodyVariables(obj: Record<string, unknown>, path: string[] = []) {
-            for (const [key, value] of Object.entries(obj)) {
-                const currentPath = [...path, key]
-                if (typeof value === 'string') {
-                    const matches = value.match(/\$\{body\.([^}]+)\}/g)
-                    if (matches) {
-                        matches.forEach(match => {
-                            const varPath = match.match(/\$\{body\.([^}]+)\}/)![1]
-                            const pathParts = varPath.split('.')
-                            let current = exampleBody
-                            pathParts.slice(0, -1).forEach(part => {
-                                if (!(part in current)) {
-                                    current[part] = {} as Record<string, unknown>
-                                }
-                                current = current[part] as Record<string, unknown>
-                            })
-                            current[pathParts[pathParts.length - 1]] = `示例${pathParts[pathParts.length - 1]}`
-                        })
-                    }
-                } else if (typeof value === 'object' && value !== null) {
-                    findBodyVariables(value as Record<string, unknown>, currentPath)
-                }
-            }
+// 调用方可以在请求中设置的变量，endpoint、channel、request 等由服务端填充，不需要示例
+export interface ExampleRequest {
+    body: Record<string, unknown>
+    query: Record<string, string>
+    headers: Record<string, string>
+}
+
+function setExampleValue(target: Record<string, unknown>, pathParts: string[]) {
+    let current = target
+    pathParts.slice(0, -1).forEach((part, i) => {
+        if (typeof current[part] !== 'object' || current[part] === null) {
+            current[part] = /^\d+$/.test(pathParts[i + 1]) ? [] : {}
         }
+        current = current[part] as Record<string, unknown>
+    })
+    const last = pathParts[pathParts.length - 1]
+    if (!(last in current)) {
+        current[last] = /^\d+$/.test(last) ? {} : exampleForField(last)
+    }
+}
+
+function getSchemaExample(bodySchema?: string | null): Record<string, unknown> {
+    const schema = parseBodySchema(bodySchema)
+    const example = schema ? generateExampleFromSchema(schema) : {}
+    return example && typeof example === 'object' && !Array.isArray(example)
+        ? example as Record<string, unknown>
+        : {}
+}
 
-        findBodyVariables(ruleObj)
-        return exampleBody
+/**
+ * 根据模版中引用的 body.*、query.*、headers.* 变量生成示例请求，循环中的变量生成数组
+ * 接口配置了请求体格式时以格式生成的示例为准，模版中引用的其他字段再补充占位值
+ */
+export function generateExampleRequest(rule: string, bodySchema?: string | null): ExampleRequest {
+    const example: ExampleRequest = { body: getSchemaExample(bodySchema), query: {}, headers: {} }
+    try {
+        JSON.parse(rule)
+        extractVariables(rule).forEach(path => {
+            const [root, ...pathParts] = path.split('.')
+            if (pathParts.length === 0) return
+            if (root === 'body') {
+                setExampleValue(example.body, pathParts)
+            } else if (root === 'query') {
+                // 查询参数和请求头只有一层，值都是字符串
+                example.query[pathParts[0]] = String(exampleForField(pathParts[0]))
+            } else if (root === 'headers') {
+                // 请求头的值只能使用 ASCII 字符
+                example.headers[pathParts[0]] = `example-${pathParts[0]}`
+            }
+        })
+        return example
     } catch (error) {
-        console.error('Error generating example body:', error)
-        return { title: "示例标题", content: "示例内容" }
+        console.error('Error generating example request:', error)
+        const schemaExample = getSchemaExample(bodySchema)
+        return {
+            ...example,
+            body: Object.keys(schemaExample).length > 0 ? schemaExample : { title: exampleForField("title"), content: exampleForField("content") },
+        }
     }
-}
\ No newline at end of file
+}
+
+export function generateExampleBody(rule: string, bodySchema?: string | null) {
+    return generateExampleRequest(rule, bodySchema).body
+}
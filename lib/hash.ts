@@ -0,0 +1,151 @@
+// 同步的 MD5 / SHA-256 实现，供模版函数使用
+// crypto.subtle 只提供异步接口，而模版渲染是同步的，且需要同时运行在浏览器和 Edge Runtime 中
+
+function utf8Bytes(str: string): Uint8Array {
+  return new TextEncoder().encode(str)
+}
+
+function toHex(words: number[], littleEndian: boolean): string {
+  return words.map(word => {
+    let hex = ''
+    for (let i = 0; i < 4; i++) {
+      const shift = littleEndian ? i * 8 : (3 - i) * 8
+      hex += ((word >>> shift) & 0xff).toString(16).padStart(2, '0')
+    }
+    return hex
+  }).join('')
+}
+
+// 按 64 字节分块并追加长度填充，返回 32 位字
+function padMessage(bytes: Uint8Array, littleEndian: boolean): number[] {
+  const length = bytes.length
+  const blockCount = ((length + 8) >> 6) + 1
+  const words = new Array<number>(blockCount * 16).fill(0)
+
+  for (let i = 0; i < length; i++) {
+    const shift = littleEndian ? (i % 4) * 8 : (3 - (i % 4)) * 8
+    words[i >> 2] |= bytes[i] << shift
+  }
+  const endShift = littleEndian ? (length % 4) * 8 : (3 - (length % 4)) * 8
+  words[length >> 2] |= 0x80 << endShift
+
+  const bitLength = length * 8
+  if (littleEndian) {
+    words[blockCount * 16 - 2] = bitLength >>> 0
+    words[blockCount * 16 - 1] = Math.floor(bitLength / 0x100000000)
+  } else {
+    words[blockCount * 16 - 2] = Math.floor(bitLength / 0x100000000)
+    words[blockCount * 16 - 1] = bitLength >>> 0
+  }
+  return words
+}
+
+const MD5_SHIFTS = [
+  7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22,
+  5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20,
+  4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23,
+  6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21,
+]
+const MD5_CONSTANTS = Array.from({ length: 64 }, (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 0x100000000) >>> 0)
+
+export function md5(str: string): string {
+  const words = padMessage(utf8Bytes(str), true)
+  let a0 = 0x67452301
+  let b0 = 0xefcdab89
+  let c0 = 0x98badcfe
+  let d0 = 0x10325476
+
+  for (let offset = 0; offset < words.length; offset += 16) {
+    let a = a0, b = b0, c = c0, d = d0
+    for (let i = 0; i < 64; i++) {
+      let f: number, g: number
+      if (i < 16) {
+        f = (b & c) | (~b & d)
+        g = i
+      } else if (i < 32) {
+        f = (d & b) | (~d & c)
+        g = (5 * i + 1) % 16
+      } else if (i < 48) {
+        f = b ^ c ^ d
+        g = (3 * i + 5) % 16
+      } else {
+        f = c ^ (b | ~d)
+        g = (7 * i) % 16
+      }
+      const temp = d
+      d = c
+      c = b
+      const sum = (a + f + MD5_CONSTANTS[i] + words[offset + g]) | 0
+      b = (b + ((sum << MD5_SHIFTS[i]) | (sum >>> (32 - MD5_SHIFTS[i])))) | 0
+      a = temp
+    }
+    a0 = (a0 + a) | 0
+    b0 = (b0 + b) | 0
+    c0 = (c0 + c) | 0
+    d0 = (d0 + d) | 0
+  }
+
+  return toHex([a0, b0, c0, d0], true)
+}
+
+const SHA256_CONSTANTS = [
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]
+
+function rotr(value: number, bits: number): number {
+  return (value >>> bits) | (value << (32 - bits))
+}
+
+export function sha256(str: string): string {
+  const words = padMessage(utf8Bytes(str), false)
+  const hash = [0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19]
+  const w = new Array<number>(64)
+
+  for (let offset = 0; offset < words.length; offset += 16) {
+    for (let i = 0; i < 64; i++) {
+      if (i < 16) {
+        w[i] = words[offset + i] | 0
+      } else {
+        const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3)
+        const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10)
+        w[i] = (w[i - 16] + s0 + w[i - 7] + s1) | 0
+      }
+    }
+
+    let [a, b, c, d, e, f, g, h] = hash
+    for (let i = 0; i < 64; i++) {
+      const s1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)
+      const ch = (e & f) ^ (~e & g)
+      const temp1 = (h + s1 + ch + SHA256_CONSTANTS[i] + w[i]) | 0
+      const s0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)
+      const maj = (a & b) ^ (a & c) ^ (b & c)
+      const temp2 = (s0 + maj) | 0
+      h = g
+      g = f
+      f = e
+      e = (d + temp1) | 0
+      d = c
+      c = b
+      b = a
+      a = (temp1 + temp2) | 0
+    }
+
+    hash[0] = (hash[0] + a) | 0
+    hash[1] = (hash[1] + b) | 0
+    hash[2] = (hash[2] + c) | 0
+    hash[3] = (hash[3] + d) | 0
+    hash[4] = (hash[4] + e) | 0
+    hash[5] = (hash[5] + f) | 0
+    hash[6] = (hash[6] + g) | 0
+    hash[7] = (hash[7] + h) | 0
+  }
+
+  return toHex(hash, false)
+}
@@ -0,0 +1,68 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import { SIGNATURE_HEADER, signPushBody, TIMESTAMP_HEADER, verifyPushRequest } from "./push-auth"
+
+// 重放检查依赖数据库，这里用内存中的集合代替
+const claimed = new Set<string>()
+vi.mock("@/lib/throttle", () => ({
+  claimSignature: async (signature: string) => {
+    if (claimed.has(signature)) return false
+    claimed.add(signature)
+    return true
+  },
+}))
+
+const TOKEN = "gp_test"
+const URL_BASE = "https://push.example.com/api/push/abc"
+const body = JSON.stringify({ title: "告警" })
+
+function createRequest(headers: Record<string, string> = {}, url = URL_BASE) {
+  return new Request(url, { method: "POST", headers, body })
+}
+
+async function signedHeaders(timestamp = Math.floor(Date.now() / 1000), token = TOKEN) {
+  return {
+    [TIMESTAMP_HEADER]: String(timestamp),
+    [SIGNATURE_HEADER]: `sha256=${await signPushBody(token, String(timestamp), body)}`,
+  }
+}
+
+beforeEach(() => {
+  claimed.clear()
+})
+
+describe("verifyPushRequest", () => {
+  it("Bearer 令牌和 query 令牌", async () => {
+    expect(await verifyPushRequest(createRequest({ authorization: `Bearer ${TOKEN}` }), body, TOKEN)).toBeNull()
+    expect(await verifyPushRequest(createRequest({}, `${URL_BASE}?token=${TOKEN}`), body, TOKEN)).toBeNull()
+  })
+
+  it("缺少或令牌错误时返回错误信息", async () => {
+    expect(await verifyPushRequest(createRequest(), body, TOKEN)).toBe("缺少访问令牌")
+    expect(await verifyPushRequest(createRequest({ authorization: "Bearer wrong" }), body, TOKEN)).toBe("访问令牌无效")
+    expect(await verifyPushRequest(createRequest({}, `${URL_BASE}?token=wrong`), body, TOKEN)).toBe("访问令牌无效")
+  })
+
+  it("令牌不匹配时继续尝试其他方式", async () => {
+    const request = createRequest({ authorization: "Bearer wrong" }, `${URL_BASE}?token=${TOKEN}`)
+    expect(await verifyPushRequest(request, body, TOKEN)).toBeNull()
+    expect(await verifyPushRequest(createRequest({ authorization: "Bearer wrong", ...await signedHeaders() }), body, TOKEN)).toBeNull()
+  })
+
+  it("签名有效时通过，同一签名只能使用一次", async () => {
+    const headers = await signedHeaders()
+    expect(await verifyPushRequest(createRequest(headers), body, TOKEN)).toBeNull()
+    expect(await verifyPushRequest(createRequest(headers), body, TOKEN)).toBe("签名已被使用，请勿重放请求")
+  })
+
+  it("签名错误、请求体被修改或时间戳过期时拒绝", async () => {
+    expect(await verifyPushRequest(createRequest(await signedHeaders(undefined, "other")), body, TOKEN)).toBe("签名无效")
+    expect(await verifyPushRequest(createRequest(await signedHeaders()), `${body} `, TOKEN)).toBe("签名无效")
+    const stale = Math.floor(Date.now() / 1000) - 301
+    expect(await verifyPushRequest(createRequest(await signedHeaders(stale)), body, TOKEN)).toBe("签名已过期")
+  })
+
+  it("签名请求缺少时间戳", async () => {
+    const request = createRequest({ [SIGNATURE_HEADER]: "sha256=00" })
+    expect(await verifyPushRequest(request, body, TOKEN)).toBe(`签名请求缺少 ${TIMESTAMP_HEADER} 请求头`)
+  })
+})
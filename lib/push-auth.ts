@@ -0,0 +1,92 @@
+import { claimSignature } from "@/lib/throttle"
+
+// 接口访问令牌校验，支持三种方式：
+// 1. Authorization: Bearer <token>
+// 2. ?token=<token>
+// 3. X-GrassPush-Timestamp + X-GrassPush-Signature: sha256=HMAC-SHA256(token, `${timestamp}.${rawBody}`)
+export const TIMESTAMP_HEADER = "x-grasspush-timestamp"
+export const SIGNATURE_HEADER = "x-grasspush-signature"
+
+// 签名时间戳允许的最大偏差（秒），超出视为过期，有效期内同一签名只能使用一次
+const SIGNATURE_TOLERANCE = 300
+
+export function generateAccessToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24))
+  return "gp_" + toHex(bytes)
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, b => b.toString(16).padStart(2, "0")).join("")
+}
+
+export function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false
+  let diff = 0
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  }
+  return diff === 0
+}
+
+export async function hmacSha256(secret: string, data: string): Promise<string> {
+  const encoder = new TextEncoder()
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  )
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(data))
+  return toHex(new Uint8Array(signature))
+}
+
+export async function signPushBody(token: string, timestamp: string, rawBody: string): Promise<string> {
+  return hmacSha256(token, `${timestamp}.${rawBody}`)
+}
+
+/**
+ * 校验推送请求是否携带了正确的访问令牌或签名，通过时返回 null，否则返回错误信息
+ * 任意一种方式校验通过即可，令牌不匹配时继续尝试其他方式
+ */
+export async function verifyPushRequest(
+  request: Request,
+  rawBody: string,
+  token: string
+): Promise<string | null> {
+  let error: string | null = null
+
+  const authorization = request.headers.get("authorization")
+  if (authorization?.startsWith("Bearer ")) {
+    if (timingSafeEqual(authorization.slice(7).trim(), token)) return null
+    error = "访问令牌无效"
+  }
+
+  const queryToken = new URL(request.url).searchParams.get("token")
+  if (queryToken !== null) {
+    if (timingSafeEqual(queryToken, token)) return null
+    error = "访问令牌无效"
+  }
+
+  const signature = request.headers.get(SIGNATURE_HEADER)
+  if (signature) {
+    const timestamp = request.headers.get(TIMESTAMP_HEADER)
+    if (!timestamp || !/^\d+$/.test(timestamp)) {
+      return `签名请求缺少 ${TIMESTAMP_HEADER} 请求头`
+    }
+    if (Math.abs(Date.now() / 1000 - Number(timestamp)) > SIGNATURE_TOLERANCE) {
+      return "签名已过期"
+    }
+    const expected = await signPushBody(token, timestamp, rawBody)
+    if (!timingSafeEqual(signature.replace(/^sha256=/, ""), expected)) {
+      return "签名无效"
+    }
+    // 签名在时间戳有效期结束前一直占用，同一签名再次出现时视为重放
+    if (!await claimSignature(expected, (Number(timestamp) + SIGNATURE_TOLERANCE) * 1000)) {
+      return "签名已被使用，请勿重放请求"
+    }
+    return null
+  }
+
+  return error ?? "缺少访问令牌"
+}
@@ -0,0 +1,37 @@
+import { EndpointFilter } from "@/lib/db/schema/endpoints"
+import { evaluateCondition } from "@/lib/template"
+
+/**
+ * 解析数据库中的过滤规则 JSON，格式错误时视为没有配置过滤规则
+ */
+export function parseFilters(value?: string | null): EndpointFilter[] {
+  if (!value) return []
+  try {
+    const filters = JSON.parse(value)
+    return Array.isArray(filters) ? filters : []
+  } catch {
+    return []
+  }
+}
+
+export function serializeFilters(filters?: EndpointFilter[]): string | null {
+  return filters && filters.length > 0 ? JSON.stringify(filters) : null
+}
+
+/**
+ * 返回请求体命中的第一条过滤规则，表达式求值出错时视为不命中，避免误丢消息
+ */
+export function findMatchingFilter(filters: EndpointFilter[], data: Record<string, unknown>) {
+  return filters.find(filter => {
+    try {
+      return evaluateCondition(filter.expression, data)
+    } catch (error) {
+      console.warn(`过滤规则求值失败 ${filter.expression}:`, error)
+      return false
+    }
+  })
+}
+
+export function getFilterReason(filter: EndpointFilter): string {
+  return filter.reason || `命中过滤规则: ${filter.expression}`
+}
@@ -0,0 +1,81 @@
+import { eq } from "drizzle-orm"
+import { getDb } from "@/lib/db"
+import { pushLogs, NewPushLog, PUSH_LOG_STATUS } from "@/lib/db/schema/push-logs"
+import { generateId } from "@/lib/utils"
+
+// 接口组转发到单个接口时携带父日志 ID 的请求头
+export const PARENT_LOG_HEADER = "x-grasspush-parent-log"
+
+// 单个字段最多保存的字符数，避免超大请求体撑爆 D1 单行
+const MAX_LOG_TEXT_LENGTH = 10000
+
+export function toLogText(value: unknown): string | null {
+  if (value === undefined || value === null) return null
+  const text = typeof value === "string" ? value : JSON.stringify(value)
+  if (text.length <= MAX_LOG_TEXT_LENGTH) return text
+  return text.slice(0, MAX_LOG_TEXT_LENGTH) + `...(已截断，共 ${text.length} 字符)`
+}
+
+/**
+ * 读取渠道返回的响应内容，响应体已被渠道实现消费时返回 null
+ */
+export async function readResponseBody(response: Response): Promise<string | null> {
+  if (response.bodyUsed) return null
+  try {
+    return toLogText(await response.clone().text())
+  } catch {
+    return null
+  }
+}
+
+/**
+ * 写入推送日志，返回日志 ID
+ * 日志写入失败不应影响推送本身，因此这里只打印错误
+ */
+export async function createPushLog(values: Omit<NewPushLog, "id">): Promise<string> {
+  const id = generateId()
+  try {
+    const db = getDb()
+    await db.insert(pushLogs).values({ ...values, id })
+  } catch (error) {
+    console.error("[PUSH_LOG_CREATE]", error)
+  }
+  return id
+}
+
+export async function updatePushLog(id: string, values: Partial<Omit<NewPushLog, "id">>) {
+  try {
+    const db = getDb()
+    await db.update(pushLogs).set(values).where(eq(pushLogs.id, id))
+  } catch (error) {
+    console.error("[PUSH_LOG_UPDATE]", error)
+  }
+}
+
+/**
+ * 根据子记录汇总父记录的状态，仍有子记录在处理中时保持不变
+ * 子记录可以是接口组下的各个接口，也可以是多渠道接口下的各个渠道
+ * 父记录本身也是子记录时继续向上汇总
+ */
+export async function refreshParentLogStatus(parentId: string, unit: "接口" | "渠道" = "接口") {
+  try {
+    const db = getDb()
+    const children = await db.query.pushLogs.findMany({
+      where: eq(pushLogs.parentId, parentId),
+    })
+    if (children.some(child => child.status === PUSH_LOG_STATUS.PENDING)) return
+
+    const failedCount = children.filter(child => child.status === PUSH_LOG_STATUS.FAILED).length
+    const [parent] = await db.update(pushLogs).set({
+      status: failedCount === 0 ? PUSH_LOG_STATUS.SUCCESS : PUSH_LOG_STATUS.FAILED,
+      error: failedCount > 0 ? `${failedCount}/${children.length} 个${unit}推送失败` : null,
+    }).where(eq(pushLogs.id, parentId)).returning({ parentId: pushLogs.parentId, groupId: pushLogs.groupId })
+
+    // 接口组下的多渠道接口：渠道记录完成后接口记录随之完成，再汇总到接口组记录
+    if (parent?.parentId) {
+      await refreshParentLogStatus(parent.parentId, parent.groupId ? "接口" : "渠道")
+    }
+  } catch (error) {
+    console.error("[PUSH_LOG_REFRESH_PARENT]", error)
+  }
+}
@@ -0,0 +1,150 @@
+import { generateExampleRequest } from "@/lib/generator"
+import { SIGNATURE_HEADER } from "@/lib/push-auth"
+
+// ---------------------------------------------------------------------------
+// 推送请求解析
+//   JSON：body 为解析后的对象
+//   application/x-www-form-urlencoded、multipart/form-data：body 为字段对象，
+//     同名字段合并为数组，文件字段为 { name, type, size }
+//   text/plain 等其他类型：body 为原始文本
+//   未声明 JSON 类型但内容是 JSON 时仍按 JSON 解析
+//   GET：body 为查询参数 (不含 token、async 等推送接口自身的参数)
+// ---------------------------------------------------------------------------
+
+// 推送接口自身使用的查询参数，GET 请求时不作为 body 的字段
+const RESERVED_QUERY_PARAMS = ["token", "async", "sendAt", "delay"]
+
+// 不传给模版的请求头，避免凭据出现在消息中，查询参数中的 token 同样不传
+const HIDDEN_HEADERS = ["authorization", "cookie", SIGNATURE_HEADER]
+
+export class PushBodyError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "PushBodyError"
+  }
+}
+
+export interface PushFile {
+  name: string
+  type: string
+  size: number
+}
+
+// 除 body 外传给模版的请求信息
+export interface PushRequestContext {
+  query: Record<string, string | string[]>
+  headers: Record<string, string>
+  rawBody: string
+  request: {
+    // 调用方 IP，取自 Cloudflare 或反向代理设置的请求头
+    ip: string | null
+    method: string
+    // 收到请求的时间 (ISO 8601)，延后推送时仍为原始请求的时间
+    receivedAt: string
+  }
+}
+
+function toRecord<T>(entries: Iterable<[string, T]>): Record<string, T | T[]> {
+  const record: Record<string, T | T[]> = {}
+  for (const [key, value] of entries) {
+    const existing = record[key]
+    if (existing === undefined) {
+      record[key] = value
+    } else {
+      record[key] = Array.isArray(existing) ? [...existing, value] : [existing, value]
+    }
+  }
+  return record
+}
+
+/**
+ * GET 请求的 body：查询参数去掉推送接口自身的参数
+ */
+export function getQueryBody(searchParams: URLSearchParams) {
+  return toRecord(Array.from(searchParams).filter(([key]) => !RESERVED_QUERY_PARAMS.includes(key)))
+}
+
+/**
+ * 按请求方法和 Content-Type 把请求体转换为模版中的 body
+ * 声明为 JSON 但解析失败时抛出 PushBodyError
+ */
+export async function parsePushBody(request: Request, bytes: ArrayBuffer): Promise<unknown> {
+  if (request.method === "GET") {
+    return getQueryBody(new URL(request.url).searchParams)
+  }
+
+  const rawBody = new TextDecoder().decode(bytes)
+  const contentType = request.headers.get("content-type")?.toLowerCase() ?? ""
+
+  if (contentType.includes("multipart/form-data")) {
+    try {
+      const formData = await new Response(bytes, { headers: { "content-type": contentType } }).formData()
+      return toRecord(Array.from(formData, ([key, value]): [string, string | PushFile] => [
+        key,
+        typeof value === "string" ? value : { name: value.name, type: value.type, size: value.size },
+      ]))
+    } catch {
+      throw new PushBodyError("请求体不是合法的 multipart/form-data")
+    }
+  }
+
+  if (contentType.includes("json")) {
+    try {
+      return JSON.parse(rawBody)
+    } catch {
+      throw new PushBodyError("请求体不是合法的 JSON")
+    }
+  }
+
+  // 内容是 JSON 时优先按 JSON 解析，兼容 curl -d '{...}' 这类未声明 JSON 类型的旧客户端
+  if (/^\s*[{[]/.test(rawBody)) {
+    try {
+      return JSON.parse(rawBody)
+    } catch {
+      // 按声明的类型处理
+    }
+  }
+
+  if (contentType.includes("application/x-www-form-urlencoded")) {
+    return toRecord(new URLSearchParams(rawBody))
+  }
+  return rawBody
+}
+
+function getClientIp(headers: Headers): string | null {
+  return headers.get("cf-connecting-ip")
+    ?? headers.get("x-real-ip")
+    ?? headers.get("x-forwarded-for")?.split(",")[0].trim()
+    ?? null
+}
+
+/**
+ * 模版中除 body 外可用的 query、headers、rawBody 和 request
+ */
+export function getPushRequestContext(request: Request, rawBody: string): PushRequestContext {
+  return {
+    query: toRecord(Array.from(new URL(request.url).searchParams).filter(([key]) => key !== "token")),
+    headers: Object.fromEntries(
+      Array.from(request.headers).filter(([key]) => !HIDDEN_HEADERS.includes(key.toLowerCase()))
+    ),
+    rawBody,
+    request: {
+      ip: getClientIp(request.headers),
+      method: request.method,
+      receivedAt: new Date().toISOString(),
+    },
+  }
+}
+
+/**
+ * 预览模版时使用的请求信息：query、headers 使用模版中引用到的示例值，request 取自预览请求本身
+ */
+export function getPreviewRequestContext(request: Request, rule: string, body: unknown): PushRequestContext {
+  const example = generateExampleRequest(rule)
+  return {
+    query: example.query,
+    headers: example.headers,
+    rawBody: typeof body === "string" ? body : JSON.stringify(body ?? {}),
+    request: { ...getPushRequestContext(request, "").request, method: "POST" },
+  }
+}
@@ -0,0 +1,155 @@
+import { getRequestContext } from "@cloudflare/next-on-pages"
+import { eq } from "drizzle-orm"
+import { getDb } from "@/lib/db"
+import { endpoints } from "@/lib/db/schema/endpoints"
+import { pushLogs, PUSH_LOG_STATUS } from "@/lib/db/schema/push-logs"
+import { deliverToEndpoint, EndpointWithChannels } from "@/lib/delivery"
+import { runEscalationStep } from "@/lib/escalation"
+import { refreshParentLogStatus, toLogText, updatePushLog } from "@/lib/push-logs"
+import { takeDigestItems } from "@/lib/throttle"
+
+export interface PushJob {
+  messageId: string
+  endpointId: string
+  body: unknown
+  // 摘要推送任务，投递时合并接口所有等待中的请求
+  digest?: boolean
+  // 只推送到接口的该渠道并忽略免打扰，免打扰时段暂缓的推送使用
+  channelId?: string
+  // 除 body 外传给模版的变量
+  context?: Record<string, unknown>
+  // 升级通知任务，推送前检查告警是否已确认
+  escalation?: { id: string, step: number }
+}
+
+export interface PushJobOptions {
+  // 延后投递的秒数
+  delaySeconds?: number
+}
+
+export interface PushQueue {
+  send(job: PushJob, options?: PushJobOptions): Promise<void>
+}
+
+/**
+ * 生产环境使用 Cloudflare Queues，由 queue-consumer Worker 回调 /api/messages/[id]/deliver 投递
+ */
+class CloudflarePushQueue implements PushQueue {
+  constructor(private readonly queue: Queue) {}
+
+  async send(job: PushJob, options: PushJobOptions = {}) {
+    await this.queue.send(job, { contentType: "json", delaySeconds: options.delaySeconds })
+  }
+}
+
+/**
+ * 未绑定队列时（本地开发）在当前进程内后台投递
+ * 消息状态仍然持久化在 push_logs 中，可通过状态接口查询
+ * 延后投递依赖当前进程存活，仅适合本地开发
+ */
+class InProcessPushQueue implements PushQueue {
+  async send(job: PushJob, options: PushJobOptions = {}) {
+    const delay = (options.delaySeconds ?? 0) * 1000
+    const task = new Promise(resolve => setTimeout(resolve, delay))
+      .then(() => processPushJob(job))
+      .catch(error => {
+        console.error("[PUSH_QUEUE_IN_PROCESS]", error)
+      })
+
+    try {
+      getRequestContext().ctx.waitUntil(task)
+    } catch {
+      // 不在 Cloudflare 请求上下文中时，任务会随进程继续执行
+    }
+  }
+}
+
+export function getPushQueue(): PushQueue {
+  let queue: Queue | undefined
+  try {
+    queue = getRequestContext().env.PUSH_QUEUE
+  } catch {
+    queue = undefined
+  }
+  return queue ? new CloudflarePushQueue(queue) : new InProcessPushQueue()
+}
+
+/**
+ * 投递一条队列中的消息，已经处理完成的消息直接跳过，保证重复投递时幂等
+ */
+export async function processPushJob(job: PushJob) {
+  const db = getDb()
+
+  const log = await db.query.pushLogs.findFirst({
+    where: eq(pushLogs.id, job.messageId),
+  })
+  if (log && log.status !== PUSH_LOG_STATUS.PENDING) {
+    return
+  }
+
+  const endpoint = await db.query.endpoints.findFirst({
+    where: eq(endpoints.id, job.endpointId),
+    with: {
+      channel: true,
+      endpointChannels: {
+        with: { channel: true },
+      },
+    },
+  })
+
+  if (!endpoint || !endpoint.channel) {
+    await updatePushLog(job.messageId, {
+      status: PUSH_LOG_STATUS.FAILED,
+      error: "接口或推送渠道已被删除",
+    })
+  } else if (job.escalation) {
+    await runEscalationStep(endpoint, { ...job, escalation: job.escalation })
+  } else {
+    // 失败原因已写入推送日志，渠道级别的重试由重试策略负责
+    const { results } = job.digest
+      ? await deliverDigest(endpoint, job.messageId)
+      : await deliverToEndpoint(endpoint, job.body, job.messageId, job.context, { channelId: job.channelId })
+    results.filter(result => !result.success).forEach(result => {
+      console.error("[PUSH_QUEUE_DELIVER]", result.channelName, result.error)
+    })
+  }
+
+  // 接口组下的接口记录带有 groupId，多渠道接口下的渠道记录没有
+  if (log?.parentId) {
+    await refreshParentLogStatus(log.parentId, log.groupId ? "接口" : "渠道")
+  }
+}
+
+/**
+ * 把限流期间或摘要模式下合并的请求作为一条摘要消息推送
+ * 接口配置了摘要模版时主渠道使用摘要模版，模版中 items 和 count 为合并的全部请求体和数量
+ * (digest.items / digest.count 同义)，body 为最后一条请求
+ * 未配置摘要模版时用单条消息模版逐条渲染后合并为一条消息
+ */
+async function deliverDigest(endpoint: EndpointWithChannels, messageId: string) {
+  const items = (await takeDigestItems(endpoint.id)).map(item => JSON.parse(item.body) as unknown)
+  if (items.length === 0) {
+    await updatePushLog(messageId, {
+      status: PUSH_LOG_STATUS.SKIPPED,
+      error: "没有需要合并的消息",
+    })
+    return { route: null, results: [] }
+  }
+
+  await updatePushLog(messageId, { requestBody: toLogText(items) })
+  const digest = { count: items.length, items }
+  return deliverToEndpoint(
+    endpoint.digestRule ? { ...endpoint, rule: endpoint.digestRule } : endpoint,
+    items[items.length - 1],
+    messageId,
+    { ...digest, digest }
+  )
+}
+
+/**
+ * 校验 queue-consumer Worker 回调时携带的密钥
+ */
+export function isQueueRequest(req: Request) {
+  const secret = getRequestContext().env.QUEUE_SECRET
+  return !!secret && req.headers.get("authorization") === `Bearer ${secret}`
+}
@@ -0,0 +1,111 @@
+import { z } from "zod"
+import { DEFAULT_TIMEZONE, getTimezoneOffset, isValidTimezone, localToTimestamp } from "@/lib/cron"
+import { evaluateCondition, validateCondition } from "@/lib/template"
+
+// 免打扰时段内的处理方式
+export const QUIET_HOURS_ACTIONS = {
+  // 暂缓到时段结束后推送
+  HOLD: "hold",
+  // 照常推送，但改为静默通知 (Bark 被动通知、Telegram 静默发送、Discord 不提醒)
+  DOWNGRADE: "downgrade",
+  // 丢弃并记录为已跳过
+  DROP: "drop",
+} as const
+
+export type QuietHoursAction = typeof QUIET_HOURS_ACTIONS[keyof typeof QUIET_HOURS_ACTIONS]
+
+export const QUIET_HOURS_ACTION_LABELS: Record<QuietHoursAction, string> = {
+  [QUIET_HOURS_ACTIONS.HOLD]: "暂缓到结束后推送",
+  [QUIET_HOURS_ACTIONS.DOWNGRADE]: "静默推送",
+  [QUIET_HOURS_ACTIONS.DROP]: "丢弃",
+}
+
+const timeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "时间格式为 HH:mm")
+
+export const quietHoursSchema = z.object({
+  // 开始时间晚于结束时间时跨越午夜，如 22:00 - 08:00
+  start: timeSchema,
+  end: timeSchema,
+  timezone: z.string().refine(isValidTimezone, "时区不正确"),
+  action: z.nativeEnum(QUIET_HOURS_ACTIONS),
+  // 与模版中 #if 相同的条件表达式，满足时忽略免打扰照常推送，如 body.level == 'critical'
+  bypass: z.string().max(200, "条件不能超过200个字符").optional().superRefine((bypass, ctx) => {
+    const error = bypass ? validateCondition(bypass) : null
+    if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, message: error })
+  }),
+}).refine(config => config.start !== config.end, { message: "开始和结束时间不能相同", path: ["end"] })
+
+export type QuietHours = z.infer<typeof quietHoursSchema>
+
+export const DEFAULT_QUIET_HOURS: QuietHours = {
+  start: "22:00",
+  end: "08:00",
+  timezone: DEFAULT_TIMEZONE,
+  action: QUIET_HOURS_ACTIONS.HOLD,
+  bypass: "",
+}
+
+/**
+ * 校验存储在数据库中的免打扰配置 JSON，空值表示不启用
+ */
+export function isValidQuietHours(value?: string | null): boolean {
+  if (!value) return true
+  try {
+    return quietHoursSchema.safeParse(JSON.parse(value)).success
+  } catch {
+    return false
+  }
+}
+
+export function parseQuietHours(value?: string | null): QuietHours | null {
+  if (!value) return null
+  try {
+    const parsed = quietHoursSchema.safeParse(JSON.parse(value))
+    return parsed.success ? parsed.data : null
+  } catch {
+    console.warn(`免打扰配置格式错误，已忽略: ${value}`)
+    return null
+  }
+}
+
+function toMinutes(time: string) {
+  const [hour, minute] = time.split(":").map(Number)
+  return hour * 60 + minute
+}
+
+/**
+ * 当前处于免打扰时段时返回时段结束的时间戳，否则返回 null
+ */
+export function getQuietHoursEnd(config: QuietHours, now = Date.now()): number | null {
+  const local = new Date(now + getTimezoneOffset(now, config.timezone))
+  const minutes = local.getUTCHours() * 60 + local.getUTCMinutes()
+  const start = toMinutes(config.start)
+  const end = toMinutes(config.end)
+
+  const inWindow = start < end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end
+  if (!inWindow) return null
+
+  // 跨越午夜且当前在开始时间之后时，结束时间在第二天
+  const dayOffset = start > end && minutes >= start ? 1 : 0
+  const endLocal = Date.UTC(
+    local.getUTCFullYear(),
+    local.getUTCMonth(),
+    local.getUTCDate() + dayOffset
+  ) + end * 60000
+  return localToTimestamp(endLocal, config.timezone)
+}
+
+/**
+ * 消息满足放行条件时忽略免打扰，条件求值出错时视为不满足
+ */
+export function shouldBypassQuietHours(config: QuietHours, data: Record<string, unknown>): boolean {
+  if (!config.bypass) return false
+  try {
+    return evaluateCondition(config.bypass, data)
+  } catch (error) {
+    console.warn(`免打扰放行条件求值失败 ${config.bypass}:`, error)
+    return false
+  }
+}
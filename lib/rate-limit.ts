@@ -0,0 +1,58 @@
+import { z } from "zod"
+
+// 超出限流后的处理方式
+export const OVERFLOW_ACTIONS = {
+  // 丢弃并记录为已跳过
+  DROP: "drop",
+  // 加入推送队列，等到有令牌时再推送
+  QUEUE: "queue",
+  // 合并为一条摘要消息，等到有令牌时推送
+  DIGEST: "digest",
+} as const
+
+export type OverflowAction = typeof OVERFLOW_ACTIONS[keyof typeof OVERFLOW_ACTIONS]
+
+export const OVERFLOW_ACTION_LABELS: Record<OverflowAction, string> = {
+  [OVERFLOW_ACTIONS.DROP]: "丢弃",
+  [OVERFLOW_ACTIONS.QUEUE]: "排队延后推送",
+  [OVERFLOW_ACTIONS.DIGEST]: "合并为摘要消息",
+}
+
+export const rateLimitSchema = z.object({
+  // 令牌桶容量，即允许的突发推送数
+  capacity: z.number().int().min(1, "容量至少为 1").max(1000, "容量最多为 1000"),
+  // 每分钟补充的令牌数
+  refillPerMinute: z.number().min(0.1, "每分钟至少补充 0.1 个").max(6000, "每分钟最多补充 6000 个"),
+  overflow: z.nativeEnum(OVERFLOW_ACTIONS),
+})
+
+export type RateLimit = z.infer<typeof rateLimitSchema>
+
+export const DEFAULT_RATE_LIMIT: RateLimit = {
+  capacity: 10,
+  refillPerMinute: 10,
+  overflow: OVERFLOW_ACTIONS.DROP,
+}
+
+/**
+ * 校验存储在数据库中的限流配置 JSON，空值表示不限流
+ */
+export function isValidRateLimit(value?: string | null): boolean {
+  if (!value) return true
+  try {
+    return rateLimitSchema.safeParse(JSON.parse(value)).success
+  } catch {
+    return false
+  }
+}
+
+export function parseRateLimit(value?: string | null): RateLimit | null {
+  if (!value) return null
+  try {
+    const parsed = rateLimitSchema.safeParse(JSON.parse(value))
+    return parsed.success ? parsed.data : null
+  } catch {
+    console.warn(`限流配置格式错误，已忽略: ${value}`)
+    return null
+  }
+}
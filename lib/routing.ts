@@ -0,0 +1,122 @@
+import { EndpointRoute, RouteCondition, ROUTE_OPERATORS } from "@/lib/db/schema/endpoints"
+
+export const ROUTE_OPERATOR_LABELS: Record<RouteCondition["operator"], string> = {
+  [ROUTE_OPERATORS.EQUALS]: "等于",
+  [ROUTE_OPERATORS.NOT_EQUALS]: "不等于",
+  [ROUTE_OPERATORS.CONTAINS]: "包含",
+  [ROUTE_OPERATORS.REGEX]: "匹配正则",
+  [ROUTE_OPERATORS.EXISTS]: "存在",
+  [ROUTE_OPERATORS.NOT_EXISTS]: "不存在",
+  [ROUTE_OPERATORS.GT]: "大于",
+  [ROUTE_OPERATORS.GTE]: "大于等于",
+  [ROUTE_OPERATORS.LT]: "小于",
+  [ROUTE_OPERATORS.LTE]: "小于等于",
+}
+
+// 不需要填写比较值的操作符
+export const UNARY_ROUTE_OPERATORS: RouteCondition["operator"][] = [
+  ROUTE_OPERATORS.EXISTS,
+  ROUTE_OPERATORS.NOT_EXISTS,
+]
+
+/**
+ * 解析数据库中的路由 JSON，格式错误时视为没有配置路由
+ */
+export function parseRoutes(value?: string | null): EndpointRoute[] {
+  if (!value) return []
+  try {
+    const routes = JSON.parse(value)
+    return Array.isArray(routes) ? routes : []
+  } catch {
+    return []
+  }
+}
+
+export function serializeRoutes(routes?: EndpointRoute[]): string | null {
+  return routes && routes.length > 0 ? JSON.stringify(routes) : null
+}
+
+export function getRouteChannelIds(routes: EndpointRoute[]): string[] {
+  return routes.flatMap(route => route.targets.map(target => target.channelId))
+}
+
+/**
+ * 按路径读取请求体中的值，支持 severity、$.alert.level、items[0].name 等写法
+ * 只读取自有属性，避免通过路径访问原型链
+ */
+export function resolveRoutePath(body: unknown, path: string): unknown {
+  const keys = path
+    .trim()
+    .replace(/^\$\.?/, "")
+    .replace(/\[(\d+)\]/g, ".$1")
+    .split(".")
+    .filter(Boolean)
+
+  let value = body
+  for (const key of keys) {
+    if (value === null || typeof value !== "object" || !Object.prototype.hasOwnProperty.call(value, key)) {
+      return undefined
+    }
+    value = (value as Record<string, unknown>)[key]
+  }
+  return value
+}
+
+function toText(value: unknown): string {
+  return typeof value === "object" && value !== null ? JSON.stringify(value) : String(value)
+}
+
+function compareNumbers(actual: unknown, expected: string | undefined, compare: (a: number, b: number) => boolean) {
+  if (actual === null || actual === undefined || actual === "" || !expected) return false
+  const a = Number(actual)
+  const b = Number(expected)
+  return Number.isFinite(a) && Number.isFinite(b) && compare(a, b)
+}
+
+export function matchCondition(condition: RouteCondition, body: unknown): boolean {
+  const actual = resolveRoutePath(body, condition.path)
+  const expected = condition.value ?? ""
+  const exists = actual !== undefined && actual !== null
+
+  switch (condition.operator) {
+    case ROUTE_OPERATORS.EXISTS:
+      return exists
+    case ROUTE_OPERATORS.NOT_EXISTS:
+      return !exists
+    case ROUTE_OPERATORS.EQUALS:
+      return exists && toText(actual) === expected
+    case ROUTE_OPERATORS.NOT_EQUALS:
+      return !exists || toText(actual) !== expected
+    case ROUTE_OPERATORS.CONTAINS:
+      if (Array.isArray(actual)) return actual.some(item => toText(item) === expected)
+      return exists && toText(actual).includes(expected)
+    case ROUTE_OPERATORS.REGEX:
+      try {
+        return exists && new RegExp(expected).test(toText(actual))
+      } catch {
+        return false
+      }
+    case ROUTE_OPERATORS.GT:
+      return compareNumbers(actual, condition.value, (a, b) => a > b)
+    case ROUTE_OPERATORS.GTE:
+      return compareNumbers(actual, condition.value, (a, b) => a >= b)
+    case ROUTE_OPERATORS.LT:
+      return compareNumbers(actual, condition.value, (a, b) => a < b)
+    case ROUTE_OPERATORS.LTE:
+      return compareNumbers(actual, condition.value, (a, b) => a <= b)
+    default:
+      return false
+  }
+}
+
+/**
+ * 按顺序返回第一个匹配的路由下标，都不匹配时返回 -1 (使用默认路由)
+ */
+export function findMatchingRoute(routes: EndpointRoute[], body: unknown): number {
+  return routes.findIndex(route => {
+    if (route.conditions.length === 0) return false
+    return route.match === "any"
+      ? route.conditions.some(condition => matchCondition(condition, body))
+      : route.conditions.every(condition => matchCondition(condition, body))
+  })
+}
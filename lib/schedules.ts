@@ -0,0 +1,217 @@
+import { and, asc, eq, lte } from "drizzle-orm"
+import { getDb } from "@/lib/db"
+import { Endpoint, endpoints } from "@/lib/db/schema/endpoints"
+import { pushLogs, PUSH_LOG_STATUS } from "@/lib/db/schema/push-logs"
+import { Schedule, schedules } from "@/lib/db/schema/schedules"
+import { getNextRunTime } from "@/lib/cron"
+import { createPushLog, refreshParentLogStatus, toLogText, updatePushLog } from "@/lib/push-logs"
+import { getPushQueue } from "@/lib/queue"
+import { generateId } from "@/lib/utils"
+
+// 定时任务每 5 分钟执行一次，提前把这段时间内到期的任务延后投递到队列，保证准时推送
+export const SCHEDULE_LOOKAHEAD_SECONDS = 5 * 60
+
+// 定时推送最多提前一年安排
+const MAX_SCHEDULE_DELAY_SECONDS = 365 * 24 * 60 * 60
+
+// 单次定时任务最多处理的数量，剩余的由下一次定时任务处理
+const DISPATCH_BATCH_SIZE = 100
+
+const DELAY_UNITS: Record<string, number> = {
+  s: 1,
+  m: 60,
+  h: 60 * 60,
+  d: 24 * 60 * 60,
+}
+
+export class ScheduleParamError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "ScheduleParamError"
+  }
+}
+
+/**
+ * 解析 ?delay= 参数，支持 90、90s、30m、2h、1d，不带单位时为秒
+ */
+export function parseDelay(value: string): number | null {
+  const match = /^(\d+(?:\.\d+)?)\s*([smhd]?)$/i.exec(value.trim())
+  if (!match) return null
+  return Math.round(Number(match[1]) * DELAY_UNITS[(match[2] || "s").toLowerCase()])
+}
+
+/**
+ * 根据推送请求的 ?sendAt= (ISO 8601 时间) 或 ?delay= 计算推送时间，没有指定时返回 null
+ */
+export function resolveSendAt(searchParams: URLSearchParams, now = Date.now()): number | null {
+  const sendAt = searchParams.get("sendAt")
+  const delay = searchParams.get("delay")
+  if (sendAt && delay) {
+    throw new ScheduleParamError("sendAt 和 delay 不能同时指定")
+  }
+
+  let timestamp: number
+  if (sendAt) {
+    timestamp = Date.parse(sendAt)
+    if (Number.isNaN(timestamp)) {
+      throw new ScheduleParamError(`sendAt 不是合法的时间: ${sendAt}`)
+    }
+  } else if (delay) {
+    const seconds = parseDelay(delay)
+    if (seconds === null) {
+      throw new ScheduleParamError(`delay 格式不正确: ${delay}，示例: 90s、30m、2h、1d`)
+    }
+    timestamp = now + seconds * 1000
+  } else {
+    return null
+  }
+
+  if (timestamp - now > MAX_SCHEDULE_DELAY_SECONDS * 1000) {
+    throw new ScheduleParamError("定时推送最多提前一年")
+  }
+  return timestamp
+}
+
+export interface ScheduleOnceOptions {
+  // 显示在定时推送列表中的名称，默认为接口名称
+  name?: string
+  channelId?: string
+  context?: Record<string, unknown>
+}
+
+/**
+ * 安排一次性的定时推送，推送日志已由调用方创建
+ * 即将到期时直接延后投递到队列，否则写入 schedules 表，由定时任务在到期前投递
+ */
+export async function scheduleOnce(
+  endpoint: Pick<Endpoint, "id" | "userId" | "name">,
+  messageId: string,
+  body: unknown,
+  sendAt: number,
+  { name, channelId, context }: ScheduleOnceOptions = {}
+) {
+  const delaySeconds = Math.max(0, Math.ceil((sendAt - Date.now()) / 1000))
+  if (delaySeconds <= SCHEDULE_LOOKAHEAD_SECONDS) {
+    await getPushQueue().send(
+      { messageId, endpointId: endpoint.id, body, channelId, context },
+      { delaySeconds }
+    )
+    return
+  }
+
+  await getDb().insert(schedules).values({
+    id: generateId(),
+    userId: endpoint.userId,
+    endpointId: endpoint.id,
+    name: name ?? endpoint.name,
+    body: JSON.stringify(body),
+    nextRunAt: sendAt,
+    messageId,
+    channelId: channelId ?? null,
+    context: context ? JSON.stringify(context) : null,
+  })
+}
+
+/**
+ * 占用一次到期的任务：一次性任务直接删除，周期任务推进到下次执行时间
+ * 通过带条件的更新保证并发执行的定时任务中只有一个能占用成功
+ * 定时任务中断期间错过的多次执行只补推一次
+ */
+async function claimSchedule(schedule: Schedule, now: number): Promise<boolean> {
+  const db = getDb()
+  if (!schedule.cron) {
+    const deleted = await db.delete(schedules)
+      .where(eq(schedules.id, schedule.id))
+      .returning({ id: schedules.id })
+    return deleted.length > 0
+  }
+
+  const updated = await db.update(schedules)
+    .set({
+      nextRunAt: getNextRunTime(schedule.cron, schedule.timezone, Math.max(schedule.nextRunAt, now)),
+      lastRunAt: schedule.nextRunAt,
+    })
+    .where(and(eq(schedules.id, schedule.id), eq(schedules.nextRunAt, schedule.nextRunAt)))
+    .returning({ id: schedules.id })
+  return updated.length > 0
+}
+
+async function dispatchSchedule(schedule: Schedule, now: number) {
+  if (!(await claimSchedule(schedule, now))) return false
+
+  const db = getDb()
+  const endpoint = await db.query.endpoints.findFirst({
+    where: eq(endpoints.id, schedule.endpointId),
+  })
+
+  // 一次性任务沿用创建时的推送日志，周期任务每次推送写入一条新的日志
+  const messageId = schedule.cron || !schedule.messageId
+    ? await createPushLog({
+      userId: schedule.userId,
+      endpointId: schedule.endpointId,
+      channelId: endpoint?.channelId,
+      status: PUSH_LOG_STATUS.PENDING,
+      requestBody: toLogText(schedule.body),
+    })
+    : schedule.messageId
+  if (schedule.cron) {
+    await db.update(schedules).set({ messageId }).where(eq(schedules.id, schedule.id))
+  }
+
+  if (endpoint?.status !== "active") {
+    await updatePushLog(messageId, {
+      status: PUSH_LOG_STATUS.SKIPPED,
+      error: "接口已禁用，定时推送未执行",
+    })
+    // 免打扰暂缓的渠道记录跳过后，同样需要汇总到父记录
+    const log = await db.query.pushLogs.findFirst({ where: eq(pushLogs.id, messageId) })
+    if (log?.parentId) {
+      await refreshParentLogStatus(log.parentId, log.groupId ? "接口" : "渠道")
+    }
+    return true
+  }
+
+  try {
+    await getPushQueue().send(
+      {
+        messageId,
+        endpointId: schedule.endpointId,
+        body: JSON.parse(schedule.body),
+        channelId: schedule.channelId ?? undefined,
+        context: schedule.context ? JSON.parse(schedule.context) : undefined,
+      },
+      { delaySeconds: Math.max(0, Math.ceil((schedule.nextRunAt - now) / 1000)) }
+    )
+  } catch (error) {
+    await updatePushLog(messageId, {
+      status: PUSH_LOG_STATUS.FAILED,
+      error: `加入推送队列失败: ${error instanceof Error ? error.message : String(error)}`,
+    })
+    throw error
+  }
+  return true
+}
+
+/**
+ * 由定时任务调用，把即将到期的定时推送投递到队列，返回投递的任务数
+ */
+export async function dispatchDueSchedules(now = Date.now()): Promise<number> {
+  const dueSchedules = await getDb().query.schedules.findMany({
+    where: and(
+      eq(schedules.status, "active"),
+      lte(schedules.nextRunAt, now + SCHEDULE_LOOKAHEAD_SECONDS * 1000)
+    ),
+    orderBy: [asc(schedules.nextRunAt)],
+    limit: DISPATCH_BATCH_SIZE,
+  })
+
+  let dispatched = 0
+  for (const schedule of dueSchedules) {
+    try {
+      if (await dispatchSchedule(schedule, now)) dispatched++
+    } catch (error) {
+      console.error("[SCHEDULE_DISPATCH]", schedule.id, error)
+    }
+  }
+  return dispatched
+}
@@ -1,4 +1,6 @@
 import { Endpoint, NewEndpoint } from "@/lib/db/schema/endpoints"
+import type { MessagePreview } from "@/lib/delivery"
+import type { DigestSummary } from "@/lib/digest"
 import { generateExampleBody } from "../generator"
 
 const API_URL = "/api/endpoints"
@@ -53,11 +55,14 @@ export async function toggleEndpointStatus(id: string) {
   return res.json() as Promise<Endpoint>
 }
 
-export async function testEndpoint(id: string, rule: string) {
-  const exampleBody = generateExampleBody(rule)
+export async function testEndpoint(id: string, rule: string, accessToken?: string | null, bodySchema?: string | null) {
+  const exampleBody = generateExampleBody(rule, bodySchema)
   const res = await fetch(`/api/push/${id}`, {
     method: "POST",
-    headers: { "Content-Type": "application/json" },
+    headers: {
+      "Content-Type": "application/json",
+      ...(accessToken ? { "Authorization": `Bearer ${accessToken}` } : {}),
+    },
     body: JSON.stringify(exampleBody),
   })
 
@@ -69,6 +74,63 @@ export async function testEndpoint(id: string, rule: string) {
   return res.json()
 }
 
+export async function rotateEndpointToken(id: string) {
+  const res = await fetch(`${API_URL}/${id}/token`, {
+    method: "POST",
+  })
+
+  if (!res.ok) {
+    throw new Error("生成令牌失败")
+  }
+
+  return res.json() as Promise<Endpoint>
+}
+
+export async function revokeEndpointToken(id: string) {
+  const res = await fetch(`${API_URL}/${id}/token`, {
+    method: "DELETE",
+  })
+
+  if (!res.ok) {
+    throw new Error("撤销令牌失败")
+  }
+
+  return res.json() as Promise<Endpoint>
+}
+
+export async function previewEndpoint(id: string, body: unknown) {
+  const res = await fetch(`${API_URL}/${id}/preview`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ body }),
+  })
+
+  if (!res.ok) {
+    throw new Error("预览失败")
+  }
+
+  return res.json() as Promise<MessagePreview>
+}
+
+export async function previewRule(data: {
+  rule: string
+  channelId?: string
+  autoEscape?: boolean
+  body: unknown
+}) {
+  const res = await fetch(`${API_URL}/preview`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(data),
+  })
+
+  if (!res.ok) {
+    throw new Error("预览失败")
+  }
+
+  return res.json() as Promise<MessagePreview>
+}
+
 export async function getEndpoints() {
   const response = await fetch(API_URL)
   if (!response.ok) {
@@ -76,4 +138,26 @@ export async function getEndpoints() {
     throw new Error(error.error || '获取接口失败')
   }
   return response.json()
-}   
\ No newline at end of file
+}   
+export async function getEndpointDigest(id: string) {
+  const res = await fetch(`${API_URL}/${id}/digest`)
+
+  if (!res.ok) {
+    throw new Error("获取摘要失败")
+  }
+
+  return res.json() as Promise<DigestSummary>
+}
+
+export async function flushEndpointDigest(id: string) {
+  const res = await fetch(`${API_URL}/${id}/digest`, {
+    method: "POST",
+  })
+
+  if (!res.ok) {
+    const error = await res.json().catch(() => ({})) as { message?: string }
+    throw new Error(error.message || "推送摘要失败")
+  }
+
+  return res.json() as Promise<{ messageId: string, count: number }>
+}
@@ -0,0 +1,15 @@
+import { Escalation } from "@/lib/db/schema/escalations"
+
+const API_URL = "/api/escalations"
+
+export async function ackEscalation(id: string) {
+  const res = await fetch(`${API_URL}/${id}/ack`, {
+    method: "POST",
+  })
+
+  if (!res.ok) {
+    throw new Error("确认失败")
+  }
+
+  return res.json() as Promise<Escalation>
+}
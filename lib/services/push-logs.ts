@@ -0,0 +1,50 @@
+import { PushLog, PushLogStatus } from "@/lib/db/schema/push-logs"
+
+const API_URL = "/api/push-logs"
+
+export interface PushLogWithChildren extends PushLog {
+  children: PushLogWithChildren[]
+}
+
+export interface PushLogFilters {
+  endpointId?: string
+  channelId?: string
+  status?: PushLogStatus
+  from?: string
+  to?: string
+  page?: number
+}
+
+export type PushLogStats = Record<PushLogStatus, number> & { total: number }
+
+function toSearchParams(filters: object) {
+  const params = new URLSearchParams()
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value !== undefined && value !== "") {
+      params.set(key, String(value))
+    }
+  })
+  return params
+}
+
+export async function getPushLogs(filters: PushLogFilters = {}) {
+  const params = toSearchParams(filters)
+
+  const res = await fetch(`${API_URL}?${params.toString()}`)
+  if (!res.ok) {
+    throw new Error("获取推送日志失败")
+  }
+
+  return res.json() as Promise<{ items: PushLogWithChildren[], hasMore: boolean }>
+}
+
+export async function getPushLogStats(filters: Omit<PushLogFilters, "status" | "page"> = {}) {
+  const params = toSearchParams(filters)
+
+  const res = await fetch(`${API_URL}/stats?${params.toString()}`)
+  if (!res.ok) {
+    throw new Error("获取推送统计失败")
+  }
+
+  return res.json() as Promise<PushLogStats>
+}
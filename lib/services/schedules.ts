@@ -0,0 +1,41 @@
+import { NewSchedule, Schedule } from "@/lib/db/schema/schedules"
+
+const API_URL = "/api/schedules"
+
+export async function createSchedule(data: NewSchedule) {
+  const res = await fetch(API_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(data),
+  })
+
+  if (!res.ok) {
+    throw new Error("创建失败")
+  }
+
+  return res.json() as Promise<Schedule>
+}
+
+export async function updateSchedule(id: string, data: Partial<NewSchedule>) {
+  const res = await fetch(`${API_URL}/${id}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(data),
+  })
+
+  if (!res.ok) {
+    throw new Error("更新失败")
+  }
+
+  return res.json() as Promise<Schedule>
+}
+
+export async function deleteSchedule(id: string) {
+  const res = await fetch(`${API_URL}/${id}`, {
+    method: "DELETE",
+  })
+
+  if (!res.ok) {
+    throw new Error("删除失败")
+  }
+}
@@ -0,0 +1,41 @@
+import { NewVariable, Variable } from "@/lib/db/schema/variables"
+
+const API_URL = "/api/variables"
+
+export async function createVariable(data: NewVariable) {
+  const res = await fetch(API_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(data),
+  })
+
+  if (!res.ok) {
+    throw new Error(res.status === 409 ? "变量名已存在" : "创建失败")
+  }
+
+  return res.json() as Promise<Variable>
+}
+
+export async function updateVariable(id: string, data: Partial<NewVariable>) {
+  const res = await fetch(`${API_URL}/${id}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(data),
+  })
+
+  if (!res.ok) {
+    throw new Error(res.status === 409 ? "变量名已存在" : "更新失败")
+  }
+
+  return res.json() as Promise<Variable>
+}
+
+export async function deleteVariable(id: string) {
+  const res = await fetch(`${API_URL}/${id}`, {
+    method: "DELETE",
+  })
+
+  if (!res.ok) {
+    throw new Error("删除失败")
+  }
+}
@@ -0,0 +1,327 @@
+import { md5, sha256 } from "./hash"
+import { ESCAPERS } from "./escape"
+
+// 模版内置函数注册表，渲染引擎和 FunctionSelector 共用
+// 所有函数都是同步的纯函数，既可以在 Edge Runtime 中渲染，也可以在浏览器中预览
+
+export interface TemplateFunctionArg {
+  name: string
+  description: string
+}
+
+export interface TemplateFunction {
+  description: string
+  example: string
+  args: TemplateFunctionArg[]
+  fn: (...args: any[]) => unknown
+}
+
+const isEmpty = (value: unknown) => value === undefined || value === null
+
+const toText = (value: unknown): string => {
+  if (isEmpty(value)) return ''
+  return typeof value === 'object' ? JSON.stringify(value) : String(value)
+}
+
+// 解析来自请求体的时间：10 位数字视为秒级时间戳，13 位视为毫秒，其余交给 Date 解析
+function toDate(value: unknown): Date {
+  if (value instanceof Date) return value
+  if (typeof value === 'number' || (typeof value === 'string' && /^\d+$/.test(value))) {
+    const num = Number(value)
+    return new Date(num < 1e12 ? num * 1000 : num)
+  }
+  const date = new Date(String(value))
+  if (isNaN(date.getTime())) throw new Error(`无法解析的时间: ${value}`)
+  return date
+}
+
+// 按时区取出年月日时分秒，数字表示 UTC 偏移小时数，字符串表示 IANA 时区名
+function getDateParts(date: Date, timezone?: number | string) {
+  if (typeof timezone === 'number') {
+    const shifted = new Date(date.getTime() + timezone * 60 * 60 * 1000)
+    return {
+      YYYY: shifted.getUTCFullYear(),
+      MM: shifted.getUTCMonth() + 1,
+      DD: shifted.getUTCDate(),
+      HH: shifted.getUTCHours(),
+      mm: shifted.getUTCMinutes(),
+      ss: shifted.getUTCSeconds(),
+    }
+  }
+
+  if (typeof timezone === 'string') {
+    try {
+      const parts = Object.fromEntries(
+        new Intl.DateTimeFormat('en-US', {
+          timeZone: timezone,
+          hourCycle: 'h23',
+          year: 'numeric',
+          month: 'numeric',
+          day: 'numeric',
+          hour: 'numeric',
+          minute: 'numeric',
+          second: 'numeric',
+        }).formatToParts(date).map(part => [part.type, part.value])
+      )
+      return {
+        YYYY: Number(parts.year),
+        MM: Number(parts.month),
+        DD: Number(parts.day),
+        HH: Number(parts.hour),
+        mm: Number(parts.minute),
+        ss: Number(parts.second),
+      }
+    } catch {
+      console.warn(`时区设置无效: ${timezone}, 将使用本地时区`)
+    }
+  }
+
+  return {
+    YYYY: date.getFullYear(),
+    MM: date.getMonth() + 1,
+    DD: date.getDate(),
+    HH: date.getHours(),
+    mm: date.getMinutes(),
+    ss: date.getSeconds(),
+  }
+}
+
+function formatDateTime(date: Date, format = 'YYYY-MM-DD HH:mm:ss', timezone?: number | string) {
+  const parts = getDateParts(date, timezone)
+  return format.replace(/YYYY|MM|DD|HH|mm|ss/g, token => {
+    const value = parts[token as keyof typeof parts]
+    return token === 'YYYY' ? String(value) : String(value).padStart(2, '0')
+  })
+}
+
+const FORMAT_ARG = { name: "format", description: "时间格式，支持：YYYY(年)、MM(月)、DD(日)、HH(时)、mm(分)、ss(秒)，默认：YYYY-MM-DD HH:mm:ss" }
+const TIMEZONE_ARG = { name: "timezone", description: "时区设置，支持数字(如：8表示东八区,-5表示西五区)或时区名(如：Asia/Shanghai)，可选" }
+
+const ESCAPER_DOCS: Record<keyof typeof ESCAPERS, Pick<TemplateFunction, 'description' | 'example'>> = {
+  escapeMarkdownV2: {
+    description: "转义 Telegram MarkdownV2 特殊字符",
+    example: "${body.content | escapeMarkdownV2}",
+  },
+  escapeHtml: {
+    description: "转义 HTML 特殊字符（& < > \"），用于 Telegram HTML 消息",
+    example: "${body.content | escapeHtml}",
+  },
+  escapeMarkdown: {
+    description: "转义通用 Markdown 标记字符",
+    example: "${body.content | escapeMarkdown}",
+  },
+  escapeDingTalkMarkdown: {
+    description: "转义钉钉 Markdown 标记字符，并保留原文换行",
+    example: "${body.content | escapeDingTalkMarkdown}",
+  },
+  escapeWecomMarkdown: {
+    description: "转义企业微信 Markdown 标记字符和尖括号",
+    example: "${body.content | escapeWecomMarkdown}",
+  },
+  escapeSlack: {
+    description: "转义 Slack mrkdwn 中的 & < >，避免被解析为链接或提及",
+    example: "${body.content | escapeSlack}",
+  },
+}
+
+const ESCAPE_FUNCTIONS = Object.fromEntries(
+  Object.entries(ESCAPERS).map(([name, escaper]) => [name, {
+    ...ESCAPER_DOCS[name as keyof typeof ESCAPERS],
+    args: [{ name: "str", description: "要转义的文本" }],
+    fn: (str: unknown) => isEmpty(str) ? str : escaper(toText(str)),
+  }])
+) as Record<string, TemplateFunction>
+
+export const TEMPLATE_FUNCTIONS: Record<string, TemplateFunction> = {
+  truncate: {
+    description: "截断字符串,超过指定长度的部分用...替代",
+    example: "${truncate(body.content, 100)}",
+    args: [
+      { name: "str", description: "要截断的字符串" },
+      { name: "maxLength", description: "最大长度" },
+    ],
+    fn: (str: string, maxLength: number) => {
+      if (!str || str.length <= maxLength) return str
+      return str.slice(0, maxLength) + '...'
+    },
+  },
+  upper: {
+    description: "转换为大写，常用作管道过滤器",
+    example: "${body.title | upper}",
+    args: [{ name: "str", description: "要转换的字符串" }],
+    fn: (str: unknown) => isEmpty(str) ? str : toText(str).toUpperCase(),
+  },
+  lower: {
+    description: "转换为小写，常用作管道过滤器",
+    example: "${body.level | lower}",
+    args: [{ name: "str", description: "要转换的字符串" }],
+    fn: (str: unknown) => isEmpty(str) ? str : toText(str).toLowerCase(),
+  },
+  replace: {
+    description: "替换字符串中所有出现的内容",
+    example: "${replace(body.content, 'foo', 'bar')}",
+    args: [
+      { name: "str", description: "原字符串" },
+      { name: "search", description: "要查找的内容" },
+      { name: "replacement", description: "替换为的内容" },
+    ],
+    fn: (str: unknown, search: string, replacement = '') =>
+      isEmpty(str) ? str : toText(str).split(String(search)).join(String(replacement)),
+  },
+  regexReplace: {
+    description: "使用正则表达式替换，替换内容支持 $1 等分组引用",
+    example: "${regexReplace(body.content, '\\d{4}', '****')}",
+    args: [
+      { name: "str", description: "原字符串" },
+      { name: "pattern", description: "正则表达式" },
+      { name: "replacement", description: "替换为的内容" },
+      { name: "flags", description: "正则标志，默认：g" },
+    ],
+    fn: (str: unknown, pattern: string, replacement = '', flags = 'g') =>
+      isEmpty(str) ? str : toText(str).replace(new RegExp(pattern, flags), String(replacement)),
+  },
+  split: {
+    description: "按分隔符拆分为数组",
+    example: "${split(body.tags, ',') | join(' / ')}",
+    args: [
+      { name: "str", description: "要拆分的字符串" },
+      { name: "separator", description: "分隔符，默认：," },
+    ],
+    fn: (str: unknown, separator = ',') => isEmpty(str) ? [] : toText(str).split(String(separator)),
+  },
+  join: {
+    description: "用分隔符连接数组",
+    example: "${join(body.tags, ', ')}",
+    args: [
+      { name: "list", description: "要连接的数组" },
+      { name: "separator", description: "分隔符，默认：," },
+    ],
+    fn: (list: unknown, separator = ',') =>
+      Array.isArray(list) ? list.map(toText).join(String(separator)) : toText(list),
+  },
+  default: {
+    description: "值为空时使用默认值",
+    example: "${body.level | default('info')}",
+    args: [
+      { name: "value", description: "原值" },
+      { name: "fallback", description: "值为空（未定义、null 或空字符串）时返回的默认值" },
+    ],
+    fn: (value: unknown, fallback: unknown) => isEmpty(value) || value === '' ? fallback : value,
+  },
+  json: {
+    description: "序列化为 JSON 字符串",
+    example: "${json(body.labels)}",
+    args: [
+      { name: "value", description: "要序列化的值" },
+      { name: "indent", description: "缩进空格数，可选" },
+    ],
+    fn: (value: unknown, indent?: number) => JSON.stringify(value, null, indent),
+  },
+  base64: {
+    description: "Base64 编码（UTF-8）",
+    example: "${base64(body.content)}",
+    args: [{ name: "str", description: "要编码的字符串" }],
+    fn: (str: unknown) => {
+      const bytes = new TextEncoder().encode(toText(str))
+      let binary = ''
+      bytes.forEach(byte => { binary += String.fromCharCode(byte) })
+      return btoa(binary)
+    },
+  },
+  urlencode: {
+    description: "URL 编码，用于拼接链接参数",
+    example: "https://example.com/search?q=${body.keyword | urlencode}",
+    args: [{ name: "str", description: "要编码的字符串" }],
+    fn: (str: unknown) => encodeURIComponent(toText(str)),
+  },
+  md5: {
+    description: "计算 MD5 摘要（十六进制）",
+    example: "${md5(body.content)}",
+    args: [{ name: "str", description: "要计算摘要的字符串" }],
+    fn: (str: unknown) => md5(toText(str)),
+  },
+  sha256: {
+    description: "计算 SHA-256 摘要（十六进制）",
+    example: "${sha256(body.content)}",
+    args: [{ name: "str", description: "要计算摘要的字符串" }],
+    fn: (str: unknown) => sha256(toText(str)),
+  },
+  now: {
+    description: "获取当前时间，支持自定义格式和时区",
+    example: "${now('YYYY-MM-DD HH:mm:ss', 8)}",
+    args: [FORMAT_ARG, TIMEZONE_ARG],
+    fn: (format?: string, timezone?: number | string) => formatDateTime(new Date(), format, timezone),
+  },
+  formatDate: {
+    description: "格式化请求中的时间，支持时间戳（秒/毫秒）和日期字符串",
+    example: "${formatDate(body.startsAt, 'MM-DD HH:mm', 'Asia/Shanghai')}",
+    args: [{ name: "date", description: "时间戳或日期字符串" }, FORMAT_ARG, TIMEZONE_ARG],
+    fn: (date: unknown, format?: string, timezone?: number | string) =>
+      isEmpty(date) ? date : formatDateTime(toDate(date), format, timezone),
+  },
+  relativeTime: {
+    description: "计算与当前时间的相对时间，如：5 分钟前",
+    example: "${relativeTime(body.startsAt)}",
+    args: [{ name: "date", description: "时间戳或日期字符串" }],
+    fn: (date: unknown) => {
+      if (isEmpty(date)) return date
+      const diff = Date.now() - toDate(date).getTime()
+      const seconds = Math.round(Math.abs(diff) / 1000)
+      const suffix = diff >= 0 ? '前' : '后'
+      if (seconds < 60) return diff >= 0 ? '刚刚' : `${seconds} 秒后`
+      const units: [number, string][] = [[86400 * 365, '年'], [86400 * 30, '个月'], [86400, '天'], [3600, '小时'], [60, '分钟']]
+      const [size, unit] = units.find(([size]) => seconds >= size)!
+      return `${Math.floor(seconds / size)} ${unit}${suffix}`
+    },
+  },
+  round: {
+    description: "四舍五入到指定小数位",
+    example: "${round(body.value, 2)}",
+    args: [
+      { name: "num", description: "数字" },
+      { name: "digits", description: "保留的小数位数，默认：0" },
+    ],
+    fn: (num: unknown, digits = 0) => {
+      const value = Number(num)
+      if (isNaN(value)) return num
+      const factor = Math.pow(10, digits)
+      return Math.round(value * factor) / factor
+    },
+  },
+  len: {
+    description: "获取数组或字符串的长度，对象返回键的数量",
+    example: "${len(body.alerts)}",
+    args: [{ name: "value", description: "数组、字符串或对象" }],
+    fn: (value: unknown) => {
+      if (isEmpty(value)) return 0
+      if (Array.isArray(value) || typeof value === 'string') return value.length
+      if (typeof value === 'object') return Object.keys(value as object).length
+      return toText(value).length
+    },
+  },
+  first: {
+    description: "获取数组的第一个元素",
+    example: "${first(body.alerts).name}",
+    args: [{ name: "list", description: "数组" }],
+    fn: (list: unknown) => Array.isArray(list) ? list[0] : undefined,
+  },
+  last: {
+    description: "获取数组的最后一个元素",
+    example: "${last(body.alerts).name}",
+    args: [{ name: "list", description: "数组" }],
+    fn: (list: unknown) => Array.isArray(list) ? list[list.length - 1] : undefined,
+  },
+  raw: {
+    description: "开启自动转义时原样输出，不做转义",
+    example: "${body.markdown | raw}",
+    args: [{ name: "value", description: "原样输出的值" }],
+    fn: (value: unknown) => value,
+  },
+  ...ESCAPE_FUNCTIONS,
+}
+
+export function getTemplateFunction(name: string): TemplateFunction | undefined {
+  return Object.prototype.hasOwnProperty.call(TEMPLATE_FUNCTIONS, name)
+    ? TEMPLATE_FUNCTIONS[name]
+    : undefined
+}
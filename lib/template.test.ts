@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest"
+import {
+  evaluateCondition,
+  extractVariables,
+  parseTemplate,
+  renderTemplate,
+  safeInterpolate,
+  TemplateDiagnostics,
+  TemplateSyntaxError,
+  validateCondition,
+} from "./template"
+
+describe("safeInterpolate", () => {
+  it("替换变量和嵌套路径，缺失的变量使用 fallback", () => {
+    const data = { body: { title: "告警", alert: { level: "P1" } } }
+    expect(safeInterpolate("${body.title} ${body.alert.level}", data)).toBe("告警 P1")
+    expect(safeInterpolate("[${body.missing}]", data, "-")).toBe("[-]")
+  })
+
+  it("支持函数调用、管道过滤器和读取返回值的属性", () => {
+    const data = { body: { title: "disk full", alerts: [{ name: "cpu" }] } }
+    expect(safeInterpolate("${body.title | upper | truncate(4)}", data)).toBe("DISK...")
+    expect(safeInterpolate("${truncate('a, b, c', 3)}", data)).toBe("a, ...")
+    expect(safeInterpolate("${first(body.alerts).name}", data)).toBe("cpu")
+  })
+
+  it("按条件选择分支", () => {
+    const template = "${#if body.status == 'firing'}告警${#elseif body.status == 'resolved'}恢复${else}通知${/if}"
+    expect(safeInterpolate(template, { body: { status: "firing" } })).toBe("告警")
+    expect(safeInterpolate(template, { body: { status: "resolved" } })).toBe("恢复")
+    expect(safeInterpolate(template, { body: {} })).toBe("通知")
+  })
+
+  it("支持比较和逻辑运算", () => {
+    const template = "${#if body.count >= 3 && !body.muted}多${else}少${/if}"
+    expect(safeInterpolate(template, { body: { count: 5 } })).toBe("多")
+    expect(safeInterpolate(template, { body: { count: 5, muted: true } })).toBe("少")
+    expect(safeInterpolate(template, { body: { count: 1 } })).toBe("少")
+  })
+
+  it("循环中可以使用元素和下标，列表为空时输出 else", () => {
+    const template = "${#each body.items as item, i}${i}:${item.name};${else}空${/each}"
+    expect(safeInterpolate(template, { body: { items: [{ name: "a" }, { name: "b" }] } })).toBe("0:a;1:b;")
+    expect(safeInterpolate(template, { body: { items: [] } })).toBe("空")
+  })
+
+  it("不能访问原型链上的属性", () => {
+    expect(safeInterpolate("${body.__proto__}", { body: {} }, "x")).toBe("x")
+    expect(safeInterpolate("${body.constructor}", { body: {} }, "x")).toBe("x")
+  })
+})
+
+describe("parseTemplate", () => {
+  it("未闭合的块抛出 TemplateSyntaxError", () => {
+    expect(() => parseTemplate("${#if body.a}x")).toThrow(TemplateSyntaxError)
+    expect(() => parseTemplate("${/each}")).toThrow(TemplateSyntaxError)
+  })
+})
+
+describe("renderTemplate", () => {
+  it("逐个渲染 JSON 中的字符串，只有一个表达式时保留原始类型", () => {
+    const rule = JSON.stringify({
+      text: { content: "${body.title}: \"${body.detail}\"" },
+      count: "${body.count}",
+      mobiles: "${split(body.mobiles)}",
+    })
+    const data = { body: { title: "告警", detail: "a\"b", count: 3, mobiles: "1,2" } }
+    expect(renderTemplate(rule, data)).toEqual({
+      text: { content: "告警: \"a\"b\"" },
+      count: 3,
+      mobiles: ["1", "2"],
+    })
+  })
+
+  it("只对配置的字段自动转义插值结果", () => {
+    const rule = JSON.stringify({ text: "<b>${body.title}</b>", title: "${body.title}" })
+    const result = renderTemplate(rule, { body: { title: "a<b" } }, "", {
+      escape: { escaper: "escapeHtml", fields: ["text"] },
+    })
+    expect(result).toEqual({ text: "<b>a&lt;b</b>", title: "a<b" })
+  })
+
+  it("传入 diagnostics 时收集未解析的变量和表达式错误", () => {
+    const diagnostics: TemplateDiagnostics = { unresolved: [], errors: [] }
+    renderTemplate(JSON.stringify({ text: "${body.missing} ${unknownFn(body.a)}" }), { body: {} }, "", { diagnostics })
+    expect(diagnostics.unresolved).toContain("body.missing")
+    expect(diagnostics.errors).toHaveLength(1)
+    expect(diagnostics.errors[0].expression).toBe("${unknownFn(body.a)}")
+  })
+})
+
+describe("evaluateCondition / validateCondition", () => {
+  it("按 #if 的规则求值", () => {
+    expect(evaluateCondition("body.status == 'resolved' || body.test", { body: { test: true } })).toBe(true)
+    expect(evaluateCondition("body.status == 'resolved'", { body: { status: "firing" } })).toBe(false)
+  })
+
+  it("检查语法和函数名", () => {
+    expect(validateCondition("lower(body.title) == 'test'")).toBeNull()
+    expect(validateCondition("nope(body.title)")).toBe("未知的函数: nope")
+    expect(validateCondition("body.a ==")).not.toBeNull()
+  })
+})
+
+describe("extractVariables", () => {
+  it("列出引用的变量，循环变量展开为列表路径", () => {
+    const template = JSON.stringify({
+      text: "${body.title}${#each body.alerts as alert, i}${i}${alert.name}${/each}${upper(query.env)}",
+    })
+    expect(extractVariables(template).sort()).toEqual(["body.alerts", "body.alerts.0.name", "body.title", "query.env"])
+  })
+})
@@ -1,124 +1,689 @@
-// 内置函数定义
-const BUILT_IN_FUNCTIONS = {
-  // 截断字符串,超过maxLength的部分用...替代
-  truncate: (str: string, maxLength: number) => {
-    if (!str || str.length <= maxLength) return str
-    return str.slice(0, maxLength) + '...'
-  },
-  
-  // 获取当前时间,支持自定义格式和时区偏移量
-  now: (format = 'YYYY-MM-DD HH:mm:ss', timezone?: number | string) => {
-    const date = new Date()
-    
-    // 处理时区
-    let targetDate = date
-    if (timezone !== undefined) {
-      try {
-        if (typeof timezone === 'number') {
-          // 使用数字形式的时区偏移（小时）
-          const localOffset = date.getTimezoneOffset()
-          const targetOffset = timezone * 60 // 转换为分钟
-          const diffOffset = targetOffset + localOffset
-          targetDate = new Date(date.getTime() + diffOffset * 60 * 1000)
-        } else {
-          // 保持对字符串时区的支持
-          const dateStr = date.toLocaleString('en-US', { timeZone: timezone })
-          targetDate = new Date(dateStr)
+import { getTemplateFunction } from "./template-functions"
+import { Escaper, ESCAPERS } from "./escape"
+
+// ---------------------------------------------------------------------------
+// 模版语法
+//   ${body.title}                          变量
+//   ${truncate(body.content, 100)}         函数调用，支持嵌套调用和包含逗号的字符串参数
+//   ${first(body.alerts).name}             读取函数返回值的属性
+//   ${body.title | upper | truncate(40)}   管道过滤器，前一步的结果作为第一个参数
+//   ${#if body.status == 'firing'}...${#elseif ...}...${else}...${/if}
+//   ${#each body.alerts as alert, i}...${else}列表为空时输出${/each}
+// 表达式只在解析后的语法树上求值，不使用 eval / new Function
+// ---------------------------------------------------------------------------
+
+// 单个 each 最多展开的元素数量，避免超大数组拖垮渲染
+const MAX_EACH_ITEMS = 1000
+// 禁止访问的属性，防止通过模版触达原型链
+const FORBIDDEN_KEYS = new Set(['__proto__', 'prototype', 'constructor'])
+
+type Expr =
+  | { type: 'literal'; value: unknown }
+  | { type: 'path'; path: string[] }
+  | { type: 'call'; name: string; args: Expr[] }
+  | { type: 'member'; object: Expr; path: string[] }
+  | { type: 'not'; expr: Expr }
+  | { type: 'binary'; op: string; left: Expr; right: Expr }
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'output'; expr: Expr; raw: string }
+  | { type: 'if'; branches: { test: Expr; body: TemplateNode[] }[]; otherwise: TemplateNode[] }
+  | { type: 'each'; list: Expr; item: string; index: string; body: TemplateNode[]; otherwise: TemplateNode[] }
+
+export class TemplateSyntaxError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'TemplateSyntaxError'
+  }
+}
+
+type Token =
+  | { type: 'string' | 'number' | 'path' | 'member' | 'op'; value: string }
+
+const OPERATORS = ['==', '!=', '>=', '<=', '&&', '||', '>', '<', '!', '|', '(', ')', ',']
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+
+  while (i < source.length) {
+    const char = source[i]
+
+    if (/\s/.test(char)) {
+      i++
+      continue
+    }
+
+    if (char === '"' || char === "'") {
+      let value = ''
+      i++
+      while (i < source.length && source[i] !== char) {
+        if (source[i] === '\\' && i + 1 < source.length) {
+          i++
         }
-      } catch {
-        console.warn(`时区设置无效: ${timezone}, 将使用本地时区`)
+        value += source[i]
+        i++
       }
+      if (i >= source.length) throw new TemplateSyntaxError(`字符串未闭合: ${source}`)
+      i++
+      tokens.push({ type: 'string', value })
+      continue
+    }
+
+    const number = /^-?\d+(\.\d+)?/.exec(source.slice(i))
+    // 负号只在表达式开头或运算符之后才视为数字的一部分
+    if (number && (char !== '-' || tokens.length === 0 || tokens[tokens.length - 1].type === 'op')) {
+      tokens.push({ type: 'number', value: number[0] })
+      i += number[0].length
+      continue
     }
-    
-    const tokens: Record<string, () => string> = {
-      YYYY: () => targetDate.getFullYear().toString(),
-      MM: () => (targetDate.getMonth() + 1).toString().padStart(2, '0'),
-      DD: () => targetDate.getDate().toString().padStart(2, '0'),
-      HH: () => targetDate.getHours().toString().padStart(2, '0'),
-      mm: () => targetDate.getMinutes().toString().padStart(2, '0'),
-      ss: () => targetDate.getSeconds().toString().padStart(2, '0')
+
+    // 属性名中可以包含 -，如 headers.x-github-event
+    const path = /^[A-Za-z_$][\w$]*(\.[\w$]+(?:-[\w$]+)*|\[\d+\])*/.exec(source.slice(i))
+    if (path) {
+      tokens.push({ type: 'path', value: path[0] })
+      i += path[0].length
+      continue
     }
-    
-    return format.replace(/YYYY|MM|DD|HH|mm|ss/g, match => tokens[match]())
+
+    // 紧跟在 ) 之后的 .a.b 为函数返回值的属性访问
+    const member = /^(\.[\w$]+|\[\d+\])+/.exec(source.slice(i))
+    if (member && tokens[tokens.length - 1]?.value === ')') {
+      tokens.push({ type: 'member', value: member[0] })
+      i += member[0].length
+      continue
+    }
+
+    const op = OPERATORS.find(o => source.startsWith(o, i))
+    if (op) {
+      tokens.push({ type: 'op', value: op })
+      i += op.length
+      continue
+    }
+
+    throw new TemplateSyntaxError(`无法识别的字符 "${char}": ${source}`)
   }
-} as const
 
-type BuiltInFunction = keyof typeof BUILT_IN_FUNCTIONS
+  return tokens
+}
 
-// 函数调用正则表达式
-const FUNCTION_CALL_REGEX = /\${(\w+)\((.*?)\)}/g
-// 变量替换正则表达式
-const VARIABLE_REGEX = /\${([\w.]+)}/g
+function toPath(value: string): string[] {
+  return value.replace(/\[(\d+)\]/g, '.$1').split('.').filter(Boolean)
+}
 
-export function safeInterpolate(
-    template: string,
-    data: Record<string, any>,
-    fallback = ''
+function parseExpression(source: string): Expr {
+  const tokens = tokenize(source)
+  let pos = 0
+
+  const peek = () => tokens[pos]
+  const isOp = (value: string) => peek()?.type === 'op' && peek().value === value
+  const expectOp = (value: string) => {
+    if (!isOp(value)) throw new TemplateSyntaxError(`缺少 "${value}": ${source}`)
+    pos++
+  }
+
+  function parseArgs(): Expr[] {
+    const args: Expr[] = []
+    expectOp('(')
+    if (!isOp(')')) {
+      args.push(parsePipe())
+      while (isOp(',')) {
+        pos++
+        args.push(parsePipe())
+      }
+    }
+    expectOp(')')
+    return args
+  }
+
+  function parsePrimary(): Expr {
+    const token = peek()
+    if (!token) throw new TemplateSyntaxError(`表达式不完整: ${source}`)
+    pos++
+
+    if (token.type === 'string') return { type: 'literal', value: token.value }
+    if (token.type === 'number') return { type: 'literal', value: Number(token.value) }
+    if (token.type === 'op' && token.value === '(') {
+      const expr = parsePipe()
+      expectOp(')')
+      return expr
+    }
+    if (token.type === 'path') {
+      if (token.value === 'true') return { type: 'literal', value: true }
+      if (token.value === 'false') return { type: 'literal', value: false }
+      if (token.value === 'null') return { type: 'literal', value: null }
+      if (isOp('(')) {
+        const call: Expr = { type: 'call', name: token.value, args: parseArgs() }
+        const member = peek()
+        if (member?.type === 'member') {
+          pos++
+          return { type: 'member', object: call, path: toPath(member.value) }
+        }
+        return call
+      }
+      return { type: 'path', path: toPath(token.value) }
+    }
+    throw new TemplateSyntaxError(`意外的 "${token.value}": ${source}`)
+  }
+
+  function parseComparison(): Expr {
+    const left = parsePrimary()
+    const token = peek()
+    if (token?.type === 'op' && ['==', '!=', '>', '>=', '<', '<='].includes(token.value)) {
+      pos++
+      return { type: 'binary', op: token.value, left, right: parsePrimary() }
+    }
+    return left
+  }
+
+  function parseNot(): Expr {
+    if (isOp('!')) {
+      pos++
+      return { type: 'not', expr: parseNot() }
+    }
+    return parseComparison()
+  }
+
+  function parseAnd(): Expr {
+    let left = parseNot()
+    while (isOp('&&')) {
+      pos++
+      left = { type: 'binary', op: '&&', left, right: parseNot() }
+    }
+    return left
+  }
+
+  function parseOr(): Expr {
+    let left = parseAnd()
+    while (isOp('||')) {
+      pos++
+      left = { type: 'binary', op: '||', left, right: parseAnd() }
+    }
+    return left
+  }
+
+  function parsePipe(): Expr {
+    let expr = parseOr()
+    while (isOp('|')) {
+      pos++
+      const token = peek()
+      if (token?.type !== 'path') throw new TemplateSyntaxError(`管道后缺少过滤器名称: ${source}`)
+      pos++
+      const args = isOp('(') ? parseArgs() : []
+      expr = { type: 'call', name: token.value, args: [expr, ...args] }
+    }
+    return expr
+  }
+
+  const expr = parsePipe()
+  if (pos < tokens.length) {
+    throw new TemplateSyntaxError(`意外的 "${tokens[pos].value}": ${source}`)
+  }
+  return expr
+}
+
+// 找到 ${ 对应的结束 }，跳过表达式中字符串字面量里的 }
+function findTagEnd(template: string, start: number): number {
+  let quote: string | null = null
+  for (let i = start; i < template.length; i++) {
+    const char = template[i]
+    if (quote) {
+      if (char === '\\') i++
+      else if (char === quote) quote = null
+    } else if (char === '"' || char === "'") {
+      quote = char
+    } else if (char === '}') {
+      return i
+    }
+  }
+  return -1
+}
+
+type Frame = {
+  tag: 'root' | 'if' | 'each'
+  nodes: TemplateNode[]
+  node?: Extract<TemplateNode, { type: 'if' | 'each' }>
+}
+
+export function parseTemplate(template: string): TemplateNode[] {
+  const root: Frame = { tag: 'root', nodes: [] }
+  const stack: Frame[] = [root]
+  const current = () => stack[stack.length - 1]
+
+  let cursor = 0
+  while (cursor < template.length) {
+    const start = template.indexOf('${', cursor)
+    if (start === -1) break
+    const end = findTagEnd(template, start + 2)
+    if (end === -1) break
+
+    if (start > cursor) {
+      current().nodes.push({ type: 'text', value: template.slice(cursor, start) })
+    }
+    cursor = end + 1
+
+    const raw = template.slice(start, end + 1)
+    const content = template.slice(start + 2, end).trim()
+    const frame = current()
+
+    if (content.startsWith('#if ')) {
+      const node: TemplateNode = { type: 'if', branches: [{ test: parseExpression(content.slice(4)), body: [] }], otherwise: [] }
+      frame.nodes.push(node)
+      stack.push({ tag: 'if', nodes: node.branches[0].body, node })
+    } else if (content.startsWith('#elseif ')) {
+      if (frame.tag !== 'if' || frame.node?.type !== 'if') throw new TemplateSyntaxError('#elseif 必须位于 #if 内')
+      const branch = { test: parseExpression(content.slice(8)), body: [] }
+      frame.node.branches.push(branch)
+      frame.nodes = branch.body
+    } else if (content === 'else') {
+      if (!frame.node) throw new TemplateSyntaxError('else 必须位于 #if 或 #each 内')
+      frame.nodes = frame.node.otherwise
+    } else if (content.startsWith('#each ')) {
+      const match = /^#each\s+(.+?)(?:\s+as\s+([A-Za-z_$][\w$]*)(?:\s*,\s*([A-Za-z_$][\w$]*))?)?$/.exec(content)
+      if (!match) throw new TemplateSyntaxError(`#each 语法错误: ${raw}`)
+      const node: TemplateNode = {
+        type: 'each',
+        list: parseExpression(match[1]),
+        item: match[2] ?? 'item',
+        index: match[3] ?? 'index',
+        body: [],
+        otherwise: [],
+      }
+      frame.nodes.push(node)
+      stack.push({ tag: 'each', nodes: node.body, node })
+    } else if (content === '/if' || content === '/each') {
+      if (frame.tag !== content.slice(1)) throw new TemplateSyntaxError(`${raw} 没有对应的开始标签`)
+      stack.pop()
+    } else {
+      try {
+        current().nodes.push({ type: 'output', expr: parseExpression(content), raw })
+      } catch (error) {
+        // 无法解析的 ${...} 按原样保留，与旧版只替换合法变量的行为一致
+        if (!(error instanceof TemplateSyntaxError)) throw error
+        current().nodes.push({ type: 'text', value: raw })
+      }
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new TemplateSyntaxError(`#${current().tag} 缺少结束标签 \${/${current().tag}}`)
+  }
+  if (cursor < template.length) {
+    root.nodes.push({ type: 'text', value: template.slice(cursor) })
+  }
+  return root.nodes
+}
+
+function readPath(scope: Record<string, any>, path: string[]): unknown {
+  let current: any = scope
+  for (const key of path) {
+    if (current === null || current === undefined) return undefined
+    if (FORBIDDEN_KEYS.has(key)) return undefined
+    if (key === 'length' && (typeof current === 'string' || Array.isArray(current))) {
+      current = current.length
+      continue
+    }
+    if (typeof current !== 'object' || !Object.prototype.hasOwnProperty.call(current, key)) {
+      return undefined
+    }
+    current = current[key]
+  }
+  return current
+}
+
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0
+  return !!value
+}
+
+// unresolved 用于收集取值为空的变量路径，供预览接口提示
+function evaluate(expr: Expr, scope: Record<string, any>, unresolved?: string[]): unknown {
+  switch (expr.type) {
+    case 'literal':
+      return expr.value
+    case 'path': {
+      const value = readPath(scope, expr.path)
+      const path = expr.path.join('.')
+      if (value === undefined && unresolved && !unresolved.includes(path)) {
+        unresolved.push(path)
+      }
+      return value
+    }
+    case 'not':
+      return !isTruthy(evaluate(expr.expr, scope, unresolved))
+    case 'call': {
+      const fn = getTemplateFunction(expr.name)
+      if (!fn) throw new Error(`未知的函数: ${expr.name}`)
+      // default 的第一个参数允许为空，不视为未解析
+      return fn.fn(...expr.args.map((arg, i) =>
+        evaluate(arg, scope, expr.name === 'default' && i === 0 ? undefined : unresolved)
+      ))
+    }
+    case 'member':
+      return readPath({ value: evaluate(expr.object, scope, unresolved) }, ['value', ...expr.path])
+    case 'binary': {
+      if (expr.op === '&&') {
+        const left = evaluate(expr.left, scope, unresolved)
+        return isTruthy(left) ? evaluate(expr.right, scope, unresolved) : left
+      }
+      if (expr.op === '||') {
+        const left = evaluate(expr.left, scope, unresolved)
+        return isTruthy(left) ? left : evaluate(expr.right, scope, unresolved)
+      }
+      const left = evaluate(expr.left, scope, unresolved) as any
+      const right = evaluate(expr.right, scope, unresolved) as any
+      switch (expr.op) {
+        // 宽松比较，便于数字字符串和数字直接比较
+        case '==': return left == right
+        case '!=': return left != right
+        case '>': return left > right
+        case '>=': return left >= right
+        case '<': return left < right
+        case '<=': return left <= right
+      }
+    }
+  }
+  return undefined
+}
+
+// 拼接到字符串中时，对象和数组输出为 JSON
+function formatValue(value: unknown): string {
+  return typeof value === 'object' ? JSON.stringify(value) : String(value)
+}
+
+export interface TemplateDiagnostics {
+  // 取值为空的变量路径
+  unresolved: string[]
+  // 函数调用、条件或循环表达式的错误
+  errors: { expression: string; message: string }[]
+}
+
+interface RenderContext {
+  fallback: string
+  diagnostics?: TemplateDiagnostics
+  // 对插值结果做转义，仅作用于拼接进字符串的表达式结果，模版本身的文本保持不变
+  escape?: (value: string) => string
+}
+
+// 已显式调用 raw 或转义函数的表达式不再自动转义，避免重复转义
+function isEscapedExpr(expr: Expr): boolean {
+  return expr.type === 'call' && (expr.name === 'raw' || expr.name in ESCAPERS)
+}
+
+type OutputNode = Extract<TemplateNode, { type: 'output' }>
+
+function formatOutput(node: OutputNode, value: unknown, ctx: RenderContext): string {
+  if (value === undefined || value === null) return ctx.fallback
+  const text = formatValue(value)
+  return ctx.escape && !isEscapedExpr(node.expr) ? ctx.escape(text) : text
+}
+
+// 表达式错误只在传入 diagnostics 时收集 (预览)，推送时按 fallback 渲染，不写日志
+function reportError(ctx: RenderContext, expression: string, error: any) {
+  ctx.diagnostics?.errors.push({ expression, message: error.message })
+}
+
+function renderOutput(node: OutputNode, scope: Record<string, any>, ctx: RenderContext): string {
+  try {
+    return formatOutput(node, evaluate(node.expr, scope, ctx.diagnostics?.unresolved), ctx)
+  } catch (error: any) {
+    reportError(ctx, node.raw, error)
+    return ctx.fallback
+  }
+}
+
+function renderNodes(
+  nodes: TemplateNode[],
+  scope: Record<string, any>,
+  ctx: RenderContext
 ): string {
-    console.log('safeInterpolate template:', template)
-    
-    // 先处理函数调用
-    let result = template.replace(FUNCTION_CALL_REGEX, (_, fnName, argsStr) => {
+  let result = ''
+
+  for (const node of nodes) {
+    switch (node.type) {
+      case 'text':
+        result += node.value
+        break
+      case 'output':
+        result += renderOutput(node, scope, ctx)
+        break
+      case 'if': {
+        const branch = node.branches.find(b => {
+          try {
+            return isTruthy(evaluate(b.test, scope))
+          } catch (error: any) {
+            reportError(ctx, '#if', error)
+            return false
+          }
+        })
+        result += renderNodes(branch ? branch.body : node.otherwise, scope, ctx)
+        break
+      }
+      case 'each': {
+        let list: unknown
         try {
-            // 解析函数名
-            const fn = BUILT_IN_FUNCTIONS[fnName as BuiltInFunction]
-            if (!fn) throw new Error(`未知的函数: ${fnName}`)
-            
-            // 解析参数
-            const args = argsStr.split(',').map((arg: string) => {
-                const trimmed = arg.trim()
-                // 处理变量路径
-                const parts = trimmed.split('.')
-                if (parts.length > 1) {
-                    return parts.reduce((acc: any, part: string) => {
-                        if (acc === null || acc === undefined) {
-                            throw new Error(`Cannot read property '${part}' of ${acc}`)
-                        }
-                        return acc[part]
-                    }, data)
-                }
-                // 处理数字
-                if (/^\d+$/.test(trimmed)) {
-                    return parseInt(trimmed, 10)
-                }
-                // 处理字符串字面量
-                return trimmed.replace(/^["']|["']$/g, '')
-            })
-            // @ts-expect-error "ignore" 
-            return fn(...args)
+          list = evaluate(node.list, scope)
         } catch (error: any) {
-            console.warn(`函数调用错误: ${error.message}`)
-            return fallback
+          reportError(ctx, '#each', error)
         }
-    })
-    
-    // 再处理变量替换
-    result = result.replace(VARIABLE_REGEX, (_, path) => {
-        try {
-            const value = path.split('.').reduce((acc: any, part: string) => {
-                if (acc === null || acc === undefined) {
-                    throw new Error(`Cannot read property '${part}' of ${acc}`)
-                }
-                return acc[part]
-            }, data)
-
-            // 处理字符串中的特殊字符, 避免在JSON.parse时出错
-            if (typeof value === 'string') {
-                return value
-                    .replace(/\n/g, '\\n')     // 处理换行符
-                    .replace(/\r/g, '\\r')     // 处理回车符
-                    .replace(/\t/g, '\\t')     // 处理制表符
-                    .replace(/"/g, '\\"')      // 处理双引号
-            }
-
-            return value === undefined ? fallback : String(value)
-        } catch (error: any) {
-            console.warn(`变量解析错误: ${error.message}`)
-            return fallback
+        const items = Array.isArray(list) ? list.slice(0, MAX_EACH_ITEMS) : []
+        if (items.length === 0) {
+          result += renderNodes(node.otherwise, scope, ctx)
+          break
         }
-    })
+        items.forEach((item, index) => {
+          result += renderNodes(node.body, { ...scope, [node.item]: item, [node.index]: index }, ctx)
+        })
+        break
+      }
+    }
+  }
+
+  return result
+}
+
+/**
+ * 渲染单个字符串模版
+ */
+export function safeInterpolate(
+  template: string,
+  data: Record<string, any>,
+  fallback = ''
+): string {
+  return renderNodes(parseTemplate(template), data, { fallback })
+}
 
-    console.log('safeInterpolate result:', result)
-    return result
+// 字符串恰好是一个 ${...} 表达式时返回表达式的原始类型，如数字、布尔值、数组
+function renderLeaf(template: string, data: Record<string, any>, ctx: RenderContext): unknown {
+  const nodes = parseTemplate(template)
+  if (nodes.length === 1 && nodes[0].type === 'output') {
+    const node = nodes[0]
+    try {
+      const value = evaluate(node.expr, data, ctx.diagnostics?.unresolved)
+      if (typeof value === 'string') return formatOutput(node, value, ctx)
+      return value === undefined || value === null ? ctx.fallback : value
+    } catch (error: any) {
+      reportError(ctx, node.raw, error)
+      return ctx.fallback
+    }
+  }
+  return renderNodes(nodes, data, ctx)
 }
 
+export interface RenderOptions {
+  // 自动转义：对 fields 中列出的字段（点分路径）的插值结果应用转义函数
+  escape?: {
+    escaper: Escaper
+    fields: string[]
+  }
+  // 传入时收集渲染过程中的未解析变量和表达式错误
+  diagnostics?: TemplateDiagnostics
+}
+
+function renderValue(
+  value: unknown,
+  data: Record<string, any>,
+  fallback: string,
+  options: RenderOptions,
+  path: string[] = []
+): unknown {
+  if (typeof value === 'string') {
+    const escape = options.escape?.fields.includes(path.join('.'))
+      ? ESCAPERS[options.escape.escaper]
+      : undefined
+    return renderLeaf(value, data, { fallback, escape, diagnostics: options.diagnostics })
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, i) => renderValue(item, data, fallback, options, [...path, String(i)]))
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        renderNodes(parseTemplate(key), data, { fallback, diagnostics: options.diagnostics }),
+        renderValue(item, data, fallback, options, [...path, key]),
+      ])
+    )
+  }
+  return value
+}
+
+/**
+ * 按 JSON 结构渲染消息模版：先解析模版，再逐个替换字符串叶子节点，
+ * 变量值不再拼接进 JSON 文本，因此不需要手动转义
+ */
+export function renderTemplate(
+  rule: string,
+  data: Record<string, any>,
+  fallback = '',
+  options: RenderOptions = {}
+): unknown {
+  return renderValue(JSON.parse(rule), data, fallback, options)
+}
+
+// 模版为 JSON 时遍历其中所有字符串（包括键名），否则视为单个字符串模版
+function collectTemplateStrings(template: string): string[] {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(template)
+  } catch {
+    return [template]
+  }
+
+  const strings: string[] = []
+  const walk = (value: unknown) => {
+    if (typeof value === 'string') {
+      strings.push(value)
+    } else if (Array.isArray(value)) {
+      value.forEach(walk)
+    } else if (value && typeof value === 'object') {
+      Object.entries(value).forEach(([key, item]) => {
+        strings.push(key)
+        walk(item)
+      })
+    }
+  }
+  walk(parsed)
+  return strings
+}
+
+/**
+ * 按模版中 #if 的规则求值单个条件表达式，如 body.status == 'resolved' || body.test
+ * 表达式语法错误时抛出 TemplateSyntaxError
+ */
+export function evaluateCondition(expression: string, data: Record<string, any>): boolean {
+  return isTruthy(evaluate(parseExpression(expression), data))
+}
+
+function collectCalls(expr: Expr): string[] {
+  switch (expr.type) {
+    case 'call':
+      return [expr.name, ...expr.args.flatMap(collectCalls)]
+    case 'member':
+      return collectCalls(expr.object)
+    case 'not':
+      return collectCalls(expr.expr)
+    case 'binary':
+      return [...collectCalls(expr.left), ...collectCalls(expr.right)]
+    default:
+      return []
+  }
+}
+
+/**
+ * 检查条件表达式的语法和函数名，返回错误信息，没有错误时返回 null
+ */
+export function validateCondition(expression: string): string | null {
+  try {
+    const unknown = collectCalls(parseExpression(expression)).find(name => !getTemplateFunction(name))
+    return unknown ? `未知的函数: ${unknown}` : null
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error)
+  }
+}
+
+/**
+ * 列出模版引用的所有变量路径，循环变量会展开为列表路径，如 alert.name -> body.alerts.0.name
+ */
+export function extractVariables(template: string): string[] {
+  const paths = new Set<string>()
+
+  // 循环变量映射到列表中的第一个元素，索引变量映射为 null 表示不是外部变量
+  type Aliases = Record<string, string[] | null>
+
+  function resolve(path: string[], aliases: Aliases): string[] | null {
+    const [head, ...rest] = path
+    if (!Object.prototype.hasOwnProperty.call(aliases, head)) return path
+    const alias = aliases[head]
+    return alias ? [...alias, ...rest] : null
+  }
+
+  function collect(expr: Expr, aliases: Aliases) {
+    switch (expr.type) {
+      case 'path': {
+        const path = resolve(expr.path, aliases)
+        if (path && path.length > 0) paths.add(path.join('.'))
+        break
+      }
+      case 'call':
+        expr.args.forEach(arg => collect(arg, aliases))
+        break
+      case 'member':
+        collect(expr.object, aliases)
+        break
+      case 'not':
+        collect(expr.expr, aliases)
+        break
+      case 'binary':
+        collect(expr.left, aliases)
+        collect(expr.right, aliases)
+        break
+    }
+  }
+
+  function walk(nodes: TemplateNode[], aliases: Aliases) {
+    for (const node of nodes) {
+      if (node.type === 'output') {
+        collect(node.expr, aliases)
+      } else if (node.type === 'if') {
+        node.branches.forEach(branch => {
+          collect(branch.test, aliases)
+          walk(branch.body, aliases)
+        })
+        walk(node.otherwise, aliases)
+      } else if (node.type === 'each') {
+        collect(node.list, aliases)
+        const listPath = node.list.type === 'path' ? resolve(node.list.path, aliases) : null
+        walk(node.body, {
+          ...aliases,
+          [node.item]: listPath ? [...listPath, '0'] : null,
+          [node.index]: null,
+        })
+        walk(node.otherwise, aliases)
+      }
+    }
+  }
+
+  collectTemplateStrings(template).forEach(str => walk(parseTemplate(str), {}))
+  return Array.from(paths)
+}
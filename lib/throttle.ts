@@ -0,0 +1,179 @@
+import { and, eq, lt, lte } from "drizzle-orm"
+import { getDb } from "@/lib/db"
+import { Endpoint } from "@/lib/db/schema/endpoints"
+import { DigestItem, digestItems, throttleState } from "@/lib/db/schema/throttle"
+import { sha256 } from "@/lib/hash"
+import { OVERFLOW_ACTIONS, parseRateLimit, RateLimit } from "@/lib/rate-limit"
+import { safeInterpolate } from "@/lib/template"
+import { generateId } from "@/lib/utils"
+
+// 排队推送最多延后的时间，超过时按丢弃处理
+export const MAX_QUEUE_DELAY_SECONDS = 15 * 60
+
+// 摘要推送的占用键在计划时间之后额外保留的时间，推送任务丢失时过期后可重新安排
+const DIGEST_FLUSH_GRACE_MS = 60 * 1000
+
+/**
+ * 占用一个键直到 expiresAt，键不存在或已过期时占用成功
+ * 通过带条件的 upsert 保证并发请求中只有一个能占用成功
+ */
+async function claimKey(key: string, expiresAt: number): Promise<boolean> {
+  const db = getDb()
+  const now = Date.now()
+
+  // 顺带清理过期状态，避免表无限增长
+  if (Math.random() < 0.01) {
+    await db.delete(throttleState).where(lt(throttleState.expiresAt, now))
+  }
+
+  const rows = await db.insert(throttleState)
+    .values({ key, expiresAt })
+    .onConflictDoUpdate({
+      target: throttleState.key,
+      set: { value: "", expiresAt },
+      setWhere: lte(throttleState.expiresAt, now),
+    })
+    .returning({ key: throttleState.key })
+  return rows.length > 0
+}
+
+/**
+ * 去重窗口内第一次出现的去重键返回 true
+ */
+export async function claimDedupKey(endpointId: string, dedupKey: string, windowSeconds: number) {
+  return claimKey(`dedup:${endpointId}:${sha256(dedupKey)}`, Date.now() + windowSeconds * 1000)
+}
+
+/**
+ * 推送签名在有效期内第一次使用时返回 true，用于拒绝重放请求
+ */
+export async function claimSignature(signature: string, expiresAt: number) {
+  return claimKey(`signature:${signature}`, expiresAt)
+}
+
+interface BucketState {
+  tokens: number
+  updatedAt: number
+}
+
+type TokenResult =
+  | { allowed: true, delaySeconds: number }
+  | { allowed: false, retryAfter: number }
+
+/**
+ * 从令牌桶中取一个令牌，maxDelaySeconds 大于 0 时允许预支未来的令牌，返回需要延后的秒数
+ * 状态更新使用乐观锁，多次冲突时直接放行，避免限流状态异常导致消息丢失
+ */
+async function takeToken(endpointId: string, policy: RateLimit, maxDelaySeconds: number): Promise<TokenResult> {
+  const db = getDb()
+  const key = `bucket:${endpointId}`
+  const refillPerMs = policy.refillPerMinute / 60000
+
+  for (let i = 0; i < 3; i++) {
+    const now = Date.now()
+    const row = await db.query.throttleState.findFirst({
+      where: eq(throttleState.key, key),
+    })
+
+    let tokens = policy.capacity
+    if (row && row.expiresAt > now) {
+      const state = JSON.parse(row.value) as BucketState
+      tokens = Math.min(policy.capacity, state.tokens + (now - state.updatedAt) * refillPerMs)
+    }
+
+    const remaining = tokens - 1
+    const waitMs = remaining >= 0 ? 0 : -remaining / refillPerMs
+    if (waitMs > maxDelaySeconds * 1000) {
+      return { allowed: false, retryAfter: Math.ceil((1 - tokens) / refillPerMs / 1000) }
+    }
+
+    const value = JSON.stringify({ tokens: remaining, updatedAt: now } satisfies BucketState)
+    // 令牌补满后状态等同于不存在，可以过期删除
+    const expiresAt = now + Math.ceil((policy.capacity - remaining) / refillPerMs)
+    const saved = row
+      ? await db.update(throttleState)
+        .set({ value, expiresAt })
+        .where(and(eq(throttleState.key, key), eq(throttleState.value, row.value)))
+        .returning({ key: throttleState.key })
+      : await db.insert(throttleState)
+        .values({ key, value, expiresAt })
+        .onConflictDoNothing()
+        .returning({ key: throttleState.key })
+
+    if (saved.length > 0) {
+      return { allowed: true, delaySeconds: Math.ceil(waitMs / 1000) }
+    }
+  }
+
+  return { allowed: true, delaySeconds: 0 }
+}
+
+export type ThrottleDecision =
+  // 推送，delaySeconds 大于 0 时需要延后推送
+  | { action: "deliver", delaySeconds: number }
+  | { action: "skip", reason: string }
+  // 合并为摘要消息，flushAfter 秒后有可用令牌
+  | { action: "digest", flushAfter: number }
+
+/**
+ * 按接口的去重和限流配置决定如何处理本次请求
+ * data 为模版变量，去重键模版中可以使用 body、headers、query 等
+ */
+export async function checkThrottle(
+  endpoint: Pick<Endpoint, "id" | "dedupKey" | "dedupWindow" | "rateLimit">,
+  data: Record<string, unknown>
+): Promise<ThrottleDecision> {
+  if (endpoint.dedupKey && endpoint.dedupWindow) {
+    const dedupKey = safeInterpolate(endpoint.dedupKey, data).trim()
+    if (dedupKey && !(await claimDedupKey(endpoint.id, dedupKey, endpoint.dedupWindow))) {
+      return {
+        action: "skip",
+        reason: `${endpoint.dedupWindow} 秒内已推送过相同的消息 (去重键: ${dedupKey})`,
+      }
+    }
+  }
+
+  const policy = parseRateLimit(endpoint.rateLimit)
+  if (!policy) return { action: "deliver", delaySeconds: 0 }
+
+  const maxDelay = policy.overflow === OVERFLOW_ACTIONS.QUEUE ? MAX_QUEUE_DELAY_SECONDS : 0
+  const result = await takeToken(endpoint.id, policy, maxDelay)
+  if (result.allowed) return { action: "deliver", delaySeconds: result.delaySeconds }
+
+  if (policy.overflow === OVERFLOW_ACTIONS.DIGEST) {
+    return { action: "digest", flushAfter: result.retryAfter }
+  }
+  return {
+    action: "skip",
+    reason: policy.overflow === OVERFLOW_ACTIONS.QUEUE
+      ? `超出限流且排队时间超过 ${MAX_QUEUE_DELAY_SECONDS / 60} 分钟，已丢弃`
+      : "超出限流，已丢弃",
+  }
+}
+
+/**
+ * 保存一条等待合并的请求，返回 true 表示当前没有已安排的摘要推送，需要调用方安排一次
+ */
+export async function addDigestItem(endpointId: string, messageId: string, body: string, flushAfter: number) {
+  await getDb().insert(digestItems).values({
+    id: generateId(),
+    endpointId,
+    messageId,
+    body,
+  })
+  return claimKey(`digest:${endpointId}`, Date.now() + flushAfter * 1000 + DIGEST_FLUSH_GRACE_MS)
+}
+
+/**
+ * 取出接口所有等待合并的请求，并释放摘要推送的占用，之后的请求会安排新的摘要推送
+ * 读取和删除在同一条 DELETE … RETURNING 中完成，同时执行的两次推送不会取到相同的请求
+ */
+export async function takeDigestItems(endpointId: string): Promise<DigestItem[]> {
+  const db = getDb()
+  await db.delete(throttleState).where(eq(throttleState.key, `digest:${endpointId}`))
+
+  const items = await db.delete(digestItems)
+    .where(eq(digestItems.endpointId, endpointId))
+    .returning()
+  return items.sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+}
@@ -0,0 +1,109 @@
+import { eq } from "drizzle-orm"
+import { getDb } from "@/lib/db"
+import { Endpoint, EndpointChannel, endpoints } from "@/lib/db/schema/endpoints"
+import { SECRET_MASK, Variable, variables } from "@/lib/db/schema/variables"
+
+// ---------------------------------------------------------------------------
+// 自定义变量
+//   模版中通过 ${vars.名称} 引用，${env.名称} 为同一组变量的别名
+//   变量在推送时从数据库读取，不写入队列和定时任务，修改后对排队中的推送同样生效
+//   机密变量的值不返回给页面，推送日志和预览中替换为 SECRET_MASK
+// ---------------------------------------------------------------------------
+
+export interface TemplateVariables {
+  values: Record<string, string>
+  // 机密变量的值，写入日志前替换
+  secrets: string[]
+}
+
+/**
+ * 读取用户的全部变量，推送和预览时传给模版
+ */
+export async function loadTemplateVariables(userId: string): Promise<TemplateVariables> {
+  const variableList = await getDb().query.variables.findMany({
+    where: eq(variables.userId, userId),
+  })
+  return {
+    values: Object.fromEntries(variableList.map(variable => [variable.name, variable.value])),
+    secrets: variableList.filter(variable => variable.secret && variable.value).map(variable => variable.value),
+  }
+}
+
+/**
+ * 模版数据中的 vars 和 env
+ */
+export function toTemplateData(values: Record<string, string>) {
+  return { vars: values, env: values }
+}
+
+/**
+ * 预览时使用的变量，机密变量显示为 SECRET_MASK
+ */
+export function getMaskedValues({ values, secrets }: TemplateVariables) {
+  return Object.fromEntries(Object.entries(values).map(([name, value]) => [
+    name,
+    secrets.includes(value) ? SECRET_MASK : value,
+  ]))
+}
+
+/**
+ * 把文本中的机密变量值替换为 SECRET_MASK，消息以 JSON 保存，同时替换转义后的形式
+ */
+export function maskSecrets<T extends string | null | undefined>(text: T, secrets: string[]): T {
+  if (!text || secrets.length === 0) return text
+  let masked: string = text
+  for (const secret of secrets) {
+    const escaped = JSON.stringify(secret).slice(1, -1)
+    masked = masked.split(secret).join(SECRET_MASK)
+    if (escaped !== secret) masked = masked.split(escaped).join(SECRET_MASK)
+  }
+  return masked as T
+}
+
+/**
+ * 返回给页面的变量，机密变量不包含值
+ */
+export function toClientVariable(variable: Variable): Variable {
+  return variable.secret ? { ...variable, value: "" } : variable
+}
+
+type EndpointWithRules = Pick<Endpoint,
+  "id" | "name" | "rule" | "filters" | "dedupKey" | "digestRule" | "quietHours"
+> & {
+  endpointChannels?: Pick<EndpointChannel, "rule">[]
+}
+
+// 接口中可以使用模版变量的配置，路由条件按字面值比较，不解析变量
+function getEndpointTemplates(endpoint: EndpointWithRules) {
+  return [
+    endpoint.rule,
+    endpoint.filters,
+    endpoint.dedupKey,
+    endpoint.digestRule,
+    endpoint.quietHours,
+    ...(endpoint.endpointChannels ?? []).map(item => item.rule),
+  ].filter((text): text is string => !!text)
+}
+
+/**
+ * 引用了该变量的接口
+ */
+export function findVariableReferences(endpointList: EndpointWithRules[], name: string) {
+  const pattern = new RegExp(`\\b(?:vars|env)\\.${name}(?![\\w$])`)
+  return endpointList
+    .filter(endpoint => getEndpointTemplates(endpoint).some(text => pattern.test(text)))
+    .map(endpoint => ({ id: endpoint.id, name: endpoint.name }))
+}
+
+export type VariableUsage = Record<string, { id: string, name: string }[]>
+
+/**
+ * 每个变量被哪些接口引用，重命名和删除变量前提示
+ */
+export async function getVariableUsage(userId: string, names: string[]): Promise<VariableUsage> {
+  const endpointList = await getDb().query.endpoints.findMany({
+    where: eq(endpoints.userId, userId),
+    with: { endpointChannels: true },
+  })
+  return Object.fromEntries(names.map(name => [name, findVariableReferences(endpointList, name)]))
+}
@@ -25,7 +25,11 @@ export async function middleware(request: NextRequest) {
     const protectedApis = [
       "/api/channels",
       "/api/endpoint-groups",
-      "/api/endpoints"
+      "/api/endpoints",
+      "/api/escalations",
+      "/api/push-logs",
+      "/api/schedules",
+      "/api/variables"
     ]
 
     const isProtectedApi = protectedApis.some(api =>
@@ -65,6 +69,10 @@ export const config = {
     "/api/channels/:path*",
     "/api/endpoint-groups/:path*",
     "/api/endpoints/:path*",
+    "/api/escalations/:path*",
+    "/api/push-logs/:path*",
+    "/api/schedules/:path*",
+    "/api/variables/:path*",
     // 页面路由
     "/moe/:path*",
     "/login",
@@ -0,0 +1,44 @@
+// Cloudflare Pages 无法直接消费队列，由该 Worker 读取 PUSH_QUEUE 中的消息
+// 并回调 GrassPush 的 /api/messages/[id]/deliver 完成投递
+// 同时通过 Cron Trigger 定时调用 /api/cron，补推到期的摘要消息等定时任务
+
+export default {
+  async queue(batch, env) {
+    for (const message of batch.messages) {
+      const job = message.body
+
+      try {
+        const response = await fetch(`${env.APP_URL}/api/messages/${job.messageId}/deliver`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${env.QUEUE_SECRET}`,
+          },
+          body: JSON.stringify(job),
+        });
+
+        if (response.ok) {
+          message.ack();
+        } else {
+          console.error(`投递失败 ${job.messageId}: ${response.status}`);
+          message.retry();
+        }
+      } catch (error) {
+        console.error(`投递失败 ${job.messageId}:`, error);
+        message.retry();
+      }
+    }
+  },
+
+  async scheduled(event, env, ctx) {
+    ctx.waitUntil((async () => {
+      const response = await fetch(`${env.APP_URL}/api/cron`, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${env.QUEUE_SECRET}` },
+      });
+      if (!response.ok) {
+        console.error(`定时任务执行失败: ${response.status}`);
+      }
+    })());
+  },
+};